@@ -0,0 +1,81 @@
+import React from 'react';
+import { AIHarmOutcomes } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface AIHarmsCardProps {
+  harms: AIHarmOutcomes;
+  deathsAverted?: number; // against the no-AI baseline, errors included
+}
+
+const AIHarmsCard: React.FC<AIHarmsCardProps> = ({ harms, deathsAverted }) => {
+  const errorRows = [
+    { label: 'Under-referred by triage AI', value: harms.underReferred, effect: 'left untreated' },
+    { label: 'Over-referred by triage AI', value: harms.overReferred, effect: 'sent past the CHW to primary care' },
+    { label: 'Referrals missed by diagnostic AI', value: harms.missedReferrals, effect: 'sent home untreated from primary care' },
+    { label: 'False referrals by diagnostic AI', value: harms.falseReferrals, effect: 'referred to hospital unnecessarily' },
+    { label: 'Falsely reassured by self-care AI', value: harms.falselyReassured, effect: 'stayed ill in informal care' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">AI Errors &amp; Harms</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Patients misrouted by AI errors, and the deaths and DALYs the errors caused compared with the same
+        scenario run with error-free AI. These harms are already part of the results above.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Misrouted patients</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(harms.misrouted)}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Excess deaths</div>
+          <div className="text-xl font-bold text-red-600 dark:text-red-400">
+            {harms.excessDeaths !== undefined ? formatNumber(harms.excessDeaths) : '-'}
+          </div>
+          {harms.excessDeaths !== undefined && deathsAverted !== undefined && deathsAverted > 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              AI still averts {formatNumber(deathsAverted)} deaths overall
+            </div>
+          )}
+          {harms.excessDeaths === undefined && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Switch on counting under AI errors to compare with error-free AI
+            </div>
+          )}
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Excess DALYs</div>
+          <div className="text-xl font-bold text-red-600 dark:text-red-400">
+            {harms.excessDalys !== undefined ? formatNumber(harms.excessDalys) : '-'}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">discounted</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Error</th>
+              <th className="py-1 pr-4">Patients</th>
+              <th className="py-1 pr-4">What happened to them</th>
+            </tr>
+          </thead>
+          <tbody>
+            {errorRows.map(({ label, value, effect }) => (
+              <tr key={label} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                <td className="py-1 pr-4">{label}</td>
+                <td className="py-1 pr-4">{formatNumber(value)}</td>
+                <td className="py-1 pr-4">{effect}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AIHarmsCard;
@@ -9,9 +9,27 @@ import {
   aiTimeToScaleParametersAtom,
   selectedDiseaseAtom,
   selectedDiseasesAtom,
-  aiUptakeParametersAtom
+  aiUptakeParametersAtom,
+  aiRolloutEnabledAtom,
+  aiAdoptionCurveAtom,
+  aiErrorParametersAtom,
+  attributeAIHarmsAtom,
+  aiEffectDecayEnabledAtom,
+  aiEffectTrajectoriesAtom
 } from '../lib/store';
-import { AIInterventions, AIUptakeParameters, diseaseSpecificAIEffects, diseaseAIRationales } from '../models/stockAndFlowModel';
+import {
+  AIInterventions,
+  AIUptakeParameters,
+  AIAdoptionCurve,
+  AIErrorParameters,
+  AIEffectTrajectory,
+  AIEffectTrajectoryType,
+  calculateAIEffectRetention,
+  patientFacingAITools,
+  diseaseSpecificAIEffects,
+  diseaseAIRationales
+} from '../models/stockAndFlowModel';
+import { timeToScaleScoreToWeeks } from '../lib/utils';
 import InfoTooltip from './InfoTooltip';
 
 // Define types for AI intervention configurations
@@ -175,11 +193,17 @@ const AIInterventionManager: React.FC = () => {
   const [aiCostParams, setAiCostParams] = useAtom(aiCostParametersAtom);
   const [timeToScaleParams, setTimeToScaleParams] = useAtom(aiTimeToScaleParametersAtom);
   const [aiUptakeParams, setAiUptakeParams] = useAtom(aiUptakeParametersAtom);
+  const [aiRolloutEnabled, setAiRolloutEnabled] = useAtom(aiRolloutEnabledAtom);
+  const [aiAdoptionCurve, setAiAdoptionCurve] = useAtom(aiAdoptionCurveAtom);
+  const [aiErrorParams, setAiErrorParams] = useAtom(aiErrorParametersAtom);
+  const [attributeAIHarms, setAttributeAIHarms] = useAtom(attributeAIHarmsAtom);
+  const [aiEffectDecayEnabled, setAiEffectDecayEnabled] = useAtom(aiEffectDecayEnabledAtom);
+  const [aiEffectTrajectories, setAiEffectTrajectories] = useAtom(aiEffectTrajectoriesAtom);
   const [selectedDisease] = useAtom(selectedDiseaseAtom);
   const [selectedDiseases] = useAtom(selectedDiseasesAtom);
   
   // UI state
-  const [activeTab, setActiveTab] = useState<'overview' | 'details' | 'uptake' | 'costs'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'details' | 'uptake' | 'errors' | 'costs'>('overview');
   const [displayedDisease, setDisplayedDisease] = useState<string | null>(null);
   
   // Helper functions
@@ -287,6 +311,8 @@ const AIInterventionManager: React.FC = () => {
         return renderDetailsTab();
       case 'uptake':
         return renderUptakeTab();
+      case 'errors':
+        return renderErrorsTab();
       case 'costs':
         return renderCostsTab();
       default:
@@ -835,6 +861,114 @@ const AIInterventionManager: React.FC = () => {
     </div>
   );
 
+  // Error rates per tool; sensitivity and specificity are shown as they are quoted in evaluations
+  const errorInputs: {
+    tool: keyof AIErrorParameters;
+    key: string;
+    label: string;
+    description: string;
+  }[] = [
+    {
+      tool: 'triageAI',
+      key: 'underReferral',
+      label: 'Under-referral',
+      description: 'Care seekers wrongly told to manage at home; they stay untreated',
+    },
+    {
+      tool: 'triageAI',
+      key: 'overReferral',
+      label: 'Over-referral',
+      description: 'CHW-level cases wrongly sent on to primary care, adding to its load',
+    },
+    {
+      tool: 'diagnosticAI',
+      key: 'sensitivity',
+      label: 'Sensitivity',
+      description: 'Patients needing referral who are referred; the rest are sent home untreated',
+    },
+    {
+      tool: 'diagnosticAI',
+      key: 'specificity',
+      label: 'Specificity',
+      description: 'Patients treatable at primary care who are kept there; the rest are referred anyway',
+    },
+    {
+      tool: 'selfCareAI',
+      key: 'falseReassurance',
+      label: 'False reassurance',
+      description: 'People advised to stay home who needed care; they stay ill in informal care',
+    },
+  ];
+
+  const renderErrorsTab = () => (
+    <div className="space-y-6">
+      <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
+        <h4 className="font-semibold text-red-900 dark:text-red-100 mb-2">AI Errors & Harms</h4>
+        <p className="text-sm text-red-700 dark:text-red-300">
+          AI tools make mistakes. Errors misroute the patients who use the tool, so they scale with uptake.
+          The results show how many patients were misrouted and, when switched on below, the deaths and DALYs
+          the errors caused against the same run with error-free AI.
+        </p>
+      </div>
+
+      <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={attributeAIHarms}
+            onChange={(e) => setAttributeAIHarms(e.target.checked)}
+            className="mr-2"
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Count the deaths and DALYs caused by AI errors
+          </span>
+          <InfoTooltip content="Reruns every simulation with error-free AI and reports the difference, so runs take about twice as long. Runs without error rates are never rerun." />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {errorInputs.map(({ tool, key, label, description }) => {
+          const intervention = interventionInfo.find(i => i.key === tool);
+          const toolErrors = aiErrorParams[tool] as Record<string, number>;
+          return (
+            <div
+              key={`${tool}.${key}`}
+              className={`border border-gray-200 dark:border-gray-700 rounded-lg p-4 ${aiInterventions[tool] ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-gray-800 dark:text-gray-200">{intervention?.name}: {label}</h4>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">{description}</p>
+                  {!aiInterventions[tool] && (
+                    <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">Tool not active</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={(toolErrors[key] * 100).toFixed(0)}
+                    onChange={(e) => setAiErrorParams({
+                      ...aiErrorParams,
+                      [tool]: {
+                        ...aiErrorParams[tool],
+                        [key]: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100
+                      }
+                    })}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-center"
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">%</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
   const renderCostsTab = () => (
     <div className="space-y-6">
       <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
@@ -960,6 +1094,33 @@ const AIInterventionManager: React.FC = () => {
         <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
           How quickly can each intervention be deployed? (0 = 3+ years, 1 = immediate)
         </p>
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={aiRolloutEnabled}
+              onChange={(e) => setAiRolloutEnabled(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Ramp up AI effects during the simulation
+            </span>
+            <InfoTooltip content="Each tool launches in week 0 from a pre-AI steady state and follows an adoption curve, reaching about 90% of its target uptake at its time to scale. Effects and variable costs reflect partial coverage in early weeks." />
+          </label>
+          {aiRolloutEnabled && (
+            <div className="mt-2 flex items-center gap-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Adoption curve</span>
+              <select
+                value={aiAdoptionCurve}
+                onChange={(e) => setAiAdoptionCurve(e.target.value as AIAdoptionCurve)}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              >
+                <option value="logistic">Logistic (S-curve)</option>
+                <option value="bass">Bass diffusion</option>
+              </select>
+            </div>
+          )}
+        </div>
         <div className="space-y-4">
           {Object.entries(timeToScaleParams).map(([key, value]) => {
             const intervention = interventionInfo.find(i => i.key === key);
@@ -980,6 +1141,7 @@ const AIInterventionManager: React.FC = () => {
                   </span>
                   <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">
                     {timeLabel}
+                    {aiRolloutEnabled && ` (${timeToScaleScoreToWeeks(value)} weeks)`}
                   </span>
                 </div>
                 <div className="flex items-center gap-3">
@@ -1013,6 +1175,103 @@ const AIInterventionManager: React.FC = () => {
           })}
         </div>
       </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-4">Effect Over Time</h3>
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={aiEffectDecayEnabled}
+              onChange={(e) => setAiEffectDecayEnabled(e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Let AI effects fade after launch
+            </span>
+            <InfoTooltip content="Patient-facing tools lose engagement over months, so fewer people use them and their variable costs fall too. Provider tools stay in use but their effect wanes as skills and workflows drift. Re-investment (refresher training, re-engagement campaigns) restores the full effect at a cost. Tools launch in week 0 from a pre-AI steady state." />
+          </label>
+        </div>
+        {aiEffectDecayEnabled && (
+          <div className="space-y-3">
+            {(Object.keys(aiEffectTrajectories) as (keyof AIInterventions)[]).map(tool => {
+              const intervention = interventionInfo.find(i => i.key === tool);
+              const trajectory = aiEffectTrajectories[tool];
+              const update = (changes: Partial<AIEffectTrajectory>) => setAiEffectTrajectories({
+                ...aiEffectTrajectories,
+                [tool]: { ...trajectory, ...changes }
+              });
+              const numberInput = (
+                key: 'halfLifeWeeks' | 'reinvestmentIntervalWeeks' | 'reinvestmentCost',
+                label: string,
+                step: number
+              ) => (
+                <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+                  {label}
+                  <input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={trajectory[key]}
+                    onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  />
+                </label>
+              );
+              
+              return (
+                <div key={tool} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {intervention?.name}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {patientFacingAITools.includes(tool) ? 'engagement fatigue' : 'skills and workflow drift'}
+                      </span>
+                    </span>
+                    <select
+                      value={trajectory.type}
+                      onChange={(e) => update({ type: e.target.value as AIEffectTrajectoryType })}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="constant">Constant</option>
+                      <option value="decay">Decay to zero</option>
+                      <option value="plateau">Decay to a plateau</option>
+                      <option value="reinvestment">Restored by re-investment</option>
+                    </select>
+                  </div>
+                  {trajectory.type !== 'constant' && (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {numberInput('halfLifeWeeks', 'Half-life (weeks)', 1)}
+                        {trajectory.type !== 'decay' && (
+                          <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+                            Plateau (% of effect kept)
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="5"
+                              value={(trajectory.plateau * 100).toFixed(0)}
+                              onChange={(e) => update({ plateau: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                            />
+                          </label>
+                        )}
+                        {trajectory.type === 'reinvestment' && numberInput('reinvestmentIntervalWeeks', 'Every (weeks)', 1)}
+                        {trajectory.type === 'reinvestment' && numberInput('reinvestmentCost', 'Cost per round ($)', 5000)}
+                      </div>
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Effect left at the end of year 1: {(calculateAIEffectRetention(trajectory, 51) * 100).toFixed(0)}%,
+                        year 3: {(calculateAIEffectRetention(trajectory, 155) * 100).toFixed(0)}%
+                      </p>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 
@@ -1078,6 +1337,7 @@ const AIInterventionManager: React.FC = () => {
             { id: 'overview', label: 'Overview', icon: '🏠' },
             { id: 'details', label: 'Effect Details', icon: '🔧' },
             { id: 'uptake', label: 'Uptake Rates', icon: '📊' },
+            { id: 'errors', label: 'Errors & Harms', icon: '⚠️' },
             { id: 'costs', label: 'Costs & Timeline', icon: '💰' }
           ].map(tab => (
             <button
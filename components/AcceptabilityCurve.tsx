@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { CEACPoint } from '../models/probabilisticAnalysis';
+import { WTPThreshold } from '../lib/store';
+import { formatNumber } from '../lib/utils';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+interface AcceptabilityCurveProps {
+  points: CEACPoint[];
+  thresholds: WTPThreshold[];
+}
+
+const thresholdColors = ['rgb(234, 179, 8)', 'rgb(220, 38, 38)', 'rgb(124, 58, 237)'];
+
+const AcceptabilityCurve: React.FC<AcceptabilityCurveProps> = ({ points, thresholds }) => {
+  const chartData: ChartData<'scatter'> = {
+    datasets: [
+      {
+        label: 'Probability cost-effective',
+        data: points.map(p => ({ x: p.wtp, y: p.probabilityCostEffective })),
+        borderColor: 'rgb(34, 197, 94)',
+        backgroundColor: 'rgba(34, 197, 94, 0.5)',
+        showLine: true,
+        pointRadius: 2,
+      },
+    ],
+  };
+
+  // Vertical markers at the default WTP thresholds
+  thresholds.forEach((threshold, index) => {
+    chartData.datasets.push({
+      label: `${threshold.label}: $${formatNumber(threshold.value)}`,
+      data: [
+        { x: threshold.value, y: 0 },
+        { x: threshold.value, y: 1 },
+      ],
+      borderColor: thresholdColors[index % thresholdColors.length],
+      backgroundColor: thresholdColors[index % thresholdColors.length],
+      borderDash: [6, 4],
+      showLine: true,
+      pointRadius: 0,
+    });
+  });
+
+  const options: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            return `WTP $${formatNumber(context.parsed.x)}/DALY: ${(context.parsed.y * 100).toFixed(0)}% cost-effective`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        title: {
+          display: true,
+          text: 'Willingness to Pay (USD per DALY averted)',
+        },
+      },
+      y: {
+        min: 0,
+        max: 1,
+        title: {
+          display: true,
+          text: 'Probability Cost-Effective',
+        },
+      },
+    },
+  };
+
+  return <Scatter data={chartData} options={options} />;
+};
+
+export default AcceptabilityCurve;
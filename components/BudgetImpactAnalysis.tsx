@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { useAtom } from 'jotai';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import {
+  aiInterventionsAtom,
+  budgetImpactYearsAtom,
+  budgetMaintenanceShareAtom,
+  budgetPayerSettingsAtom,
+  budgetImpactResultsAtom,
+  runBudgetImpactAnalysisAtom
+} from '../lib/store';
+import { Payer, ServiceLevel, payers, serviceLevels, BudgetPayerSettings } from '../models/budgetImpact';
+import { formatNumber } from '../lib/utils';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const payerLabels: Record<Payer, string> = {
+  government: 'Government',
+  households: 'Households',
+  donors: 'Donors',
+};
+
+const payerColors: Record<Payer, string> = {
+  government: 'rgb(79, 70, 229)',
+  households: 'rgb(234, 179, 8)',
+  donors: 'rgb(34, 197, 94)',
+};
+
+const serviceLabels: Record<ServiceLevel, string> = {
+  I: 'Informal care',
+  F: 'Formal care entry',
+  L0: 'CHW (L0)',
+  L1: 'Primary care (L1)',
+  L2: 'District hospital (L2)',
+  L3: 'Tertiary hospital (L3)',
+};
+
+const donorShareInputs: { key: keyof BudgetPayerSettings; label: string }[] = [
+  { key: 'donorShareAIFixed', label: 'AI set-up & maintenance' },
+  { key: 'donorShareAIRecurrent', label: 'AI per-episode costs' },
+  { key: 'donorShareServices', label: 'Public service costs' },
+];
+
+// Signed currency: budget savings show as negative amounts
+const formatMoney = (value: number): string => `${value < 0 ? '-' : ''}$${formatNumber(Math.abs(value))}`;
+
+const BudgetImpactAnalysis: React.FC = () => {
+  const [aiInterventions] = useAtom(aiInterventionsAtom);
+  const [years, setYears] = useAtom(budgetImpactYearsAtom);
+  const [maintenanceShare, setMaintenanceShare] = useAtom(budgetMaintenanceShareAtom);
+  const [payerSettings, setPayerSettings] = useAtom(budgetPayerSettingsAtom);
+  const [results] = useAtom(budgetImpactResultsAtom);
+  const [, runBudgetImpact] = useAtom(runBudgetImpactAnalysisAtom);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const hasActiveAI = Object.values(aiInterventions).some(Boolean);
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Defer so the button state renders before the multi-year simulations start
+    setTimeout(() => {
+      runBudgetImpact();
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const chartData: ChartData<'bar'> | null = results ? {
+    labels: results.years.map(year => `Year ${year.year}`),
+    datasets: payers.map(payer => ({
+      label: payerLabels[payer],
+      data: results.years.map(year => year.byPayer[payer]),
+      backgroundColor: payerColors[payer],
+      stack: 'payers',
+    })),
+  } : null;
+
+  const chartOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            return `${context.dataset.label}: ${formatMoney(context.parsed.y)}`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        stacked: true,
+      },
+      y: {
+        stacked: true,
+        title: {
+          display: true,
+          text: 'Change in spending by payer (USD)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">Budget Impact</h3>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Year-by-year budget needed for the selected AI tools compared with no AI, split by who pays. AI set-up costs
+        fall in year 1 with maintenance afterwards, plus any re-investment rounds that restore fading AI effects;
+        service costs change as AI moves patients between levels, and so do the user fees and transport households pay.
+        Amounts are undiscounted, as budget holders pay them.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Time Horizon</label>
+          <select
+            value={years}
+            onChange={(e) => setYears(Number(e.target.value))}
+            className="input w-full"
+          >
+            {[1, 2, 3, 4, 5].map(value => (
+              <option key={value} value={value}>{value} year{value > 1 ? 's' : ''}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Yearly AI Maintenance (% of set-up)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={maintenanceShare * 100}
+            onChange={(e) => setMaintenanceShare(Math.max(0, Math.min(100, Number(e.target.value))) / 100)}
+            className="input w-full"
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className={`btn ${isRunning ? 'bg-gray-300 cursor-not-allowed' : 'btn-primary'} px-6`}
+          >
+            {isRunning ? 'Running...' : 'Run Budget Impact'}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Donor Funding (% paid by donors)</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {donorShareInputs.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+              {label}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={payerSettings[key] * 100}
+                onChange={(e) => setPayerSettings({
+                  ...payerSettings,
+                  [key]: Math.max(0, Math.min(100, Number(e.target.value))) / 100,
+                })}
+                className="input w-full"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Households pay informal care and the out-of-pocket share of formal care (Financial Protection parameters).
+        </p>
+      </div>
+
+      {!hasActiveAI && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-md text-sm mb-4">
+          No AI interventions are active, so the budget impact will be zero.
+        </div>
+      )}
+
+      {results && chartData && (
+        <div>
+          <div className="h-72 mb-6">
+            <Bar data={chartData} options={chartOptions} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4"></th>
+                  {results.years.map(year => (
+                    <th key={year.year} className="py-1 pr-4">Year {year.year}</th>
+                  ))}
+                  <th className="py-1 pr-4">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  { label: 'AI set-up & maintenance', value: (y: typeof results.cumulative) => y.aiFixed },
+                  { label: 'AI per-episode costs', value: (y: typeof results.cumulative) => y.aiRecurrent },
+                  ...serviceLevels.map(level => ({
+                    label: `${serviceLabels[level]} services`,
+                    value: (y: typeof results.cumulative) => y.serviceChange[level],
+                  })),
+                  { label: 'Net budget impact', value: (y: typeof results.cumulative) => y.netImpact, bold: true },
+                  ...payers.filter(payer => payer !== 'households').map(payer => ({
+                    label: `  ${payerLabels[payer]}`,
+                    value: (y: typeof results.cumulative) => y.byPayer[payer],
+                  })),
+                  { label: 'Household spending', value: (y: typeof results.cumulative) => y.byPayer.households, bold: true },
+                  { label: '  of which user fees & transport', value: (y: typeof results.cumulative) => y.householdCharges },
+                ].map(row => (
+                  <tr
+                    key={row.label}
+                    className={`border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${'bold' in row ? 'font-semibold' : ''}`}
+                  >
+                    <td className="py-1 pr-4 whitespace-pre">{row.label}</td>
+                    {results.years.map(year => (
+                      <td key={year.year} className="py-1 pr-4">{formatMoney(row.value(year))}</td>
+                    ))}
+                    <td className="py-1 pr-4">{formatMoney(row.value(results.cumulative))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Service costs without AI: {formatMoney(results.cumulative.baselineServices)} over {results.years.length} year
+            {results.years.length > 1 ? 's' : ''}; with AI: {formatMoney(results.cumulative.scenarioServices)}.
+            The net budget impact covers government and donors; household spending is shown separately.
+            Negative amounts are savings.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetImpactAnalysis;
@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { useAtom } from 'jotai';
+import {
+  calibrationTargetsAtom,
+  calibrationParametersAtom,
+  calibrationMaxEvaluationsAtom,
+  calibrationResultsAtom,
+  runCalibrationAtom,
+  applyCalibrationAtom,
+  populationSizeAtom
+} from '../lib/store';
+import {
+  CalibrationParameter,
+  CalibrationTarget,
+  CalibrationTargetType,
+  CalibrationLevel,
+  calibrationParameterLabels,
+  defaultCalibrationBounds
+} from '../models/calibration';
+import { formatNumber } from '../lib/utils';
+
+const targetTypeLabels: Record<CalibrationTargetType, string> = {
+  visits: 'Visits per year',
+  deaths: 'Deaths per year',
+  caseFatality: 'Case fatality',
+};
+
+const levelLabels: Record<CalibrationLevel, string> = {
+  L0: 'CHW (L0)',
+  L1: 'Primary care (L1)',
+  L2: 'District hospital (L2)',
+  L3: 'Tertiary hospital (L3)',
+  facilities: 'All facilities (L0-L3)',
+  all: 'Whole population',
+};
+
+const formatTargetValue = (type: CalibrationTargetType, value: number): string =>
+  type === 'caseFatality' ? `${(value * 100).toFixed(2)}%` : formatNumber(value);
+
+const CalibrationPanel: React.FC = () => {
+  const [targets, setTargets] = useAtom(calibrationTargetsAtom);
+  const [parameters, setParameters] = useAtom(calibrationParametersAtom);
+  const [maxEvaluations, setMaxEvaluations] = useAtom(calibrationMaxEvaluationsAtom);
+  const [results] = useAtom(calibrationResultsAtom);
+  const [population] = useAtom(populationSizeAtom);
+  const [, runCalibration] = useAtom(runCalibrationAtom);
+  const [, applyCalibration] = useAtom(applyCalibrationAtom);
+  const [isRunning, setIsRunning] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  const updateTarget = (index: number, update: Partial<CalibrationTarget>) =>
+    setTargets(targets.map((target, i) => (i === index ? { ...target, ...update } : target)));
+
+  const toggleParameter = (key: CalibrationParameter) =>
+    setParameters(parameters.some(p => p.key === key)
+      ? parameters.filter(p => p.key !== key)
+      : [...parameters, defaultCalibrationBounds(key)]);
+
+  const updateBound = (key: CalibrationParameter, bound: 'lower' | 'upper', value: number) =>
+    setParameters(parameters.map(p => (p.key === key ? { ...p, [bound]: value } : p)));
+
+  const canRun = targets.length > 0 && parameters.length > 0 &&
+    targets.every(target => target.observed > 0) && parameters.every(p => p.lower < p.upper);
+
+  const handleRun = () => {
+    setIsRunning(true);
+    setApplied(false);
+    // Defer so the button state renders before the simulations start
+    setTimeout(() => {
+      runCalibration();
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const handleApply = () => {
+    applyCalibration();
+    setApplied(true);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">Calibration</h3>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Fit care-seeking and outcome probabilities so the baseline without AI reproduces routine health information
+        system (HMIS) data for the primary disease. Enter yearly counts for a population of {formatNumber(population)};
+        a Nelder-Mead search minimises the weighted squared relative errors, keeping each parameter within its bounds.
+        Fitted values are kept as disease overrides, so health system multipliers still apply on top of them.
+      </p>
+
+      <div className="mb-6">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Targets</h4>
+        {targets.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Add at least one observed value to fit against.</p>
+        )}
+        <div className="space-y-2">
+          {targets.map((target, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+              <select
+                value={target.type}
+                onChange={(e) => updateTarget(index, { type: e.target.value as CalibrationTargetType })}
+                className="input w-full"
+              >
+                {(Object.keys(targetTypeLabels) as CalibrationTargetType[]).map(type => (
+                  <option key={type} value={type}>{targetTypeLabels[type]}</option>
+                ))}
+              </select>
+              <select
+                value={target.level}
+                onChange={(e) => updateTarget(index, { level: e.target.value as CalibrationLevel })}
+                className="input w-full"
+              >
+                {(Object.keys(levelLabels) as CalibrationLevel[]).map(level => (
+                  <option key={level} value={level}>{levelLabels[level]}</option>
+                ))}
+              </select>
+              <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+                Observed{target.type === 'caseFatality' ? ' (%)' : ''}
+                <input
+                  type="number"
+                  min={0}
+                  value={target.type === 'caseFatality' ? target.observed * 100 : target.observed}
+                  onChange={(e) => updateTarget(index, {
+                    observed: Math.max(0, Number(e.target.value)) / (target.type === 'caseFatality' ? 100 : 1),
+                  })}
+                  className="input w-full"
+                />
+              </label>
+              <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+                Weight
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={target.weight ?? 1}
+                  onChange={(e) => updateTarget(index, { weight: Math.max(0, Number(e.target.value)) })}
+                  className="input w-full"
+                />
+              </label>
+              <button
+                onClick={() => setTargets(targets.filter((_, i) => i !== index))}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline justify-self-start"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setTargets([...targets, { type: 'visits', level: 'L1', observed: 0, weight: 1 }])}
+          className="mt-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          + Add target
+        </button>
+      </div>
+
+      <div className="mb-6">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Parameters to fit</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {(Object.keys(calibrationParameterLabels) as CalibrationParameter[]).map(key => {
+            const setting = parameters.find(p => p.key === key);
+            return (
+              <div key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center gap-2 flex-1">
+                  <input type="checkbox" checked={!!setting} onChange={() => toggleParameter(key)} />
+                  {calibrationParameterLabels[key]}
+                </label>
+                {setting && (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={setting.lower}
+                      onChange={(e) => updateBound(key, 'lower', Math.max(0, Math.min(1, Number(e.target.value))))}
+                      className="input w-20"
+                      title="Lower bound"
+                    />
+                    <span className="text-xs text-gray-500">to</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={setting.upper}
+                      onChange={(e) => updateBound(key, 'upper', Math.max(0, Math.min(1, Number(e.target.value))))}
+                      className="input w-20"
+                      title="Upper bound"
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {parameters.length > targets.length && targets.length > 0 && (
+          <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+            More parameters than targets: many combinations can fit equally well, so the result depends on the starting values.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-end gap-4 mb-4">
+        <label className="flex flex-col text-sm text-gray-700 dark:text-gray-300">
+          Maximum simulations
+          <input
+            type="number"
+            min={10}
+            max={5000}
+            step={50}
+            value={maxEvaluations}
+            onChange={(e) => setMaxEvaluations(Math.max(10, Math.min(5000, Number(e.target.value))))}
+            className="input w-32"
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !canRun}
+          className={`btn ${isRunning || !canRun ? 'bg-gray-300 cursor-not-allowed' : 'btn-primary'} px-6`}
+        >
+          {isRunning ? 'Calibrating...' : 'Run Calibration'}
+        </button>
+      </div>
+
+      {results && (
+        <div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Fit error</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">{results.objective.toPrecision(3)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">from {results.initialObjective.toPrecision(3)} before</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Simulations</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">{results.evaluations}</div>
+              <div className={`text-xs mt-1 ${results.converged ? 'text-green-600 dark:text-green-400' : 'text-yellow-700 dark:text-yellow-400'}`}>
+                {results.converged ? 'converged' : 'stopped at the limit before converging'}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Disease</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">{results.disease?.replace(/_/g, ' ')}</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4">Target</th>
+                  <th className="py-1 pr-4">Observed</th>
+                  <th className="py-1 pr-4">Before</th>
+                  <th className="py-1 pr-4">Fitted</th>
+                  <th className="py-1 pr-4">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.fits.map((fit, index) => (
+                  <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                    <td className="py-1 pr-4">{targetTypeLabels[fit.target.type]}, {levelLabels[fit.target.level]}</td>
+                    <td className="py-1 pr-4">{formatTargetValue(fit.target.type, fit.target.observed)}</td>
+                    <td className="py-1 pr-4">{formatTargetValue(fit.target.type, results.initialFits[index].simulated)}</td>
+                    <td className="py-1 pr-4">{formatTargetValue(fit.target.type, fit.simulated)}</td>
+                    <td className={`py-1 pr-4 ${Math.abs(fit.relativeError) > 0.1 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                      {fit.relativeError > 0 ? '+' : ''}{(fit.relativeError * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4">Parameter</th>
+                  <th className="py-1 pr-4">Before</th>
+                  <th className="py-1 pr-4">Fitted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(results.values) as CalibrationParameter[]).map(key => (
+                  <tr key={key} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                    <td className="py-1 pr-4">{calibrationParameterLabels[key]}</td>
+                    <td className="py-1 pr-4">{results.initialValues[key]?.toFixed(4)}</td>
+                    <td className="py-1 pr-4">{results.values[key]?.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Values before health system multipliers. A fitted value at one of its bounds suggests the bounds or the targets need another look.
+            </p>
+          </div>
+
+          <button
+            onClick={handleApply}
+            disabled={applied}
+            className={`btn ${applied ? 'bg-gray-300 cursor-not-allowed' : 'btn-primary'} px-6`}
+          >
+            {applied ? 'Applied as disease overrides' : 'Apply Fitted Values'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
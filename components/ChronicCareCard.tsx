@@ -0,0 +1,61 @@
+import React from 'react';
+import { ChronicCareOutcomes } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface ChronicCareCardProps {
+  outcomes: ChronicCareOutcomes;
+  baseline?: ChronicCareOutcomes;
+}
+
+const ChronicCareCard: React.FC<ChronicCareCardProps> = ({ outcomes, baseline }) => {
+  const returningEpisodes = outcomes.relapses + outcomes.decompensations;
+  const returningChange = baseline
+    ? returningEpisodes - (baseline.relapses + baseline.decompensations)
+    : undefined;
+  const controlChange = baseline ? outcomes.controlRate - baseline.controlRate : undefined;
+
+  const metrics = [
+    { label: 'Relapses', value: formatNumber(outcomes.relapses), note: 'from remission' },
+    { label: 'Decompensations', value: formatNumber(outcomes.decompensations), note: 'lost control in care' },
+    { label: 'Controlled (average)', value: formatNumber(outcomes.averageControlled), note: 'patients in ongoing care' },
+    { label: 'Controlled care cost', value: `$${formatNumber(outcomes.controlledCareCost)}`, note: 'undiscounted, in total cost' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Chronic Care</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Patients resolved in formal care can stay in ongoing care with their condition controlled, or leave in
+        remission. Relapses and decompensations start new episodes, so they add to the care load and deaths above.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Control rate</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{(outcomes.controlRate * 100).toFixed(1)}%</div>
+          {controlChange !== undefined && Math.abs(controlChange) >= 0.0005 && (
+            <div className={`text-xs mt-1 ${controlChange > 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {controlChange > 0 ? '↑' : '↓'} {Math.abs(controlChange * 100).toFixed(1)} points
+            </div>
+          )}
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">controlled among all current patients</div>
+        </div>
+        {metrics.map(({ label, value, note }) => (
+          <div key={label} className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+            <div className="text-sm text-gray-500 dark:text-gray-400">{label}</div>
+            <div className="text-xl font-bold text-gray-800 dark:text-white">{value}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{note}</div>
+          </div>
+        ))}
+      </div>
+
+      {returningChange !== undefined && Math.abs(returningChange) >= 0.5 && (
+        <p className={`mt-3 text-sm ${returningChange < 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {formatNumber(Math.abs(returningChange))} {returningChange < 0 ? 'fewer' : 'more'} returning episodes than the baseline.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChronicCareCard;
@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { PSADraw } from '../models/probabilisticAnalysis';
+import { WTPThreshold } from '../lib/store';
+import { formatNumber } from '../lib/utils';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+interface CostEffectivenessPlaneProps {
+  draws: PSADraw[];
+  // Deterministic point from the current run vs. its baseline (calculateICER inputs)
+  deterministic?: {
+    incrementalCost: number;
+    dalysAverted: number;
+  };
+  thresholds: WTPThreshold[];
+}
+
+const thresholdColors = ['rgb(234, 179, 8)', 'rgb(220, 38, 38)', 'rgb(124, 58, 237)'];
+
+const CostEffectivenessPlane: React.FC<CostEffectivenessPlaneProps> = ({ draws, deterministic, thresholds }) => {
+  const xValues = draws.map(d => d.dalysAverted).concat(deterministic ? [deterministic.dalysAverted] : []);
+  const xMin = Math.min(0, ...xValues);
+  const xMax = Math.max(0, ...xValues);
+
+  const chartData: ChartData<'scatter'> = {
+    datasets: [
+      {
+        label: 'PSA draws',
+        data: draws.map(d => ({ x: d.dalysAverted, y: d.incrementalCost })),
+        backgroundColor: 'rgba(59, 130, 246, 0.4)',
+        pointRadius: 2,
+      },
+    ],
+  };
+
+  if (deterministic) {
+    chartData.datasets.push({
+      label: 'Current scenario',
+      data: [{ x: deterministic.dalysAverted, y: deterministic.incrementalCost }],
+      backgroundColor: 'rgb(17, 24, 39)',
+      pointRadius: 6,
+      pointStyle: 'rectRot',
+    });
+  }
+
+  // WTP threshold lines through the origin: points below a line are cost-effective at that WTP
+  thresholds.forEach((threshold, index) => {
+    chartData.datasets.push({
+      label: `WTP ${threshold.label}: $${formatNumber(threshold.value)}/DALY`,
+      data: [
+        { x: xMin, y: xMin * threshold.value },
+        { x: xMax, y: xMax * threshold.value },
+      ],
+      borderColor: thresholdColors[index % thresholdColors.length],
+      backgroundColor: thresholdColors[index % thresholdColors.length],
+      borderDash: [6, 4],
+      showLine: true,
+      pointRadius: 0,
+    });
+  });
+
+  const options: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            const label = context.dataset.label || '';
+            return `${label}: ${formatNumber(context.parsed.x)} DALYs averted, $${formatNumber(context.parsed.y)}`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: 'DALYs Averted',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Incremental Cost (USD)',
+        },
+      },
+    },
+  };
+
+  return <Scatter data={chartData} options={options} />;
+};
+
+export default CostEffectivenessPlane;
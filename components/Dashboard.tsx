@@ -17,6 +17,8 @@ import {
   selectedCountryAtom,
   isUrbanSettingAtom,
   useCountrySpecificModelAtom,
+  nationalResultsAtom,
+  regionalResultsAtom,
   Scenario,
   getEnhancedBaselineKey,
   multiDiseaseScenarioModeAtom,
@@ -26,8 +28,20 @@ import SimulationChart from './SimulationChart';
 import CumulativeOutcomesChart from './CumulativeOutcomesChart';
 import ResultsTable from './ResultsTable';
 import QueueVisualization from './QueueVisualization';
+import ModelDiagnostics from './ModelDiagnostics';
+import TimeToResolutionTable from './TimeToResolutionTable';
+import OutcomesByLocationChart from './OutcomesByLocationChart';
+import FinancialProtectionCard from './FinancialProtectionCard';
+import SocietalCostsTable from './SocietalCostsTable';
+import ChronicCareCard from './ChronicCareCard';
+import PrevalenceOutcomesCard from './PrevalenceOutcomesCard';
+import TransmissionCard from './TransmissionCard';
+import AIHarmsCard from './AIHarmsCard';
+import NationalResultsCard from './NationalResultsCard';
+import RegionalResultsCard from './RegionalResultsCard';
 import { formatNumber, calculateSuggestedFeasibility } from '../lib/utils';
-import { SimulationResults } from '../models/stockAndFlowModel';
+import { SimulationResults, CEPlaneQuadrant } from '../models/stockAndFlowModel';
+import { countryProfiles } from '../models/countrySpecificModel';
 
 // Helper function to get country-specific baseline
 const getCountrySpecificBaseline = (
@@ -85,6 +99,8 @@ const Dashboard: React.FC = () => {
   const [selectedCountry] = useAtom(selectedCountryAtom);
   const [isUrban] = useAtom(isUrbanSettingAtom);
   const [useCountrySpecific] = useAtom(useCountrySpecificModelAtom);
+  const [nationalResults] = useAtom(nationalResultsAtom);
+  const [regionalResults] = useAtom(regionalResultsAtom);
   const [scenarioMode] = useAtom(multiDiseaseScenarioModeAtom);
   const [baseParams] = useAtom(baseParametersAtom);
   const [scenariosExpanded, setScenariosExpanded] = useState(false);
@@ -136,6 +152,17 @@ const Dashboard: React.FC = () => {
     return colors[Math.abs(hash) % colors.length];
   };
 
+  // Describe the cost-effectiveness plane quadrant
+  const formatQuadrant = (quadrant: CEPlaneQuadrant | undefined): string => {
+    switch (quadrant) {
+      case 'dominant': return 'Dominant (SE)';
+      case 'costlier_effective': return 'More costly, more effective (NE)';
+      case 'cheaper_less_effective': return 'Cheaper, less effective (SW)';
+      case 'dominated': return 'Dominated (NW)';
+      default: return 'Plane position';
+    }
+  };
+
   // Get a list of active AI interventions
   const getActiveInterventions = () => {
     if (!currentScenario) return [];
@@ -624,6 +651,16 @@ const Dashboard: React.FC = () => {
               <p className="text-2xl font-bold text-gray-800 dark:text-white mt-1">
                 ${formatNumber(results.totalCost)}
               </p>
+              {results.costingPerspective === 'societal' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Societal perspective · incl. ${formatNumber(results.societalCosts?.total || 0)} household time and lost production
+                </p>
+              )}
+              {results.undiscountedCost !== undefined && Math.abs(results.undiscountedCost - results.totalCost) > 0.5 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Discounted · ${formatNumber(results.undiscountedCost)} undiscounted
+                </p>
+              )}
               {baseline && (
                 <p className={`text-sm mt-1 ${costDifference < 0 ? 'text-green-500' : 'text-red-500'}`}>
                   {costDifference < 0 ? '↓' : '↑'} ${formatNumber(Math.abs(costDifference))}
@@ -636,6 +673,11 @@ const Dashboard: React.FC = () => {
               <p className="text-2xl font-bold text-gray-800 dark:text-white mt-1">
                 {results.averageTimeToResolution.toFixed(1)} weeks
               </p>
+              {results.timeToResolution && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Median {results.timeToResolution.overall.median} · 90th pct. {results.timeToResolution.overall.p90} weeks
+                </p>
+              )}
               {baseline && (
                 <p className={`text-sm mt-1 ${timeToResolutionChange < 0 ? 'text-green-500' : 'text-red-500'}`}>
                   {timeToResolutionChange < 0 ? '↓' : '↑'} {Math.abs(timeToResolutionChange).toFixed(1)} weeks
@@ -663,6 +705,13 @@ const Dashboard: React.FC = () => {
                       Raw value: ${formatNumber(results.rawIcerValue)}
                     </p>
                   )}
+                  {/* Position on the cost-effectiveness plane, which the symbolic DOMINANT value hides */}
+                  {results.incrementalCost !== undefined && results.incrementalDalysAverted !== undefined && (
+                    <p className="text-xs mt-1 text-gray-400 dark:text-gray-500">
+                      {formatQuadrant(results.cePlaneQuadrant)}: {results.incrementalCost < 0 ? 'saves' : 'costs'} ${formatNumber(Math.abs(results.incrementalCost))},{' '}
+                      {formatNumber(results.incrementalDalysAverted)} DALYs averted
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -710,6 +759,143 @@ const Dashboard: React.FC = () => {
             />
           )}
 
+          {/* Capacity utilization - only available when explicit L0-L3 capacity was simulated */}
+          {results && results.capacityUtilization && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Capacity Utilization</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Simulated congestion: <strong>{((results.simulatedCongestion || 0) * 100).toFixed(0)}%</strong> (mean occupancy of L0-L3 capacity, including queues)
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['L0', 'L1', 'L2', 'L3'] as const).map(level => {
+                  const utilization = results.capacityUtilization![level];
+                  return (
+                    <div key={level} className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+                      <div className="text-sm text-gray-500 dark:text-gray-400">{level}</div>
+                      <div className={`text-xl font-bold ${utilization > 1 ? 'text-red-600 dark:text-red-400' : utilization > 0.8 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-800 dark:text-white'}`}>
+                        {(utilization * 100).toFixed(0)}%
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {results.capacityAccess && (
+                <div className="mt-4 overflow-x-auto">
+                  <h4 className="text-md font-medium text-gray-700 dark:text-gray-300 mb-2">Share of Demand Served (shared capacity pool)</h4>
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400">
+                        <th className="py-1 pr-4">Disease</th>
+                        <th className="py-1 pr-4">L0</th>
+                        <th className="py-1 pr-4">L1</th>
+                        <th className="py-1 pr-4">L2</th>
+                        <th className="py-1 pr-4">L3</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(results.capacityAccess).map(([disease, access]) => (
+                        <tr key={disease} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                          <td className="py-1 pr-4">{formatDiseaseName(disease)}</td>
+                          {(['L0', 'L1', 'L2', 'L3'] as const).map(level => (
+                            <td key={level} className={`py-1 pr-4 ${access[level] < 0.9 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                              {(access[level] * 100).toFixed(0)}%
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Diseases compete for the same beds and workforce: part of each level is reserved by capacity share, the rest goes to higher clinical priority first.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Deaths and resolutions by location, against the baseline */}
+          {results && results.deathsByLocation && (
+            <OutcomesByLocationChart results={results} baseline={baseline} />
+          )}
+
+          {/* National mode: urban and rural runs weighted by population, with the equity gap */}
+          {nationalResults && (
+            <NationalResultsCard
+              results={nationalResults}
+              countryName={countryProfiles[selectedCountry]?.country || selectedCountry}
+            />
+          )}
+
+          {/* Sub-national regions, with the gap between the highest and lowest burden regions */}
+          {regionalResults && (
+            <RegionalResultsCard
+              results={regionalResults}
+              countryName={countryProfiles[selectedCountry]?.country || selectedCountry}
+            />
+          )}
+
+          {/* Out-of-pocket spending and catastrophic expenditure, with cases averted against the baseline */}
+          {results && results.financialProtection && (
+            <FinancialProtectionCard
+              outcomes={results.financialProtection}
+              baseline={baseline?.financialProtection}
+            />
+          )}
+
+          {/* Household time and productivity losses, counted in the total under the societal perspective */}
+          {results && results.societalCosts && (
+            <SocietalCostsTable
+              costs={results.societalCosts}
+              baseline={baseline?.societalCosts}
+              perspective={results.costingPerspective}
+            />
+          )}
+
+          {/* Relapses, decompensations and control for chronic conditions */}
+          {results && results.chronicCare && (
+            <ChronicCareCard
+              outcomes={results.chronicCare}
+              baseline={baseline?.chronicCare}
+            />
+          )}
+
+          {/* Patients misrouted by AI errors and the deaths they caused */}
+          {results && results.aiHarms && (
+            <AIHarmsCard
+              harms={results.aiHarms}
+              deathsAverted={baseline ? baseline.cumulativeDeaths - results.cumulativeDeaths : undefined}
+            />
+          )}
+
+          {/* Transmission: cases prevented by treating infectious people sooner */}
+          {results && results.transmission && (
+            <TransmissionCard
+              outcomes={results.transmission}
+              baseline={baseline?.transmission}
+            />
+          )}
+
+          {/* Prevalence mode: proportion controlled and complications averted */}
+          {results && results.prevalenceOutcomes && (
+            <PrevalenceOutcomesCard
+              outcomes={results.prevalenceOutcomes}
+              baseline={baseline?.prevalenceOutcomes}
+            />
+          )}
+
+          {/* Cohort time to resolution by the pathway episodes ended on */}
+          {results && results.timeToResolution && (
+            <TimeToResolutionTable
+              distribution={results.timeToResolution}
+              baseline={baseline?.timeToResolution}
+            />
+          )}
+
+          {/* Mass-balance and non-negativity checks over every simulated week */}
+          {results && results.diagnostics && (
+            <ModelDiagnostics diagnostics={results.diagnostics} />
+          )}
+
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
             <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">Summary</h3>
             <div className="prose dark:prose-invert max-w-none">
@@ -717,6 +903,11 @@ const Dashboard: React.FC = () => {
                 In a population of <strong>{formatNumber(population)}</strong>, 
                 with an annual incidence rate of <strong>{parameters.lambda.toFixed(2)}</strong>,
                 our model predicts <strong>{formatNumber(results.cumulativeDeaths)}</strong> deaths over 52 weeks.
+                {results.burnInWeeks !== undefined && (
+                  <> The run {results.burnInWeeks === 0
+                    ? 'starts cold, with no one yet in care'
+                    : `starts after a ${results.burnInWeeks}-week burn-in${results.burnInConverged === false ? ' that did not reach steady state' : ''}`}.</>
+                )}
               </p>
               
               {baseline && (
@@ -796,6 +987,11 @@ const Dashboard: React.FC = () => {
                     <div className="text-2xl font-bold text-gray-900 dark:text-white">
                       {formatNumber(results.dalys || 0)}
                     </div>
+                    {results.undiscountedDalys !== undefined && Math.abs(results.undiscountedDalys - results.dalys) > 0.5 && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatNumber(results.undiscountedDalys)} undiscounted
+                      </div>
+                    )}
                     {baseline && (
                       <div className="text-sm text-green-600 dark:text-green-400 mt-1">
                         {(baseline.dalys - results.dalys) > 0 ? '+' : ''}{formatNumber(baseline.dalys - results.dalys)} averted
@@ -808,6 +1004,11 @@ const Dashboard: React.FC = () => {
                     <div className="text-2xl font-bold text-gray-900 dark:text-white">
                       ${formatNumber(results.totalCost || 0)}
                     </div>
+                    {results.undiscountedCost !== undefined && Math.abs(results.undiscountedCost - results.totalCost) > 0.5 && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        ${formatNumber(results.undiscountedCost)} undiscounted
+                      </div>
+                    )}
                     {baseline && (
                       <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                         vs ${formatNumber(baseline.totalCost || 0)} baseline
@@ -0,0 +1,88 @@
+import React from 'react';
+import { FinancialProtectionOutcomes } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface FinancialProtectionCardProps {
+  outcomes: FinancialProtectionOutcomes;
+  baseline?: FinancialProtectionOutcomes;
+}
+
+const levelLabels: Record<keyof FinancialProtectionOutcomes['outOfPocketByLevel'], string> = {
+  I: 'Informal / self-care',
+  F: 'Formal care entry',
+  L0: 'CHW (L0)',
+  L1: 'Primary (L1)',
+  L2: 'District (L2)',
+  L3: 'Tertiary (L3)',
+};
+
+const FinancialProtectionCard: React.FC<FinancialProtectionCardProps> = ({ outcomes, baseline }) => {
+  const casesAverted = baseline ? baseline.catastrophicCases - outcomes.catastrophicCases : undefined;
+  const spendingChange = baseline ? outcomes.totalOutOfPocket - baseline.totalOutOfPocket : undefined;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Household Financial Protection</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Out-of-pocket spending on user fees, transport and the household share of care costs, and how many episodes
+        cost a household more than it can afford (catastrophic health expenditure).
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Out-of-pocket spending</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">${formatNumber(outcomes.totalOutOfPocket)}</div>
+          {spendingChange !== undefined && Math.abs(spendingChange) > 0.5 && (
+            <div className={`text-xs mt-1 ${spendingChange < 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {spendingChange < 0 ? '↓' : '↑'} ${formatNumber(Math.abs(spendingChange))}
+            </div>
+          )}
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Per episode</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">${outcomes.outOfPocketPerEpisode.toFixed(2)}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Catastrophic cases</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(outcomes.catastrophicCases)}</div>
+          {casesAverted !== undefined && Math.abs(casesAverted) >= 0.5 && (
+            <div className={`text-xs mt-1 ${casesAverted > 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {casesAverted > 0 ? '↓' : '↑'} {formatNumber(Math.abs(casesAverted))} {casesAverted > 0 ? 'averted' : 'added'}
+            </div>
+          )}
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Share of episodes</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{(outcomes.catastrophicRate * 100).toFixed(1)}%</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Where households paid</th>
+              <th className="py-1 pr-4">Spending</th>
+              <th className="py-1 pr-4">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(levelLabels) as (keyof typeof levelLabels)[]).map(level => (
+              <tr key={level} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                <td className="py-1 pr-4">{levelLabels[level]}</td>
+                <td className="py-1 pr-4">${formatNumber(outcomes.outOfPocketByLevel[level])}</td>
+                <td className="py-1 pr-4">
+                  {outcomes.totalOutOfPocket > 0
+                    ? `${(outcomes.outOfPocketByLevel[level] / outcomes.totalOutOfPocket * 100).toFixed(1)}%`
+                    : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default FinancialProtectionCard;
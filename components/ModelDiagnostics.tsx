@@ -0,0 +1,91 @@
+import React from 'react';
+import { SimulationDiagnostics, DiagnosticIssueType } from '../models/stockAndFlowModel';
+
+interface ModelDiagnosticsProps {
+  diagnostics: SimulationDiagnostics;
+}
+
+const issueTypeLabels: Record<DiagnosticIssueType, string> = {
+  mass_balance: 'Mass balance',
+  negative_stock: 'Negative stock',
+  rate_overflow: 'Outflow rates above 1',
+};
+
+const ModelDiagnostics: React.FC<ModelDiagnosticsProps> = ({ diagnostics }) => {
+  const status = diagnostics.passed ? 'passed' : 'failed';
+  const statusClass = {
+    passed: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+    failed: 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  }[status];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Model Integrity Checks</h3>
+      <div className={`p-3 rounded-md text-sm mb-3 ${statusClass}`}>
+        {status === 'passed' && (
+          <>Every simulated week conserved patients and kept all stocks and queues non-negative.</>
+        )}
+        {status === 'failed' && (
+          <>
+            The simulation broke an invariant. Treat these results with caution until the issues below are resolved.
+            {diagnostics.issueCounts.rate_overflow > 0 && (
+              <> Outflow rates above 1 were scaled down to finish the run, so results differ from the raw parameters.</>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Weeks checked</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{diagnostics.weeksChecked}</div>
+        </div>
+        {(Object.keys(issueTypeLabels) as DiagnosticIssueType[]).map(type => {
+          const countClass = diagnostics.issueCounts[type] === 0 ? 'text-gray-800 dark:text-white' : 'text-red-600 dark:text-red-400';
+          return (
+            <div key={type} className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">{issueTypeLabels[type]}</div>
+              <div className={`text-xl font-bold ${countClass}`}>{diagnostics.issueCounts[type]}</div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Largest weekly balance error: {diagnostics.maxBalanceError.toExponential(1)} people
+        (net over the run: {diagnostics.netBalanceError.toExponential(1)})
+      </p>
+
+      {diagnostics.issues.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-4">Week</th>
+                <th className="py-1 pr-4">Check</th>
+                <th className="py-1 pr-4">Where</th>
+                <th className="py-1 pr-4">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.issues.map((issue, index) => (
+                <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                  <td className="py-1 pr-4">{issue.week < 0 ? `burn-in ${issue.week}` : issue.week + 1}</td>
+                  <td className={`py-1 pr-4 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {issueTypeLabels[issue.type]}
+                  </td>
+                  <td className="py-1 pr-4">{issue.location}</td>
+                  <td className="py-1 pr-4">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Only the first week each problem appears is listed; the counts above include every week, burn-in included.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelDiagnostics;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { NationalAggregationResults } from '../models/nationalAggregation';
+import { formatNumber, formatDecimal } from '../lib/utils';
+
+interface NationalResultsCardProps {
+  results: NationalAggregationResults;
+  countryName: string;
+}
+
+const settingLabels = { urban: 'Urban', rural: 'Rural' };
+
+// Signed difference: gaps favouring the second setting show as negative amounts
+const formatGap = (value: number): string => `${value < 0 ? '-' : ''}${formatDecimal(Math.abs(value), 1)}`;
+
+const NationalResultsCard: React.FC<NationalResultsCardProps> = ({ results, countryName }) => {
+  const { national, equity } = results;
+  const rows = [
+    ...results.settings.map(s => ({ key: s.setting, label: `${settingLabels[s.setting]} (${formatDecimal(s.populationShare * 100, 0)}%)`, outcomes: s })),
+    { key: 'national', label: 'National', outcomes: national },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">National Totals: {countryName}</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Urban and rural settings simulated with and without the selected AI tools, each for its share of the
+        population and with its own care-seeking, outcomes and AI uptake. The results above are for the setting
+        selected in the sidebar only.
+      </p>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Setting</th>
+              <th className="py-1 pr-4">Population</th>
+              <th className="py-1 pr-4">Deaths (No AI)</th>
+              <th className="py-1 pr-4">Deaths (AI)</th>
+              <th className="py-1 pr-4">Deaths Averted</th>
+              <th className="py-1 pr-4">Per 100,000</th>
+              <th className="py-1 pr-4">DALYs Averted</th>
+              <th className="py-1 pr-4">Incremental Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.key}
+                className={`border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${row.key === 'national' ? 'font-semibold' : ''}`}
+              >
+                <td className="py-1 pr-4">{row.label}</td>
+                <td className="py-1 pr-4">{formatNumber(row.outcomes.population)}</td>
+                <td className="py-1 pr-4">{formatNumber(row.outcomes.baseline.deaths)}</td>
+                <td className="py-1 pr-4">{formatNumber(row.outcomes.intervention.deaths)}</td>
+                <td className="py-1 pr-4">{formatDecimal(row.outcomes.deathsAverted, 1)}</td>
+                <td className="py-1 pr-4">{formatDecimal(row.outcomes.deathsAvertedPer100k, 1)}</td>
+                <td className="py-1 pr-4">{formatNumber(row.outcomes.dalysAverted)}</td>
+                <td className="py-1 pr-4">
+                  {row.outcomes.incrementalCost < 0 ? '-' : ''}${formatNumber(Math.abs(row.outcomes.incrementalCost))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {equity && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-700 dark:text-gray-300 mb-2">Urban–Rural Equity</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Gap in deaths averted per 100,000</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">{formatGap(equity.deathsAvertedGapPer100k)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {equity.deathsAvertedGapPer100k > 0 ? 'AI benefits urban residents more' : 'AI benefits rural residents at least as much'}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Rural excess mortality per 100,000</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">
+                {formatGap(equity.baselineMortalityGapPer100k)} → {formatGap(equity.interventionMortalityGapPer100k)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                without AI → with AI ({equity.interventionMortalityGapPer100k < equity.baselineMortalityGapPer100k ? 'gap narrows' : 'gap widens'})
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+              <div className="text-sm text-gray-500 dark:text-gray-400">Rural share of deaths averted</div>
+              <div className="text-xl font-bold text-gray-800 dark:text-white">{formatDecimal(equity.ruralShareOfDeathsAverted * 100, 0)}%</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                rural share of population {formatDecimal(equity.ruralPopulationShare * 100, 0)}%
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NationalResultsCard;
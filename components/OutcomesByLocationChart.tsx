@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { SimulationResults, OutcomeLocation, outcomeLocations } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface OutcomesByLocationChartProps {
+  results: SimulationResults;
+  baseline?: SimulationResults | null;
+}
+
+const locationLabels: Record<OutcomeLocation, string> = {
+  U: 'Untreated',
+  I: 'Informal / self-care',
+  L0: 'CHW (L0)',
+  L1: 'Primary (L1)',
+  L2: 'District (L2)',
+  L3: 'Tertiary (L3)',
+  queues: 'Waiting in queues',
+};
+
+const locationColors: Record<OutcomeLocation, string> = {
+  U: 'rgb(220, 38, 38)',
+  I: 'rgb(234, 179, 8)',
+  L0: 'rgb(34, 197, 94)',
+  L1: 'rgb(59, 130, 246)',
+  L2: 'rgb(124, 58, 237)',
+  L3: 'rgb(236, 72, 153)',
+  queues: 'rgb(107, 114, 128)',
+};
+
+const OutcomesByLocationChart: React.FC<OutcomesByLocationChartProps> = ({ results, baseline }) => {
+  const [outcome, setOutcome] = useState<'deaths' | 'resolutions'>('deaths');
+  const totals = outcome === 'deaths' ? results.deathsByLocation : results.resolutionsByLocation;
+  const baselineTotals = outcome === 'deaths' ? baseline?.deathsByLocation : baseline?.resolutionsByLocation;
+  if (!totals) return null;
+
+  // Totals per location, next to the baseline so shifts between locations are visible
+  const totalsData: ChartData<'bar'> = {
+    labels: outcomeLocations.map(location => locationLabels[location]),
+    datasets: [
+      {
+        label: 'Current scenario',
+        data: outcomeLocations.map(location => totals[location]),
+        backgroundColor: outcomeLocations.map(location => locationColors[location]),
+      },
+    ],
+  };
+  if (baselineTotals) {
+    totalsData.datasets.unshift({
+      label: 'Baseline',
+      data: outcomeLocations.map(location => baselineTotals[location]),
+      backgroundColor: 'rgba(156, 163, 175, 0.6)',
+    });
+  }
+
+  const totalsOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: !!baselineTotals,
+        position: 'bottom' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            return `${context.dataset.label}: ${formatNumber(context.parsed.y)}`;
+          }
+        }
+      }
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: outcome === 'deaths' ? 'Deaths' : 'Resolutions',
+        },
+      },
+    },
+  };
+
+  // Week-by-week stacked by location
+  const weeklyFlows = results.weeklyFlows || [];
+  const weeklyData: ChartData<'bar'> = {
+    labels: weeklyFlows.map(flows => `Week ${flows.week + 1}`),
+    datasets: outcomeLocations.map(location => ({
+      label: locationLabels[location],
+      data: weeklyFlows.map(flows => flows[outcome][location]),
+      backgroundColor: locationColors[location],
+      stack: outcome,
+    })),
+  };
+
+  const weeklyOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: outcome === 'deaths' ? 'Deaths per week' : 'Resolutions per week',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Where Outcomes Happen</h3>
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as 'deaths' | 'resolutions')}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="deaths">Deaths</option>
+          <option value="resolutions">Resolutions</option>
+        </select>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {outcome === 'deaths' ? 'Deaths' : 'Resolutions'} by the stock or queue they happened in over the simulated weeks.
+        {baselineTotals && ' Grey bars show the baseline, so you can see where AI moves them.'}
+      </p>
+      <div className="h-64 mb-6">
+        <Bar data={totalsData} options={totalsOptions} />
+      </div>
+      {weeklyFlows.length > 0 && (
+        <div className="h-64">
+          <Bar data={weeklyData} options={weeklyOptions} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutcomesByLocationChart;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  ForcibleParameter,
+  ParameterForcing,
+  forcibleParameters,
+  evaluateForcingMultiplier
+} from '../models/stockAndFlowModel';
+
+type ForcingMap = Partial<Record<ForcibleParameter, ParameterForcing>>;
+
+interface ParameterForcingEditorProps {
+  forcing?: ForcingMap;
+  onChange: (forcing: ForcingMap) => void;
+}
+
+const parameterLabels: Record<ForcibleParameter, string> = {
+  lambda: 'Incidence Rate (λ)',
+  phi0: 'Formal Care (φ₀)',
+  sigmaI: 'Transition Rate (σI)',
+  informalCareRatio: 'Stay Untreated',
+  muU: 'Untreated Recovery (μU)',
+  deltaU: 'Untreated Mortality (δU)',
+  muI: 'Informal Recovery (μI)',
+  deltaI: 'Informal Mortality (δI)',
+  mu0: 'CHW Recovery (μ₀)',
+  delta0: 'CHW Mortality (δ₀)',
+  rho0: 'CHW→Primary (ρ₀)',
+  mu1: 'Primary Recovery (μ₁)',
+  delta1: 'Primary Mortality (δ₁)',
+  rho1: 'Primary→District (ρ₁)',
+  mu2: 'District Recovery (μ₂)',
+  delta2: 'District Mortality (δ₂)',
+  rho2: 'District→Tertiary (ρ₂)',
+  mu3: 'Tertiary Recovery (μ₃)',
+  delta3: 'Tertiary Mortality (δ₃)',
+};
+
+const inputClass = 'w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white';
+
+// Default shapes when a forcing is added or its type is switched
+const defaultForcing = (type: ParameterForcing['type']): ParameterForcing =>
+  type === 'sinusoid'
+    ? { type: 'sinusoid', amplitude: 0.3, peakWeek: 26, periodWeeks: 52 }
+    : { type: 'piecewise', steps: [{ fromWeek: 0, multiplier: 1 }, { fromWeek: 10, multiplier: 0.5 }, { fromWeek: 20, multiplier: 1 }], repeatAnnually: false };
+
+// Lowest and highest multiplier over the first simulated year, shown as a quick preview
+const multiplierRange = (forcing: ParameterForcing): { min: number; max: number } => {
+  const multipliers = Array.from({ length: 52 }, (_, week) => evaluateForcingMultiplier(forcing, week));
+  return { min: Math.min(...multipliers), max: Math.max(...multipliers) };
+};
+
+const ParameterForcingEditor: React.FC<ParameterForcingEditorProps> = ({ forcing = {}, onChange }) => {
+  const activeParameters = forcibleParameters.filter(key => forcing[key]);
+  const availableParameters = forcibleParameters.filter(key => !forcing[key]);
+  const [newParameter, setNewParameter] = useState<ForcibleParameter | ''>('');
+
+  const updateForcing = (key: ForcibleParameter, value: ParameterForcing | undefined) => {
+    onChange({ ...forcing, [key]: value });
+  };
+
+  const handleAdd = () => {
+    const key = newParameter || availableParameters[0];
+    if (!key) return;
+    updateForcing(key, defaultForcing('sinusoid'));
+    setNewParameter('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Forcing multiplies a parameter&apos;s value week by week, e.g. a rainy-season malaria peak, winter pneumonia
+        peaks or a drop in formal care seeking during a strike. Week 0 is the first simulated week.
+      </p>
+
+      {activeParameters.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">All parameters are constant over time.</p>
+      )}
+
+      {activeParameters.map(key => {
+        const parameterForcing = forcing[key] as ParameterForcing;
+        const range = multiplierRange(parameterForcing);
+
+        return (
+          <div key={key} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{parameterLabels[key]}</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={parameterForcing.type}
+                  onChange={(e) => updateForcing(key, defaultForcing(e.target.value as ParameterForcing['type']))}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="sinusoid">Seasonal (sinusoid)</option>
+                  <option value="piecewise">Weekly schedule</option>
+                </select>
+                <button
+                  onClick={() => updateForcing(key, undefined)}
+                  className="text-xs text-red-600 hover:text-red-800 dark:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            {parameterForcing.type === 'sinusoid' ? (
+              <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <label className="flex flex-col gap-1">
+                  Amplitude (±)
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={parameterForcing.amplitude}
+                    onChange={(e) => updateForcing(key, { ...parameterForcing, amplitude: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Peak week
+                  <input
+                    type="number"
+                    step="1"
+                    value={parameterForcing.peakWeek}
+                    onChange={(e) => updateForcing(key, { ...parameterForcing, peakWeek: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Period (weeks)
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={parameterForcing.periodWeeks ?? 52}
+                    onChange={(e) => updateForcing(key, { ...parameterForcing, periodWeeks: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            ) : (
+              <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                <div className="grid grid-cols-3 gap-2 font-medium">
+                  <span>From week</span>
+                  <span>Multiplier</span>
+                  <span></span>
+                </div>
+                {parameterForcing.steps.map((step, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-2 items-center">
+                    <input
+                      type="number"
+                      step="1"
+                      value={step.fromWeek}
+                      onChange={(e) => {
+                        const steps = parameterForcing.steps.map((s, i) => i === index ? { ...s, fromWeek: Number(e.target.value) } : s);
+                        updateForcing(key, { ...parameterForcing, steps });
+                      }}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      step="0.05"
+                      min="0"
+                      value={step.multiplier}
+                      onChange={(e) => {
+                        const steps = parameterForcing.steps.map((s, i) => i === index ? { ...s, multiplier: Number(e.target.value) } : s);
+                        updateForcing(key, { ...parameterForcing, steps });
+                      }}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => updateForcing(key, { ...parameterForcing, steps: parameterForcing.steps.filter((_, i) => i !== index) })}
+                      className="text-left text-red-600 hover:text-red-800 dark:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between pt-1">
+                  <button
+                    onClick={() => {
+                      const lastWeek = parameterForcing.steps.length > 0
+                        ? Math.max(...parameterForcing.steps.map(s => s.fromWeek))
+                        : -4;
+                      updateForcing(key, { ...parameterForcing, steps: [...parameterForcing.steps, { fromWeek: lastWeek + 4, multiplier: 1 }] });
+                    }}
+                    className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
+                  >
+                    + Add step
+                  </button>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!parameterForcing.repeatAnnually}
+                      onChange={(e) => updateForcing(key, { ...parameterForcing, repeatAnnually: e.target.checked })}
+                    />
+                    Repeat every year
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              First-year range: ×{range.min.toFixed(2)} to ×{range.max.toFixed(2)} of the base value
+            </p>
+          </div>
+        );
+      })}
+
+      {availableParameters.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select
+            value={newParameter}
+            onChange={(e) => setNewParameter(e.target.value as ForcibleParameter)}
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">Select parameter…</option>
+            {availableParameters.map(key => (
+              <option key={key} value={key}>{parameterLabels[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!newParameter}
+            className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+          >
+            Add forcing
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterForcingEditor;
@@ -18,17 +18,29 @@ import {
   useCountrySpecificModelAtom,
   selectedCountryAtom,
   isUrbanSettingAtom,
-  customDiseaseParametersAtom
+  customDiseaseParametersAtom,
+  burnInSettingsAtom,
+  parameterValidationAtom,
+  regionsAtom
 } from '../lib/store';
 import { formatDecimal } from '../lib/utils';
+import { countryProfiles } from '../models/countrySpecificModel';
 import { 
   healthSystemStrengthDefaults,
   diseaseProfiles, 
   getDefaultParameters,
   ModelParameters,
-  AIUptakeParameters
+  AIUptakeParameters,
+  BurnInMode,
+  CostingPerspective,
+  ModelVariant,
+  TransmissionModel,
+  chronicCarePresets
 } from '../models/stockAndFlowModel';
+import { ParameterValidationIssue, parameterStageLabels } from '../models/parameterValidation';
 import InfoTooltip from './InfoTooltip';
+import ParameterForcingEditor from './ParameterForcingEditor';
+import RegionEditor from './RegionEditor';
 import { getParameterRationale } from '../data/parameter_rationales';
 
 // Reorganized parameter groupings with cleaner structure
@@ -146,13 +158,124 @@ const parameterGroups = [
     icon: '💵',
     collapsed: true,
     params: [
-      { key: 'discountRate', label: 'Discount Rate', unit: '% per year', description: 'Annual discount rate for future costs and benefits. Standard health economics values are 3-5%.' },
+      { key: 'discountRate', label: 'Discount Rate', unit: '% per year', description: 'Annual discount rate for future costs and benefits. Standard health economics values are 3-5%. Used for both unless the separate rates below are set.' },
+      { key: 'costDiscountRate', label: 'Cost Discount Rate', unit: '% per year', description: 'Annual discount rate applied week by week to costs.' },
+      { key: 'healthDiscountRate', label: 'Health Discount Rate', unit: '% per year', description: 'Annual discount rate applied week by week to DALYs. Some guidelines discount health at a lower rate than costs.' },
       { key: 'yearsOfLifeLost', label: 'Years of Life Lost', unit: 'years', description: 'Base years of life lost per death. Modified by patient age.' },
+      { key: 'patientTimePerVisit', label: 'Patient Time per Visit', unit: 'days', description: 'Societal perspective: time spent travelling and waiting for each admission, valued at GDP per capita.' },
+      { key: 'caregiverTimeShare', label: 'Caregiver Time', unit: 'per bed day', description: 'Societal perspective: caregiver days for each patient day at primary care and hospitals.' },
+      { key: 'labourForceParticipation', label: 'Labour Force Participation', unit: '%', description: 'Societal perspective: share of illness days and of working years lost to death that would have been spent working.' },
+      { key: 'retirementAge', label: 'Retirement Age', unit: 'years', description: 'Societal perspective: earnings lost to a death are counted from the mean age of infection up to this age.' },
     ],
     isHealthSystemSpecific: true,
   },
+  {
+    title: 'Financial Protection',
+    icon: '👛',
+    collapsed: true,
+    params: [
+      { key: 'userFees.L0', label: 'CHW User Fee', unit: 'USD/visit', description: 'Fee charged to households per community health worker episode.' },
+      { key: 'userFees.L1', label: 'Primary Care User Fee', unit: 'USD/visit', description: 'Fee charged to households per primary care admission.' },
+      { key: 'userFees.L2', label: 'District Hospital User Fee', unit: 'USD/visit', description: 'Fee charged to households per district hospital admission.' },
+      { key: 'userFees.L3', label: 'Tertiary Hospital User Fee', unit: 'USD/visit', description: 'Fee charged to households per tertiary hospital admission.' },
+      { key: 'costTransport', label: 'Transport Cost', unit: 'USD/visit', description: 'Household travel cost per facility admission (L1-L3). CHWs see patients in the community.' },
+      { key: 'oopShare', label: 'Out-of-Pocket Share', unit: '%', description: 'Share of formal care per-diem costs paid by households. Informal care is always paid in full.' },
+      { key: 'catastrophicThreshold', label: 'Catastrophic Threshold', unit: '%', description: 'Spending above this share of non-food household income counts as catastrophic. WHO uses 40%.' },
+      { key: 'costPerCapitaGDP', label: 'GDP per Capita', unit: 'USD/year', description: 'Annual income per person. Set from the country profile when country-specific modeling is on.' },
+      { key: 'householdSize', label: 'Household Size', unit: 'people', description: 'People sharing one household income.' },
+      { key: 'foodShare', label: 'Food Share of Income', unit: '%', description: 'Share of household income spent on food. Capacity to pay is the rest.' },
+      { key: 'incomeLogSD', label: 'Income Inequality', unit: 'log SD', description: 'Spread of household incomes around the mean (standard deviation of log income). Higher values put more households near the catastrophic threshold.' },
+    ],
+    isHealthSystemSpecific: true,
+  },
+  {
+    title: 'Chronic Care',
+    icon: '🔁',
+    collapsed: true,
+    params: [
+      { key: 'controlledShare', label: 'Stay in Care (Controlled)', unit: '%', description: 'Percentage of patients resolved at CHW, primary or hospital level who stay in ongoing care with the condition controlled (e.g. retained on ART, BP controlled). 0 together with no relapse rate keeps episodes one-off.' },
+      { key: 'decompensationRate', label: 'Decompensation Rate', unit: 'per week', description: 'Weekly probability a controlled patient loses control (missed refills, dropping out of care) and starts a new episode.' },
+      { key: 'relapseRate', label: 'Relapse Rate', unit: 'per week', description: 'Weekly probability that a patient in remission (resolved, not in ongoing care) relapses and starts a new episode.' },
+      { key: 'relapseToInformalShare', label: 'Relapses to Informal Care', unit: '%', description: 'Percentage of relapses and decompensations that go to informal care first. The rest start untreated.' },
+      { key: 'controlledCareCost', label: 'Controlled Care Cost', unit: 'USD/week', description: 'Weekly cost of keeping one patient controlled: medicines, monitoring and refill visits. In prevalence mode, the weekly treatment cost of each adherent patient.' },
+    ],
+    isDiseaseSpecific: true,
+    overridesProfile: true,
+  },
+  {
+    title: 'Prevalence Mode',
+    icon: '🩺',
+    collapsed: true,
+    params: [
+      { key: 'initialPrevalence', label: 'Prevalence', unit: '%', description: 'Percentage of the population living with the condition at the start.' },
+      { key: 'chronicIncidence', label: 'New Cases', unit: 'per year', description: 'Annual new cases per person without the condition. Replaces the incidence rate (λ) in this mode.' },
+      { key: 'diagnosedShare', label: 'In Care at Start', unit: '%', description: 'Percentage of people with the condition who are diagnosed and in care at the start.' },
+      { key: 'diagnosisRate', label: 'Diagnosis Rate', unit: 'per week', description: 'Weekly probability an undiagnosed person is diagnosed and starts care.' },
+      { key: 'visitsPerYear', label: 'Scheduled Visits', unit: 'per year', description: 'Scheduled visits per patient in care. Each visit costs one day of care at CHW or primary care level.' },
+      { key: 'l0VisitShare', label: 'Visits by CHWs', unit: '%', description: 'Percentage of scheduled visits done by community health workers. The rest are at primary care.' },
+      { key: 'adherenceLossRate', label: 'Adherence Loss', unit: 'per week', description: 'Weekly probability an adherent patient stops taking treatment as prescribed.' },
+      { key: 'adherenceRecovery', label: 'Adherence Recovery', unit: 'per visit', description: 'Chance that a scheduled visit gets a non-adherent patient back on treatment.' },
+      { key: 'lossToFollowUpRate', label: 'Loss to Follow-up', unit: 'per week', description: 'Weekly probability a patient in care stops attending.' },
+      { key: 'returnToCareRate', label: 'Return to Care', unit: 'per week', description: 'Weekly probability a patient lost to follow-up comes back to care.' },
+      { key: 'controlProbability', label: 'Controlled if Adherent', unit: '%', description: 'Percentage of adherent patients whose condition is controlled (e.g. BP below target, viral load suppressed).' },
+      { key: 'complicationRate', label: 'Complication Rate', unit: 'per week', description: 'Weekly probability of a complication (stroke, heart failure, opportunistic infection) while uncontrolled.' },
+      { key: 'controlledComplicationRR', label: 'Complication Risk if Controlled', unit: 'relative risk', description: 'Complication risk of controlled patients relative to uncontrolled ones.' },
+      { key: 'complicationWeeks', label: 'Complication Stay', unit: 'weeks', description: 'Average weeks in hospital per complication.' },
+      { key: 'complicationL3Share', label: 'Complications at Tertiary', unit: '%', description: 'Percentage of complications treated at tertiary hospitals. The rest are at district hospitals.' },
+      { key: 'complicationMortality', label: 'Complication Case Fatality', unit: '%', description: 'Percentage of complications that are fatal. These are the deaths reported in this mode.' },
+      { key: 'otherCauseMortality', label: 'Other-Cause Mortality', unit: 'per year', description: 'Annual deaths from other causes among people with the condition. Not counted as deaths from the condition.' },
+    ],
+    isDiseaseSpecific: true,
+    overridesProfile: true,
+  },
+  {
+    title: 'Transmission',
+    icon: '🦟',
+    collapsed: true,
+    params: [
+      { key: 'transmissionShare', label: 'Transmission Share', unit: '%', description: 'Percentage of incidence that comes from ongoing transmission. The rest (TB reactivation, asymptomatic malaria carriers) stays at λ whatever happens to care.' },
+      { key: 'careInfectiousness', label: 'Infectiousness in Care', unit: 'relative', description: 'Infectiousness of patients at CHW or primary care level who are not yet on effective treatment (those who will be referred on rather than resolve there), compared with untreated cases. Incidence equals λ at the infectious prevalence reached by the end of the burn-in.' },
+      { key: 'transmissionDelayWeeks', label: 'Infection to Disease', unit: 'weeks', description: 'TB: average time from infection to disease, so incidence follows infectious prevalence with this delay.' },
+      { key: 'mosquitoInfectionRate', label: 'Mosquito Infection Rate', unit: 'per week', description: 'Malaria: weekly rate at which mosquitoes are infected per unit of human infectious prevalence.' },
+      { key: 'mosquitoDeathRate', label: 'Mosquito Death Rate', unit: 'per week', description: 'Malaria: weekly probability an adult mosquito dies. Infected mosquitoes stay infectious until they die, so this sets how fast transmission responds.' },
+    ],
+    isDiseaseSpecific: true,
+    overridesProfile: true,
+  },
 ];
 
+const modelVariantLabels: Record<ModelVariant, string> = {
+  incidence: 'Episodes (incidence)',
+  prevalence: 'Chronic care (prevalence)',
+};
+
+const transmissionModelLabels: Record<TransmissionModel, string> = {
+  none: 'Off (incidence fixed at λ)',
+  tb: 'TB (person to person)',
+  malaria: 'Malaria (mosquito vector)',
+};
+
+// Sub-model choice shown at the top of a disease-specific group; the first option is the default
+const groupModelSelects: Record<string, {
+  key: 'modelVariant' | 'transmissionModel';
+  label: string;
+  description: string;
+  options: Record<string, string>;
+}> = {
+  'Prevalence Mode': {
+    key: 'modelVariant',
+    label: 'Model Variant',
+    description: 'Episodes follows each new case from onset to resolution or death. Chronic care follows the people living with the condition through scheduled visits, adherence, loss to follow-up and complications, and reports the proportion controlled.',
+    options: modelVariantLabels,
+  },
+  'Transmission': {
+    key: 'transmissionModel',
+    label: 'Transmission Model',
+    description: 'Off keeps incidence at λ. TB and malaria make incidence depend on how many people are still infectious, so faster treatment lowers future cases over multi-year runs. The burn-in runs at λ until steady state, and incidence equals λ at the infectious prevalence reached there.',
+    options: transmissionModelLabels,
+  },
+};
+
 // Component for individual parameter input
 const ParameterInput: React.FC<{
   param: any;
@@ -161,9 +284,13 @@ const ParameterInput: React.FC<{
   showPercentage?: boolean;
   disabled?: boolean;
   diseaseOverride?: string;
-}> = ({ param, value, onChange, showPercentage = false, disabled = false, diseaseOverride }) => {
+  issues?: ParameterValidationIssue[];
+}> = ({ param, value, onChange, showPercentage = false, disabled = false, diseaseOverride, issues = [] }) => {
   const displayValue = showPercentage ? (value * 100).toFixed(1) : formatDecimal(value, 4);
   const [showRationale, setShowRationale] = useState(false);
+  const borderClass = issues.some(issue => issue.severity === 'error')
+    ? 'border-red-500 dark:border-red-400'
+    : issues.length > 0 ? 'border-yellow-500 dark:border-yellow-400' : 'border-gray-300 dark:border-gray-600';
   
   // Get rationale if available
   const rationale = param.hasRationale ? getParameterRationale(param.key, diseaseOverride) : null;
@@ -190,9 +317,10 @@ const ParameterInput: React.FC<{
           type="number"
           value={displayValue}
           onChange={(e) => onChange(e.target.value)}
-          className="w-24 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          className={`w-24 px-2 py-1 text-sm border ${borderClass} rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white`}
           step={showPercentage ? "0.1" : "0.0001"}
           disabled={disabled}
+          title={issues.map(issue => issue.message).join('\n') || undefined}
         />
         <span className="text-xs text-gray-500 dark:text-gray-400 w-16">
           {param.unit}
@@ -220,6 +348,7 @@ const ParametersPanel: React.FC = () => {
   const [selectedDisease, setSelectedDisease] = useAtom(selectedDiseaseAtom);
   const [selectedDiseases] = useAtom(selectedDiseasesAtom);
   const [populationSize, setPopulationSize] = useAtom(populationSizeAtom);
+  const [burnInSettings, setBurnInSettings] = useAtom(burnInSettingsAtom);
   const [, runSimulation] = useAtom(runSimulationAtom);
   const [results] = useAtom(simulationResultsAtom);
   const [activeMultipliers, setActiveMultipliers] = useAtom(healthSystemMultipliersAtom);
@@ -231,10 +360,12 @@ const ParametersPanel: React.FC = () => {
   const [selectedCountry] = useAtom(selectedCountryAtom);
   const [isUrban] = useAtom(isUrbanSettingAtom);
   const [customDiseaseParams, setCustomDiseaseParams] = useAtom(customDiseaseParametersAtom);
+  const [parameterValidation] = useAtom(parameterValidationAtom);
+  const [regions, setRegions] = useAtom(regionsAtom);
   
   // State for collapsible sections
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(
-    new Set(parameterGroups.filter(g => g.collapsed).map(g => g.title))
+    new Set([...parameterGroups.filter(g => g.collapsed).map(g => g.title), 'Time-Varying Forcing'])
   );
   
   // Toggle section collapse
@@ -288,6 +419,9 @@ const ParametersPanel: React.FC = () => {
       let current = newParams;
       
       for (let i = 0; i < keys.length - 1; i++) {
+        if (!current[keys[i]]) {
+          current[keys[i]] = {};
+        }
         current = current[keys[i]];
       }
       
@@ -296,9 +430,9 @@ const ParametersPanel: React.FC = () => {
       const numValue = Number(value);
       
       // Handle percentage inputs
-      if (['phi0', 'informalCareRatio'].includes(lastKey)) {
+      if (['phi0', 'informalCareRatio', 'oopShare', 'catastrophicThreshold', 'foodShare', 'labourForceParticipation', 'controlledShare', 'relapseToInformalShare', 'initialPrevalence', 'diagnosedShare', 'l0VisitShare', 'controlProbability', 'complicationL3Share', 'complicationMortality', 'transmissionShare'].includes(lastKey)) {
         current[lastKey] = numValue / 100;
-      } else if (lastKey === 'discountRate') {
+      } else if (['discountRate', 'costDiscountRate', 'healthDiscountRate'].includes(lastKey)) {
         // Discount rate is entered as percentage but stored as decimal
         current[lastKey] = numValue / 100;
       } else {
@@ -336,9 +470,9 @@ const ParametersPanel: React.FC = () => {
       const numValue = Number(value);
       
       // Handle percentage inputs
-      if (['phi0', 'informalCareRatio'].includes(lastKey)) {
+      if (['phi0', 'informalCareRatio', 'oopShare', 'catastrophicThreshold', 'foodShare', 'labourForceParticipation', 'controlledShare', 'relapseToInformalShare', 'initialPrevalence', 'diagnosedShare', 'l0VisitShare', 'controlProbability', 'complicationL3Share', 'complicationMortality', 'transmissionShare'].includes(lastKey)) {
         current[lastKey] = numValue / 100;
-      } else if (lastKey === 'discountRate') {
+      } else if (['discountRate', 'costDiscountRate', 'healthDiscountRate'].includes(lastKey)) {
         // Discount rate is entered as percentage but stored as decimal
         current[lastKey] = numValue / 100;
       } else {
@@ -358,8 +492,13 @@ const ParametersPanel: React.FC = () => {
   const getValue = (path: string): number => {
     const keys = path.split('.');
     
+    // Separate cost and health discount rates fall back to the shared discount rate
+    if ((path === 'costDiscountRate' || path === 'healthDiscountRate') && baseParams[path] === undefined) {
+      return baseParams.discountRate;
+    }
+    
     // For health system specific parameters, use derived params to show actual values
-    const healthSystemSpecificParams = ['phi0', 'sigmaI', 'informalCareRatio', 'perDiemCosts'];
+    const healthSystemSpecificParams = ['phi0', 'sigmaI', 'informalCareRatio', 'perDiemCosts', 'costPerCapitaGDP'];
     const isHealthSystemSpecific = healthSystemSpecificParams.some(param => 
       path === param || path.startsWith(param + '.')
     );
@@ -377,6 +516,79 @@ const ParametersPanel: React.FC = () => {
     return Number(current) || 0;
   };
   
+  const getParamValue = (params: ModelParameters, path: string): number =>
+    Number(path.split('.').reduce<unknown>(
+      (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      params
+    )) || 0;
+  
+  // Validation issues that involve a parameter, for one disease or (shared parameters) all of them
+  const getFieldIssues = (path: string, disease?: string): ParameterValidationIssue[] =>
+    Object.entries(parameterValidation)
+      .filter(([key]) => disease === undefined || key === disease)
+      .flatMap(([, result]) => [...result.errors, ...result.warnings])
+      .filter(issue => issue.fields.includes(path));
+  
+  const validationEntries = Object.entries(parameterValidation)
+    .filter(([, result]) => result.errors.length > 0 || result.warnings.length > 0);
+  
+  // Sub-model choices are stored with the disease overrides, so they win over the disease profile
+  const renderGroupModelSelect = (groupTitle: string, disease: string, params: ModelParameters | undefined) => {
+    const select = groupModelSelects[groupTitle];
+    if (!select) return null;
+    const options = Object.keys(select.options);
+    return (
+      <div className="flex items-center justify-between py-2 px-2">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{select.label}</label>
+          <InfoTooltip content={select.description} />
+        </div>
+        <select
+          value={params?.[select.key] || options[0]}
+          onChange={(e) => setCustomDiseaseParams({
+            ...customDiseaseParams,
+            [disease]: { ...(customDiseaseParams[disease] || {}), [select.key]: e.target.value },
+          })}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          {options.map(option => (
+            <option key={option} value={option}>{select.options[option]}</option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+  
+  // Opt-in relapse and controlled care for chronic diseases, stored with the disease overrides
+  const renderChronicCarePreset = (groupTitle: string, disease: string) => {
+    const preset = chronicCarePresets[disease];
+    if (groupTitle !== 'Chronic Care' || !preset) return null;
+    const overrides = customDiseaseParams[disease] || {};
+    const presetKeys = Object.keys(preset.params) as (keyof ModelParameters)[];
+    const applied = presetKeys.some(key => overrides[key] !== undefined);
+    const withoutPreset = () => {
+      const remaining = { ...overrides };
+      presetKeys.forEach(key => { delete remaining[key]; });
+      return remaining;
+    };
+    return (
+      <div className="flex items-center justify-between py-2 px-2">
+        <span className="text-xs text-gray-600 dark:text-gray-400">
+          Relapse and controlled care are off by default, so episodes end in R.
+        </span>
+        <button
+          onClick={() => setCustomDiseaseParams({
+            ...customDiseaseParams,
+            [disease]: applied ? withoutPreset() : { ...overrides, ...preset.params },
+          })}
+          className="btn btn-secondary text-xs px-3 py-1"
+        >
+          {applied ? 'Turn off chronic care flows' : `Apply ${preset.label} preset`}
+        </button>
+      </div>
+    );
+  };
+  
   // Remove the early return for multi-disease mode to allow parameter editing
   
   return (
@@ -423,6 +635,59 @@ const ParametersPanel: React.FC = () => {
             />
           </div>
         </div>
+        
+        {/* Burn-in Setting */}
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Burn-in
+              </span>
+              <InfoTooltip content="How the model reaches its starting point. Cold start begins with no one in care, as for a new programme launch. Fixed runs a set number of weeks first. Automatic runs until the stocks stop changing, which matters for slow diseases such as TB. With transmission switched on the burn-in always runs to steady state, since incidence is measured against the endemic level." />
+            </div>
+            <select
+              value={burnInSettings.mode}
+              onChange={(e) => setBurnInSettings({ ...burnInSettings, mode: e.target.value as BurnInMode })}
+              className="w-32 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-600 dark:text-white"
+            >
+              <option value="none">Cold start</option>
+              <option value="fixed">Fixed weeks</option>
+              <option value="auto">Automatic</option>
+            </select>
+          </div>
+          {burnInSettings.mode === 'fixed' && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Weeks before week 0</span>
+              <input
+                type="number"
+                min="0"
+                step="4"
+                value={burnInSettings.weeks ?? 52}
+                onChange={(e) => setBurnInSettings({ ...burnInSettings, weeks: Math.max(0, Number(e.target.value)) })}
+                className="w-32 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-600 dark:text-white"
+              />
+            </div>
+          )}
+          {burnInSettings.mode === 'auto' && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Tolerance (relative weekly change)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={burnInSettings.tolerance ?? 0.0001}
+                onChange={(e) => setBurnInSettings({ ...burnInSettings, tolerance: Math.max(0, Number(e.target.value)) })}
+                className="w-32 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-600 dark:text-white"
+              />
+            </div>
+          )}
+          {results?.burnInWeeks !== undefined && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Last run: {results.burnInWeeks === 0 ? 'cold start' : `${results.burnInWeeks}-week burn-in`}
+              {results.burnInConverged === false && ' (stopped before reaching steady state)'}
+            </p>
+          )}
+        </div>
       </div>
       
       {/* Multi-disease mode info */}
@@ -439,6 +704,42 @@ const ParametersPanel: React.FC = () => {
         </div>
       )}
       
+      {/* Parameter checks */}
+      {validationEntries.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <h4 className="text-md font-semibold text-gray-800 dark:text-white">Parameter Checks</h4>
+            <InfoTooltip content="Parameters are checked after every step that changes them: health system defaults, disease profile, country adjustment, your overrides, health system multipliers and AI interventions. Errors are still present in the values the model runs with; warnings were clamped by a later step or are unusual but usable." />
+          </div>
+          <div className="space-y-3">
+            {validationEntries.map(([disease, result]) => (
+              <div key={disease}>
+                {isMultiDiseaseMode && (
+                  <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                    {disease.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  </h5>
+                )}
+                <ul className="space-y-1 text-sm">
+                  {[...result.errors, ...result.warnings].map((issue, index) => (
+                    <li
+                      key={index}
+                      className={issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-400'}
+                    >
+                      {issue.severity === 'error' ? 'Error' : 'Warning'}
+                      {issue.stage && ` (${parameterStageLabels[issue.stage]})`}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            When weekly outflows from a stock add up to more than 1, the model scales them down, so deaths,
+            resolutions and referrals there differ from the values entered.
+          </p>
+        </div>
+      )}
+      
       {/* Parameter Groups */}
       {parameterGroups.map((group) => {
         const isCollapsed = collapsedSections.has(group.title);
@@ -478,8 +779,10 @@ const ParametersPanel: React.FC = () => {
                         {disease.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                       </h5>
                       <div className="space-y-1">
+                        {renderGroupModelSelect(group.title, disease, individualDiseaseParams[disease])}
+                        {renderChronicCarePreset(group.title, disease)}
                         {group.params.map((param) => {
-                          const isPercentage = ['phi0', 'informalCareRatio'].includes(param.key);
+                          const isPercentage = ['phi0', 'informalCareRatio', 'controlledShare', 'relapseToInformalShare', 'initialPrevalence', 'diagnosedShare', 'l0VisitShare', 'controlProbability', 'complicationL3Share', 'complicationMortality', 'transmissionShare'].includes(param.key);
                           const diseaseParams = individualDiseaseParams[disease];
                           
                           // Get value from disease-specific parameters
@@ -507,6 +810,7 @@ const ParametersPanel: React.FC = () => {
                               onChange={(value) => handleDiseaseParamChange(disease, param.key, value)}
                               showPercentage={isPercentage}
                               disabled={false} // Enable editing
+                              issues={getFieldIssues(param.key, disease)}
                             />
                           );
                         })}
@@ -554,10 +858,26 @@ const ParametersPanel: React.FC = () => {
             
             {!isCollapsed && (
               <div className="px-4 pb-4 space-y-1">
+                {renderGroupModelSelect(group.title, selectedDisease, derivedParams)}
+                {renderChronicCarePreset(group.title, selectedDisease)}
                 {group.params.map((param) => {
-                  const isPercentage = ['phi0', 'informalCareRatio', 'discountRate'].includes(param.key);
+                  const isPercentage = ['phi0', 'informalCareRatio', 'discountRate', 'costDiscountRate', 'healthDiscountRate', 'oopShare', 'catastrophicThreshold', 'foodShare', 'labourForceParticipation', 'controlledShare', 'relapseToInformalShare', 'initialPrevalence', 'diagnosedShare', 'l0VisitShare', 'controlProbability', 'complicationL3Share', 'complicationMortality', 'transmissionShare'].includes(param.key);
                   const isSystemCongestion = param.key === 'systemCongestion';
                   
+                  // Values that the disease profile sets are edited as overrides for the selected disease
+                  if (group.overridesProfile) {
+                    return (
+                      <ParameterInput
+                        key={param.key}
+                        param={param}
+                        value={getParamValue(derivedParams, param.key)}
+                        onChange={(value) => handleDiseaseParamChange(selectedDisease, param.key, value)}
+                        showPercentage={isPercentage}
+                        issues={getFieldIssues(param.key, selectedDisease)}
+                      />
+                    );
+                  }
+                  
                   return (
                     <ParameterInput
                       key={param.key}
@@ -566,15 +886,95 @@ const ParametersPanel: React.FC = () => {
                       onChange={(value) => handleParamChange(param.key, value)}
                       showPercentage={isPercentage}
                       disabled={isSystemCongestion && userOverriddenCongestion === null}
+                      issues={getFieldIssues(param.key, isMultiDiseaseMode ? undefined : selectedDisease)}
                     />
                   );
                 })}
+                {group.title === 'Economic Analysis' && (
+                  <div className="flex items-center justify-between py-2 px-2">
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Costing Perspective</label>
+                      <InfoTooltip content="Health system counts provider and AI costs only. Societal also counts patient and caregiver time, transport, and production lost to illness and premature death, valued at GDP per capita." />
+                    </div>
+                    <select
+                      value={baseParams.costingPerspective || 'health_system'}
+                      onChange={(e) => setBaseParams({ ...baseParams, costingPerspective: e.target.value as CostingPerspective })}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="health_system">Health system</option>
+                      <option value="societal">Societal</option>
+                    </select>
+                  </div>
+                )}
+                {group.title === 'Economic Analysis' && (
+                  <label className="flex items-center gap-2 py-2 px-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={!!baseParams.halfCycleCorrection}
+                      onChange={(e) => setBaseParams({ ...baseParams, halfCycleCorrection: e.target.checked })}
+                    />
+                    Half-cycle correction
+                    <InfoTooltip content="Discount each week's costs and health outcomes from the middle of the week instead of its end." />
+                  </label>
+                )}
               </div>
             )}
           </div>
         );
       })}
       
+      {/* Seasonal and time-varying forcing */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        <button
+          onClick={() => toggleSection('Time-Varying Forcing')}
+          className="w-full px-4 py-3 flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-lg">📅</span>
+            <h4 className="text-md font-semibold text-gray-800 dark:text-white">
+              Seasonal &amp; Time-Varying Forcing
+            </h4>
+            <span className="text-xs px-2 py-1 bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300 rounded">
+              {isMultiDiseaseMode ? 'Per-disease' : 'Disease-specific'}
+            </span>
+          </div>
+          <svg
+            className={`w-5 h-5 text-gray-500 transition-transform ${collapsedSections.has('Time-Varying Forcing') ? '' : 'rotate-180'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        
+        {!collapsedSections.has('Time-Varying Forcing') && (
+          <div className="px-4 pb-4 space-y-4">
+            {isMultiDiseaseMode ? (
+              selectedDiseases.map(disease => (
+                <div key={disease} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+                  <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                    {disease.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  </h5>
+                  <ParameterForcingEditor
+                    forcing={individualDiseaseParams[disease]?.forcing}
+                    onChange={(forcing) => setCustomDiseaseParams({
+                      ...customDiseaseParams,
+                      [disease]: { ...(customDiseaseParams[disease] || {}), forcing }
+                    })}
+                  />
+                </div>
+              ))
+            ) : (
+              <ParameterForcingEditor
+                forcing={baseParams.forcing}
+                onChange={(forcing) => setBaseParams({ ...baseParams, forcing })}
+              />
+            )}
+          </div>
+        )}
+      </div>
+      
       {/* Country-Specific Multipliers */}
       {useCountrySpecific && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
@@ -620,6 +1020,47 @@ const ParametersPanel: React.FC = () => {
           )}
         </div>
       )}
+      
+      {/* Sub-national regions */}
+      {useCountrySpecific && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <button
+            onClick={() => toggleSection('Sub-national Regions')}
+            className="w-full px-4 py-3 flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <span className="text-lg">🗺️</span>
+              <h4 className="text-md font-semibold text-gray-800 dark:text-white">
+                Sub-national Regions
+              </h4>
+              <span className="text-xs px-2 py-1 bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300 rounded">
+                {(regions[selectedCountry] || []).length > 0 ? `${regions[selectedCountry].length} regions` : 'National averages'}
+              </span>
+            </div>
+            <svg
+              className={`w-5 h-5 text-gray-500 transition-transform ${collapsedSections.has('Sub-national Regions') ? '' : 'rotate-180'}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          
+          {!collapsedSections.has('Sub-national Regions') && (
+            <div className="px-4 pb-4">
+              <RegionEditor
+                regions={regions[selectedCountry] || []}
+                onChange={(countryRegions) => setRegions({ ...regions, [selectedCountry]: countryRegions })}
+                countryCode={selectedCountry}
+                countryName={countryProfiles[selectedCountry]?.country || selectedCountry}
+                population={populationSize}
+                diseases={selectedDiseases}
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import { useAtom } from 'jotai';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import {
+  selectedDiseasesAtom,
+  selectedCountryAtom,
+  isUrbanSettingAtom,
+  useCountrySpecificModelAtom,
+  populationSizeAtom,
+  portfolioBudgetAtom,
+  portfolioObjectiveAtom,
+  portfolioSettingsAtom,
+  portfolioResultsAtom,
+  runPortfolioOptimizationAtom
+} from '../lib/store';
+import { countryProfiles } from '../models/countrySpecificModel';
+import { AIInterventions } from '../models/stockAndFlowModel';
+import { PortfolioObjective, PortfolioSetting } from '../models/portfolioOptimization';
+import { formatNumber, formatDecimal } from '../lib/utils';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+const toolNames: Record<keyof AIInterventions, string> = {
+  triageAI: 'AI Health Advisor',
+  chwAI: 'CHW Decision Support',
+  diagnosticAI: 'Diagnostic AI',
+  bedManagementAI: 'Bed Management AI',
+  hospitalDecisionAI: 'Hospital Decision Support',
+  selfCareAI: 'AI Self-Care Platform',
+};
+
+const objectiveLabels: Record<PortfolioObjective, string> = {
+  dalys: 'DALYs averted',
+  deaths: 'Deaths averted',
+};
+
+const packageName = (tools: (keyof AIInterventions)[]): string =>
+  tools.length === 0 ? 'No AI' : tools.map(tool => toolNames[tool]).join(' + ');
+
+const settingLabel = (countryCode: string | null, isUrban: boolean): string =>
+  `${countryCode && countryProfiles[countryCode] ? countryProfiles[countryCode].country : 'Generic'} ${isUrban ? 'Urban' : 'Rural'}`;
+
+const PortfolioOptimizer: React.FC = () => {
+  const [selectedDiseases] = useAtom(selectedDiseasesAtom);
+  const [selectedCountry] = useAtom(selectedCountryAtom);
+  const [isUrban] = useAtom(isUrbanSettingAtom);
+  const [useCountrySpecific] = useAtom(useCountrySpecificModelAtom);
+  const [population] = useAtom(populationSizeAtom);
+  const [budget, setBudget] = useAtom(portfolioBudgetAtom);
+  const [objective, setObjective] = useAtom(portfolioObjectiveAtom);
+  const [settings, setSettings] = useAtom(portfolioSettingsAtom);
+  const [results] = useAtom(portfolioResultsAtom);
+  const [, runOptimization] = useAtom(runPortfolioOptimizationAtom);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const settingCount = Math.max(1, settings.length);
+  const simulationCount = settingCount * Math.max(1, selectedDiseases.length) * 64;
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Defer so the button state renders before the simulations start
+    setTimeout(() => {
+      runOptimization();
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const addSetting = () => {
+    const countryCode = useCountrySpecific ? selectedCountry : null;
+    setSettings([...settings, {
+      id: `setting-${Date.now()}`,
+      label: settingLabel(countryCode, isUrban),
+      countryCode,
+      isUrban,
+      population,
+    }]);
+  };
+
+  const updateSetting = (id: string, changes: Partial<PortfolioSetting>) => {
+    setSettings(settings.map(setting => {
+      if (setting.id !== id) return setting;
+      const updated = { ...setting, ...changes };
+      return { ...updated, label: settingLabel(updated.countryCode, updated.isUrban) };
+    }));
+  };
+
+  const chartData: ChartData<'scatter'> | null = results ? {
+    datasets: [
+      {
+        label: 'Efficiency frontier',
+        data: results.frontier.map(point => ({ x: point.cost, y: point.benefit })),
+        borderColor: 'rgb(79, 70, 229)',
+        backgroundColor: 'rgba(79, 70, 229, 0.5)',
+        showLine: true,
+        pointRadius: 3,
+      },
+      {
+        label: 'Chosen portfolio',
+        data: [{ x: results.chosen.cost, y: results.chosen.benefit }],
+        borderColor: 'rgb(34, 197, 94)',
+        backgroundColor: 'rgb(34, 197, 94)',
+        pointRadius: 7,
+      },
+      {
+        label: `Budget: $${formatNumber(results.budget)}`,
+        data: [
+          { x: results.budget, y: 0 },
+          { x: results.budget, y: Math.max(0, ...results.frontier.map(point => point.benefit)) },
+        ],
+        borderColor: 'rgb(220, 38, 38)',
+        backgroundColor: 'rgb(220, 38, 38)',
+        borderDash: [6, 4],
+        showLine: true,
+        pointRadius: 0,
+      },
+    ],
+  } : null;
+
+  const chartOptions: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            return `AI cost $${formatNumber(context.parsed.x)}: ${formatNumber(context.parsed.y)} ${objectiveLabels[results?.objective || objective].toLowerCase()}`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        title: {
+          display: true,
+          text: 'AI programme cost (USD)',
+        },
+      },
+      y: {
+        min: 0,
+        title: {
+          display: true,
+          text: objectiveLabels[results?.objective || objective],
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">AI Portfolio Optimizer</h3>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Simulates every combination of the six AI tools in each setting for the selected diseases, then picks one package
+        per setting that averts the most DALYs or deaths while the total AI programme cost (set-up, per-episode costs and
+        re-investment over the simulation period) stays within the budget. Set-up costs are paid once per setting.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">AI Budget (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step={50000}
+            value={budget}
+            onChange={(e) => setBudget(Math.max(0, Number(e.target.value)))}
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Maximise</label>
+          <select
+            value={objective}
+            onChange={(e) => setObjective(e.target.value as PortfolioObjective)}
+            className="input w-full"
+          >
+            {(Object.keys(objectiveLabels) as PortfolioObjective[]).map(key => (
+              <option key={key} value={key}>{objectiveLabels[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className={`btn ${isRunning ? 'bg-gray-300 cursor-not-allowed' : 'btn-primary'} px-6`}
+          >
+            {isRunning ? 'Running...' : 'Optimize Portfolio'}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Settings</h4>
+          <button onClick={addSetting} className="btn btn-secondary text-xs px-3 py-1">
+            Add current sidebar setting
+          </button>
+        </div>
+        {settings.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No settings added; the current sidebar selection ({settingLabel(useCountrySpecific ? selectedCountry : null, isUrban)},
+            population {formatNumber(population)}) is used.
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-4">Country</th>
+                <th className="py-1 pr-4">Area</th>
+                <th className="py-1 pr-4">Population</th>
+                <th className="py-1 pr-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.map(setting => (
+                <tr key={setting.id} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                  <td className="py-1 pr-4">
+                    <select
+                      value={setting.countryCode || ''}
+                      onChange={(e) => updateSetting(setting.id, { countryCode: e.target.value || null })}
+                      className="input w-full"
+                    >
+                      <option value="">Generic</option>
+                      {Object.entries(countryProfiles).map(([code, profile]) => (
+                        <option key={code} value={code}>{profile.country}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-4">
+                    <select
+                      value={setting.isUrban ? 'urban' : 'rural'}
+                      onChange={(e) => updateSetting(setting.id, { isUrban: e.target.value === 'urban' })}
+                      className="input w-full"
+                    >
+                      <option value="urban">Urban</option>
+                      <option value="rural">Rural</option>
+                    </select>
+                  </td>
+                  <td className="py-1 pr-4">
+                    <input
+                      type="number"
+                      min={1000}
+                      step={100000}
+                      value={setting.population}
+                      onChange={(e) => updateSetting(setting.id, { population: Math.max(1000, Number(e.target.value)) })}
+                      className="input w-full"
+                    />
+                  </td>
+                  <td className="py-1 pr-4">
+                    <button
+                      onClick={() => setSettings(settings.filter(s => s.id !== setting.id))}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {formatNumber(simulationCount)} simulations ({settingCount} setting{settingCount > 1 ? 's' : ''} ×{' '}
+          {Math.max(1, selectedDiseases.length)} disease{selectedDiseases.length > 1 ? 's' : ''} × 64 tool combinations).
+        </p>
+      </div>
+
+      {results && chartData && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            Chosen Portfolio: {formatNumber(results.chosen.benefit)} {objectiveLabels[results.objective].toLowerCase()} for
+            ${formatNumber(results.chosen.cost)}
+          </h4>
+
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4">Setting</th>
+                  <th className="py-1 pr-4">AI Package</th>
+                  <th className="py-1 pr-4">AI Cost</th>
+                  <th className="py-1 pr-4">Incremental Cost</th>
+                  <th className="py-1 pr-4">Deaths Averted</th>
+                  <th className="py-1 pr-4">DALYs Averted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.chosen.packages.map((pkg, index) => (
+                  <tr key={pkg.settingId} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                    <td className="py-1 pr-4">{results.settings[index]?.label}</td>
+                    <td className="py-1 pr-4">{packageName(pkg.tools)}</td>
+                    <td className="py-1 pr-4">${formatNumber(pkg.aiCost)}</td>
+                    <td className="py-1 pr-4">{pkg.incrementalCost < 0 ? '-' : ''}${formatNumber(Math.abs(pkg.incrementalCost))}</td>
+                    <td className="py-1 pr-4">{formatDecimal(pkg.deathsAverted, 1)}</td>
+                    <td className="py-1 pr-4">{formatNumber(pkg.dalysAverted)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Efficiency Frontier</h5>
+          <div className="h-80 mb-2">
+            <Scatter data={chartData} options={chartOptions} />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            Each point is a portfolio that no other portfolio beats on both AI cost and health gain. Moving right along the
+            frontier shows what each extra dollar of AI budget buys.
+          </p>
+
+          <details>
+            <summary className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+              Frontier portfolios ({results.frontier.length})
+            </summary>
+            <div className="overflow-x-auto mt-2">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-1 pr-4">AI Cost</th>
+                    <th className="py-1 pr-4">{objectiveLabels[results.objective]}</th>
+                    <th className="py-1 pr-4">Extra Cost per Extra Unit</th>
+                    <th className="py-1 pr-4">Packages</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.frontier.map(point => (
+                    <tr
+                      key={point.cost}
+                      className={`border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${point === results.chosen ? 'font-semibold' : ''}`}
+                    >
+                      <td className="py-1 pr-4">${formatNumber(point.cost)}</td>
+                      <td className="py-1 pr-4">{formatNumber(point.benefit)}</td>
+                      <td className="py-1 pr-4">{point.costPerUnit !== undefined ? `$${formatNumber(point.costPerUnit)}` : '-'}</td>
+                      <td className="py-1 pr-4">
+                        {point.packages.map((pkg, index) => (
+                          <div key={pkg.settingId}>
+                            {results.settings.length > 1 ? `${results.settings[index]?.label}: ` : ''}{packageName(pkg.tools)}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Costs are undiscounted over {results.diseases.length > 1 ? `${results.diseases.length} diseases and ` : ''}the
+            simulation period; incremental cost adds service cost changes to the AI cost (negative amounts are savings). DALYs
+            are discounted as in the ICER.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioOptimizer;
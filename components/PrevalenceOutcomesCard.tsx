@@ -0,0 +1,104 @@
+import React from 'react';
+import { PrevalenceOutcomes } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface PrevalenceOutcomesCardProps {
+  outcomes: PrevalenceOutcomes;
+  baseline?: PrevalenceOutcomes;
+}
+
+const PrevalenceOutcomesCard: React.FC<PrevalenceOutcomesCardProps> = ({ outcomes, baseline }) => {
+  const controlChange = baseline ? outcomes.proportionControlled - baseline.proportionControlled : undefined;
+  const complicationsAverted = baseline ? baseline.complications - outcomes.complications : undefined;
+  const share = (value: number) =>
+    outcomes.averagePrevalent > 0 ? `${(value / outcomes.averagePrevalent * 100).toFixed(1)}%` : '-';
+
+  const careRows = [
+    { label: 'In care', value: outcomes.averageInCare },
+    { label: 'Controlled', value: outcomes.averageControlled },
+    { label: 'Lost to follow-up', value: outcomes.averageLostToFollowUp },
+    {
+      label: 'Undiagnosed or in hospital',
+      value: Math.max(0, outcomes.averagePrevalent - outcomes.averageInCare - outcomes.averageLostToFollowUp),
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Chronic Care Cascade</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Prevalence mode follows the people living with the condition through scheduled visits, adherence and
+        loss to follow-up. Deaths reported elsewhere are fatal complications; deaths from other causes are not counted.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Proportion controlled</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{(outcomes.proportionControlled * 100).toFixed(1)}%</div>
+          {controlChange !== undefined && Math.abs(controlChange) >= 0.0005 && (
+            <div className={`text-xs mt-1 ${controlChange > 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {controlChange > 0 ? '↑' : '↓'} {Math.abs(controlChange * 100).toFixed(1)} points
+            </div>
+          )}
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {(outcomes.finalProportionControlled * 100).toFixed(1)}% in the final week
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Complications</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(outcomes.complications)}</div>
+          {complicationsAverted !== undefined && Math.abs(complicationsAverted) >= 0.5 && (
+            <div className={`text-xs mt-1 ${complicationsAverted > 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {complicationsAverted > 0 ? '↓' : '↑'} {formatNumber(Math.abs(complicationsAverted))} {complicationsAverted > 0 ? 'averted' : 'added'}
+            </div>
+          )}
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Scheduled visits</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">
+            {formatNumber(outcomes.scheduledVisits.L0 + outcomes.scheduledVisits.L1)}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {formatNumber(outcomes.scheduledVisits.L0)} by CHWs
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Treatment cost</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">${formatNumber(outcomes.treatmentCost)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">undiscounted, in total cost</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">People living with the condition (weekly average)</th>
+              <th className="py-1 pr-4">Number</th>
+              <th className="py-1 pr-4">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {careRows.map(({ label, value }) => (
+              <tr key={label} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                <td className="py-1 pr-4">{label}</td>
+                <td className="py-1 pr-4">{formatNumber(value)}</td>
+                <td className="py-1 pr-4">{share(value)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 font-semibold">
+              <td className="py-1 pr-4">All</td>
+              <td className="py-1 pr-4">{formatNumber(outcomes.averagePrevalent)}</td>
+              <td className="py-1 pr-4">100%</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Controlled patients are part of those in care. {formatNumber(outcomes.otherCauseDeaths)} deaths from other causes.
+      </p>
+    </div>
+  );
+};
+
+export default PrevalenceOutcomesCard;
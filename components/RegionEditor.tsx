@@ -0,0 +1,185 @@
+import React from 'react';
+import { Region, regionPresets } from '../models/regionalAggregation';
+import { formatNumber } from '../lib/utils';
+
+interface RegionEditorProps {
+  regions: Region[];
+  onChange: (regions: Region[]) => void;
+  countryCode: string;
+  countryName: string;
+  population: number;              // national population, used to size preset and new regions
+  diseases: string[];              // selected diseases, each with an optional incidence multiplier
+}
+
+const inputClass = 'w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white';
+
+const formatDiseaseName = (disease: string): string =>
+  disease.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const RegionEditor: React.FC<RegionEditorProps> = ({ regions, onChange, countryCode, countryName, population, diseases }) => {
+  const presets = regionPresets[countryCode];
+  const totalPopulation = regions.reduce((sum, region) => sum + region.population, 0);
+
+  const updateRegion = (id: string, changes: Partial<Region>) => {
+    onChange(regions.map(region => (region.id === id ? { ...region, ...changes } : region)));
+  };
+
+  const updateDiseaseMultiplier = (region: Region, disease: string, value: string) => {
+    const multipliers = { ...(region.diseaseIncidenceMultipliers || {}) };
+    if (value === '') {
+      delete multipliers[disease];
+    } else {
+      multipliers[disease] = Math.max(0, Number(value));
+    }
+    updateRegion(region.id, { diseaseIncidenceMultipliers: multipliers });
+  };
+
+  const addRegion = () => {
+    onChange([...regions, {
+      id: `region-${Date.now()}`,
+      name: `Region ${regions.length + 1}`,
+      population: Math.round(population / (regions.length + 1)),
+      urbanShare: 0.5,
+      incidenceMultiplier: 1,
+      facilityDensity: 1,
+    }]);
+  };
+
+  const loadPreset = () => {
+    const timestampBase = Date.now();
+    onChange(presets.map(({ populationShare, ...preset }, index) => ({
+      ...preset,
+      id: `region-${timestampBase}-${index}`,
+      population: Math.round(population * populationShare),
+    })));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Split {countryName} into regions that each run urban and rural settings with their own population and
+        urban share. Incidence is multiplied by the region&apos;s multiplier (or the disease-specific one, if set);
+        facility density scales congestion, or L1-L3 capacity when simulating from beds and workforce. Regions run
+        when national totals are switched on in the sidebar.
+      </p>
+
+      {regions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-2">Region</th>
+                <th className="py-1 pr-2">Population</th>
+                <th className="py-1 pr-2">Urban %</th>
+                <th className="py-1 pr-2">Incidence ×</th>
+                {diseases.map(disease => (
+                  <th key={disease} className="py-1 pr-2">{formatDiseaseName(disease)} ×</th>
+                ))}
+                <th className="py-1 pr-2">Facility Density ×</th>
+                <th className="py-1 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {regions.map(region => (
+                <tr key={region.id} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={region.name}
+                      onChange={(e) => updateRegion(region.id, { name: e.target.value })}
+                      className={`${inputClass} w-40`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={100000}
+                      value={region.population}
+                      onChange={(e) => updateRegion(region.id, { population: Math.max(0, Number(e.target.value)) })}
+                      className={`${inputClass} w-28`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(region.urbanShare * 100)}
+                      onChange={(e) => updateRegion(region.id, { urbanShare: Math.max(0, Math.min(100, Number(e.target.value))) / 100 })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      value={region.incidenceMultiplier}
+                      onChange={(e) => updateRegion(region.id, { incidenceMultiplier: Math.max(0, Number(e.target.value)) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  {diseases.map(disease => (
+                    <td key={disease} className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.05}
+                        value={region.diseaseIncidenceMultipliers?.[disease] ?? ''}
+                        placeholder={String(region.incidenceMultiplier)}
+                        onChange={(e) => updateDiseaseMultiplier(region, disease, e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0.1}
+                      step={0.05}
+                      value={region.facilityDensity}
+                      onChange={(e) => updateRegion(region.id, { facilityDensity: Math.max(0.1, Number(e.target.value)) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <button
+                      onClick={() => onChange(regions.filter(r => r.id !== region.id))}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Regions total {formatNumber(totalPopulation)} people
+            {totalPopulation !== population ? ` (model population ${formatNumber(population)})` : ''}.
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={addRegion} className="btn btn-secondary text-xs px-3 py-1">
+          Add region
+        </button>
+        {presets && (
+          <button onClick={loadPreset} className="btn btn-secondary text-xs px-3 py-1">
+            Load {countryName} preset ({presets.map(preset => preset.name.split(' ')[0]).join(' / ')})
+          </button>
+        )}
+        {regions.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-red-600 dark:text-red-400 hover:underline">
+            Clear regions
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionEditor;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { RegionalAggregationResults } from '../models/regionalAggregation';
+import { formatNumber, formatDecimal } from '../lib/utils';
+
+interface RegionalResultsCardProps {
+  results: RegionalAggregationResults;
+  countryName: string;
+}
+
+const RegionalResultsCard: React.FC<RegionalResultsCardProps> = ({ results, countryName }) => {
+  const { regions, national, gap } = results;
+  const regionName = (id: string) => regions.find(r => r.region.id === id)?.region.name || id;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Regional Results: {countryName}</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Each region simulated for its own urban and rural population, with incidence and facility density
+        adjusted by its multipliers. Regions add up to the national totals.
+      </p>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Region</th>
+              <th className="py-1 pr-4">Population</th>
+              <th className="py-1 pr-4">Urban</th>
+              <th className="py-1 pr-4">Deaths per 100,000 (No AI)</th>
+              <th className="py-1 pr-4">Deaths per 100,000 (AI)</th>
+              <th className="py-1 pr-4">Deaths Averted</th>
+              <th className="py-1 pr-4">Averted per 100,000</th>
+              <th className="py-1 pr-4">DALYs Averted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {regions.map(({ region, national: totals }) => (
+              <tr key={region.id} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                <td className="py-1 pr-4">{region.name}</td>
+                <td className="py-1 pr-4">{formatNumber(totals.population)}</td>
+                <td className="py-1 pr-4">{formatDecimal(region.urbanShare * 100, 0)}%</td>
+                <td className="py-1 pr-4">{formatDecimal(totals.baselineDeathsPer100k, 1)}</td>
+                <td className="py-1 pr-4">{formatDecimal(totals.interventionDeathsPer100k, 1)}</td>
+                <td className="py-1 pr-4">{formatDecimal(totals.deathsAverted, 1)}</td>
+                <td className="py-1 pr-4">{formatDecimal(totals.deathsAvertedPer100k, 1)}</td>
+                <td className="py-1 pr-4">{formatNumber(totals.dalysAverted)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 font-semibold">
+              <td className="py-1 pr-4">National</td>
+              <td className="py-1 pr-4">{formatNumber(national.national.population)}</td>
+              <td className="py-1 pr-4">
+                {formatDecimal((national.settings.find(s => s.setting === 'urban')?.populationShare || 0) * 100, 0)}%
+              </td>
+              <td className="py-1 pr-4">{formatDecimal(national.national.baselineDeathsPer100k, 1)}</td>
+              <td className="py-1 pr-4">{formatDecimal(national.national.interventionDeathsPer100k, 1)}</td>
+              <td className="py-1 pr-4">{formatDecimal(national.national.deathsAverted, 1)}</td>
+              <td className="py-1 pr-4">{formatDecimal(national.national.deathsAvertedPer100k, 1)}</td>
+              <td className="py-1 pr-4">{formatNumber(national.national.dalysAverted)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {gap && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+            <div className="text-sm text-gray-500 dark:text-gray-400">Regional mortality gap per 100,000</div>
+            <div className="text-xl font-bold text-gray-800 dark:text-white">
+              {formatDecimal(gap.baselineGapPer100k, 1)} → {formatDecimal(gap.interventionGapPer100k, 1)}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {regionName(gap.highestBurdenRegionId)} vs {regionName(gap.lowestBurdenRegionId)}, without AI → with AI
+              ({gap.interventionGapPer100k < gap.baselineGapPer100k ? 'gap narrows' : 'gap widens'})
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+            <div className="text-sm text-gray-500 dark:text-gray-400">Highest-burden region&apos;s share of deaths averted</div>
+            <div className="text-xl font-bold text-gray-800 dark:text-white">
+              {formatDecimal(national.national.deathsAverted !== 0
+                ? ((regions.find(r => r.region.id === gap.highestBurdenRegionId)?.national.deathsAverted || 0) / national.national.deathsAverted) * 100
+                : 0, 0)}%
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              share of population {formatDecimal(national.national.population > 0
+                ? ((regions.find(r => r.region.id === gap.highestBurdenRegionId)?.national.population || 0) / national.national.population) * 100
+                : 0, 0)}%
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionalResultsCard;
@@ -10,6 +10,7 @@ import {
   Scenario
 } from '../lib/store';
 import { formatNumber, calculateSuggestedFeasibility } from '../lib/utils';
+import { validateModelParameters } from '../models/parameterValidation';
 
 const ScenarioManager: React.FC = () => {
   const [scenarios, setScenarios] = useAtom(scenariosAtom);
@@ -170,8 +171,37 @@ const ScenarioManager: React.FC = () => {
           return;
         }
         
+        // Check the imported parameters before they replace the current ones
+        const validations = validScenarios.map(s => validateModelParameters(s.parameters, 'imported'));
+        const invalidCount = validations.filter(validation => !validation.valid).length;
+        let scenariosToImport = validScenarios;
+        if (invalidCount > 0) {
+          const errorLines = validScenarios.flatMap((s, index) =>
+            validations[index].errors.map(issue => `${s.name}: ${issue.message}`)
+          );
+          const importAll = window.confirm(
+            `${invalidCount} imported scenario(s) have parameter errors:\n\n${errorLines.slice(0, 10).join('\n')}` +
+            `${errorLines.length > 10 ? `\n...and ${errorLines.length - 10} more` : ''}\n\n` +
+            'Click OK to import them anyway, or Cancel to import only the scenarios without errors.'
+          );
+          if (!importAll) {
+            scenariosToImport = validScenarios.filter((_, index) => validations[index].valid);
+            if (scenariosToImport.length === 0) {
+              alert('No scenarios imported: every scenario in the file has parameter errors.');
+              if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+              }
+              return;
+            }
+          }
+        }
+        
+        const warningCount = validScenarios.reduce(
+          (sum, s, index) => sum + (scenariosToImport.includes(s) ? validations[index].warnings.length : 0), 0
+        );
+        
         const timestampBase = Date.now();
-        const updatedScenarios = validScenarios.map((s, index) => {
+        const updatedScenarios = scenariosToImport.map((s, index) => {
           const activeInterventions = Object.values(s.aiInterventions).filter(Boolean).length;
           // Use imported feasibility if present, otherwise calculate it.
           const feasibility = s.feasibility !== undefined 
@@ -199,7 +229,10 @@ const ScenarioManager: React.FC = () => {
           loadScenario(updatedScenarios[0].id);
         }
         
-        alert(`Successfully imported ${updatedScenarios.length} scenario(s).`);
+        alert(
+          `Successfully imported ${updatedScenarios.length} scenario(s).` +
+          (warningCount > 0 ? ` Parameter checks raised ${warningCount} warning(s) for unusual values.` : '')
+        );
       } catch (error) {
         console.error('Error importing scenarios:', error);
         alert('Failed to import scenarios. Please check the file format.');
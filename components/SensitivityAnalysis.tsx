@@ -8,8 +8,18 @@ import {
   sensitivityResultsAtom,
   sensitivityGridAtom,
   runSensitivityAnalysisAtom,
-  baselineResultsAtom
+  baselineResultsAtom,
+  aiInterventionsAtom,
+  psaIterationsAtom,
+  psaResultsAtom,
+  runProbabilisticSensitivityAnalysisAtom,
+  wtpThresholdsAtom,
+  simulationResultsAtom
 } from '../lib/store';
+import { PSAInterval, calculateCEAC, buildWTPRange } from '../models/probabilisticAnalysis';
+import CostEffectivenessPlane from './CostEffectivenessPlane';
+import AcceptabilityCurve from './AcceptabilityCurve';
+import ValueOfInformation from './ValueOfInformation';
 import { formatNumber, formatDecimal, formatCompactNumber } from '../lib/utils';
 
 const SensitivityAnalysis: React.FC = () => {
@@ -21,6 +31,15 @@ const SensitivityAnalysis: React.FC = () => {
   const [sensitivityGrid] = useAtom(sensitivityGridAtom);
   const [, runSensitivity] = useAtom(runSensitivityAnalysisAtom);
   const [baseline] = useAtom(baselineResultsAtom);
+  const [aiInterventions] = useAtom(aiInterventionsAtom);
+  const [psaIterations, setPsaIterations] = useAtom(psaIterationsAtom);
+  const [psaResults] = useAtom(psaResultsAtom);
+  const [, runPSA] = useAtom(runProbabilisticSensitivityAnalysisAtom);
+  const [isRunningPSA, setIsRunningPSA] = useState(false);
+  const [wtpThresholds] = useAtom(wtpThresholdsAtom);
+  const [currentResults] = useAtom(simulationResultsAtom);
+  
+  const hasActiveAI = Object.values(aiInterventions).some(Boolean);
   
   // State for heat map display options
   const [selectedMetric, setSelectedMetric] = useState<'deaths' | 'costs' | 'dalys' | 'icer'>('deaths');
@@ -34,7 +53,7 @@ const SensitivityAnalysis: React.FC = () => {
   };
   
   const handleModeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setAnalysisMode(e.target.value as '1D' | '2D');
+    setAnalysisMode(e.target.value as '1D' | '2D' | 'PSA');
   };
   
   const handleMetricChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -47,9 +66,28 @@ const SensitivityAnalysis: React.FC = () => {
     }
   };
   
-  // Clear secondary param when switching to 1D mode
+  const handleRunPSA = () => {
+    setIsRunningPSA(true);
+    // Defer so the button state renders before the (synchronous) Monte Carlo loop starts
+    setTimeout(() => {
+      runPSA();
+      setIsRunningPSA(false);
+    }, 0);
+  };
+  
+  // Format a PSA interval as "mean (lower – upper)"
+  const formatInterval = (interval: PSAInterval, prefix: string = ''): string => {
+    return `${prefix}${formatNumber(interval.mean)} (${prefix}${formatNumber(interval.lower)} – ${prefix}${formatNumber(interval.upper)})`;
+  };
+  
+  // CEAC from 0 to 3x the highest default WTP threshold
+  const maxThreshold = Math.max(...wtpThresholds.map(t => t.value));
+  const ceacPoints = psaResults ? calculateCEAC(psaResults.draws, buildWTPRange(maxThreshold * 3)) : [];
+  const thresholdProbabilities = psaResults ? calculateCEAC(psaResults.draws, wtpThresholds.map(t => t.value)) : [];
+  
+  // Clear secondary param when switching to 1D or PSA mode
   useEffect(() => {
-    if (analysisMode === '1D') {
+    if (analysisMode !== '2D') {
       setSecondaryParam(null);
     }
   }, [analysisMode, setSecondaryParam]);
@@ -118,7 +156,8 @@ const SensitivityAnalysis: React.FC = () => {
       <div className="mb-6">
         <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
           Sensitivity analysis helps you understand how changes in parameters affect the outcomes.
-          You can analyze one parameter at a time (1D) or see how two parameters interact (2D).
+          You can analyze one parameter at a time (1D), see how two parameters interact (2D), or draw all
+          parameters from uncertainty distributions at once (probabilistic) to get 95% intervals.
         </p>
         
         {/* Analysis mode selector */}
@@ -143,66 +182,110 @@ const SensitivityAnalysis: React.FC = () => {
             />
             <span className="text-sm text-gray-700 dark:text-gray-300">2D Analysis</span>
           </label>
+          <label className="flex items-center">
+            <input
+              type="radio"
+              value="PSA"
+              checked={analysisMode === 'PSA'}
+              onChange={handleModeChange}
+              className="mr-2"
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">Probabilistic (Monte Carlo)</span>
+          </label>
         </div>
         
-        <div className="flex flex-col md:flex-row gap-4 mb-4">
-          <div className="flex-1">
-            <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-              Primary Parameter
-            </label>
-            <select
-              value={selectedParam || ''}
-              onChange={handlePrimaryParamChange}
-              className="input w-full"
-            >
-              <option value="">Select a parameter...</option>
-              {sensitivityParams.map(param => (
-                <option key={param.name} value={param.name}>
-                  {param.label}
-                </option>
-              ))}
-            </select>
+        {analysisMode === 'PSA' ? (
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="flex-1">
+              <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                Number of Draws
+              </label>
+              <input
+                type="number"
+                min={10}
+                max={2000}
+                step={10}
+                value={psaIterations}
+                onChange={(e) => setPsaIterations(Math.max(10, Math.min(2000, parseInt(e.target.value) || 10)))}
+                className="input w-full"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                onClick={handleRunPSA}
+                disabled={isRunningPSA}
+                className={`btn ${isRunningPSA ? 'bg-gray-300 cursor-not-allowed' : 'btn-primary'} px-6`}
+              >
+                {isRunningPSA ? 'Running...' : 'Run PSA'}
+              </button>
+            </div>
           </div>
-          
-          {analysisMode === '2D' && (
+        ) : (
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
             <div className="flex-1">
               <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                Secondary Parameter
+                Primary Parameter
               </label>
               <select
-                value={secondaryParam || ''}
-                onChange={handleSecondaryParamChange}
+                value={selectedParam || ''}
+                onChange={handlePrimaryParamChange}
                 className="input w-full"
               >
                 <option value="">Select a parameter...</option>
-                {sensitivityParams
-                  .filter(p => p.name !== selectedParam) // Don't allow selecting the same parameter
-                  .map(param => (
-                    <option key={param.name} value={param.name}>
-                      {param.label}
-                    </option>
-                  ))
-                }
+                {sensitivityParams.map(param => (
+                  <option key={param.name} value={param.name}>
+                    {param.label}
+                  </option>
+                ))}
               </select>
             </div>
-          )}
-          
-          <div className="flex items-end">
-            <button
-              onClick={handleRunAnalysis}
-              disabled={!selectedParam || (analysisMode === '2D' && !secondaryParam) || !baseline}
-              className={`btn ${
-                !selectedParam || (analysisMode === '2D' && !secondaryParam) || !baseline
-                  ? 'bg-gray-300 cursor-not-allowed'
-                  : 'btn-primary'
-              } px-6`}
-            >
-              Run Analysis
-            </button>
+            
+            {analysisMode === '2D' && (
+              <div className="flex-1">
+                <label className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Secondary Parameter
+                </label>
+                <select
+                  value={secondaryParam || ''}
+                  onChange={handleSecondaryParamChange}
+                  className="input w-full"
+                >
+                  <option value="">Select a parameter...</option>
+                  {sensitivityParams
+                    .filter(p => p.name !== selectedParam) // Don't allow selecting the same parameter
+                    .map(param => (
+                      <option key={param.name} value={param.name}>
+                        {param.label}
+                      </option>
+                    ))
+                  }
+                </select>
+              </div>
+            )}
+            
+            <div className="flex items-end">
+              <button
+                onClick={handleRunAnalysis}
+                disabled={!selectedParam || (analysisMode === '2D' && !secondaryParam) || !baseline}
+                className={`btn ${
+                  !selectedParam || (analysisMode === '2D' && !secondaryParam) || !baseline
+                    ? 'bg-gray-300 cursor-not-allowed'
+                    : 'btn-primary'
+                } px-6`}
+              >
+                Run Analysis
+              </button>
+            </div>
           </div>
-        </div>
+        )}
         
-        {!baseline && (
+        {analysisMode === 'PSA' && !hasActiveAI && (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-md text-sm">
+            No AI interventions are active, so incremental results will be zero. Each draw compares the active AI tools against a no-AI baseline.
+          </div>
+        )}
+        
+        {analysisMode !== 'PSA' && !baseline && (
           <div className="p-3 bg-yellow-50 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-md text-sm">
             You need to set a baseline scenario first before running sensitivity analysis.
           </div>
@@ -478,6 +561,119 @@ const SensitivityAnalysis: React.FC = () => {
           </p>
         </div>
       )}
+      
+      {/* Probabilistic Analysis Results */}
+      {analysisMode === 'PSA' && psaResults && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            Probabilistic Results ({psaResults.summary.iterations} draws)
+          </h4>
+          
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Outcome
+                  </th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Mean (95% Interval)
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {[
+                  { label: 'Deaths', value: formatInterval(psaResults.summary.deaths) },
+                  { label: 'Deaths Averted', value: formatInterval(psaResults.summary.deathsAverted) },
+                  { label: 'DALYs', value: formatInterval(psaResults.summary.dalys) },
+                  { label: 'DALYs Averted', value: formatInterval(psaResults.summary.dalysAverted) },
+                  { label: 'Total Cost', value: formatInterval(psaResults.summary.cost, '$') },
+                  { label: 'Incremental Cost', value: formatInterval(psaResults.summary.incrementalCost, '$') },
+                  {
+                    label: 'ICER ($/DALY averted)',
+                    // No ordered interval when the bootstrapped mean DALYs averted cross zero
+                    value: isNaN(psaResults.summary.icer.lower)
+                      ? `$${formatNumber(psaResults.summary.icer.mean)} (interval undefined: see the CE plane and CEAC)`
+                      : formatInterval(psaResults.summary.icer, '$')
+                  },
+                ].map((row, index) => (
+                  <tr key={row.label} className={index % 2 === 0 ? 'bg-gray-50 dark:bg-gray-700' : ''}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {row.label}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                      {row.value}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Probability the AI package is dominant (saves money and averts DALYs): <strong>{formatDecimal(psaResults.summary.probabilityDominant * 100, 1)}%</strong>
+          </p>
+          
+          <ul className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {wtpThresholds.map((threshold, index) => (
+              <li key={threshold.label}>
+                Probability cost-effective at {threshold.label} (${formatNumber(threshold.value)}/DALY):{' '}
+                <strong>{formatDecimal((thresholdProbabilities[index]?.probabilityCostEffective || 0) * 100, 1)}%</strong>
+              </li>
+            ))}
+          </ul>
+          
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+            <div>
+              <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Cost-Effectiveness Plane</h5>
+              <div className="h-80">
+                <CostEffectivenessPlane
+                  draws={psaResults.draws}
+                  deterministic={currentResults && currentResults.incrementalCost !== undefined && currentResults.incrementalDalysAverted !== undefined
+                    ? { incrementalCost: currentResults.incrementalCost, dalysAverted: currentResults.incrementalDalysAverted }
+                    : undefined}
+                  thresholds={wtpThresholds}
+                />
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Each point is one draw. Points below a WTP line are cost-effective at that threshold; the lower-right
+                quadrant is dominant (cheaper and more effective).
+              </p>
+            </div>
+            <div>
+              <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Cost-Effectiveness Acceptability Curve</h5>
+              <div className="h-80">
+                <AcceptabilityCurve points={ceacPoints} thresholds={wtpThresholds} />
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Share of draws with positive net monetary benefit (WTP × DALYs averted − incremental cost).
+              </p>
+            </div>
+          </div>
+          
+          <ValueOfInformation results={psaResults} thresholds={wtpThresholds} />
+          
+          <details className="mt-4">
+            <summary className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+              Parameter distributions
+            </summary>
+            <ul className="mt-2 text-xs text-gray-600 dark:text-gray-400 grid grid-cols-1 md:grid-cols-2 gap-1">
+              {psaResults.distributions.map(dist => (
+                <li key={dist.name}>
+                  {dist.label}: {dist.distribution}, SD ±{formatDecimal(dist.relativeSD * 100, 0)}% of base value
+                </li>
+              ))}
+            </ul>
+          </details>
+          
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            Each draw samples probabilities from beta distributions, costs from gamma distributions, AI effect sizes
+            from lognormal multipliers and AI uptake from beta distributions, then runs a paired no-AI baseline and AI simulation. Intervals are the 2.5th and
+            97.5th percentiles across draws; the ICER mean is mean incremental cost divided by mean DALYs averted, and its
+            interval bootstraps that ratio over the paired cost and DALY draws.
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -21,6 +21,8 @@ import {
   baseParametersAtom,
   selectedCountryAtom,
   isUrbanSettingAtom,
+  nationalModeAtom,
+  regionsAtom,
   useCountrySpecificModelAtom,
   multiConditionModeAtom,
   multiConditionMortalityMultiplierAtom,
@@ -30,13 +32,17 @@ import {
   userOverriddenCongestionAtom,
   calculatedCongestionAtom,
   effectiveCongestionAtom,
+  useExplicitCapacityAtom,
+  capacityAssumptionsAtom,
   aiUptakeParametersAtom,
   effectMagnitudesAtom,
   aiTimeToScaleParametersAtom,
-  isGeneratingScenariosBatchAtom
+  isGeneratingScenariosBatchAtom,
+  validateParametersForInterventionsAtom
 } from '../lib/store';
 import { healthSystemStrengthDefaults, AIInterventions } from '../models/stockAndFlowModel';
-import { countryProfiles } from '../models/countrySpecificModel';
+import { countryProfiles, CapacityAssumptions } from '../models/countrySpecificModel';
+import { describeParameterIssue } from '../models/parameterValidation';
 
 const Sidebar: React.FC = () => {
   const [selectedHealthSystemStrength, setSelectedHealthSystemStrength] = useAtom(selectedHealthSystemStrengthAtom);
@@ -60,12 +66,16 @@ const Sidebar: React.FC = () => {
   // Country-specific atoms
   const [selectedCountry, setSelectedCountry] = useAtom(selectedCountryAtom);
   const [isUrban, setIsUrban] = useAtom(isUrbanSettingAtom);
+  const [nationalMode, setNationalMode] = useAtom(nationalModeAtom);
+  const [regions] = useAtom(regionsAtom);
   const [useCountrySpecific, setUseCountrySpecific] = useAtom(useCountrySpecificModelAtom);
   
   // Congestion atoms
   const [userOverriddenCongestion, setUserOverriddenCongestion] = useAtom(userOverriddenCongestionAtom);
   const [calculatedCongestion] = useAtom(calculatedCongestionAtom);
   const [effectiveCongestion] = useAtom(effectiveCongestionAtom);
+  const [useExplicitCapacity, setUseExplicitCapacity] = useAtom(useExplicitCapacityAtom);
+  const [capacityAssumptions, setCapacityAssumptions] = useAtom(capacityAssumptionsAtom);
   const [scenarioMode, setScenarioMode] = useAtom(multiDiseaseScenarioModeAtom);
   const [multiConditionMode, setMultiConditionMode] = useAtom(multiConditionModeAtom);
   const [mortalityMultiplier, setMortalityMultiplier] = useAtom(multiConditionMortalityMultiplierAtom);
@@ -75,6 +85,7 @@ const Sidebar: React.FC = () => {
   const [effectMagnitudes] = useAtom(effectMagnitudesAtom);
   const [timeToScaleParams] = useAtom(aiTimeToScaleParametersAtom);
   const [, setIsGeneratingBatch] = useAtom(isGeneratingScenariosBatchAtom);
+  const [, validateParametersForInterventions] = useAtom(validateParametersForInterventionsAtom);
   
   // Local state for disease checkboxes
   const [diseaseOptions, setDiseaseOptions] = useState<{
@@ -336,6 +347,50 @@ const Sidebar: React.FC = () => {
       return;
     }
     
+    // Define AI intervention types
+    const aiInterventionTypes: Array<{ key: keyof AIInterventions; name: string }> = [
+      { key: 'triageAI', name: 'AI Health Advisor' },
+      { key: 'chwAI', name: 'CHW Decision Support' },
+      { key: 'diagnosticAI', name: 'Diagnostic AI' },
+      { key: 'bedManagementAI', name: 'Bed Management AI' },
+      { key: 'hospitalDecisionAI', name: 'Hospital Decision Support' },
+      { key: 'selfCareAI', name: 'AI Self-Care Platform' }
+    ];
+    
+    const noAIInterventions: AIInterventions = {
+      triageAI: false,
+      chwAI: false,
+      diagnosticAI: false,
+      bedManagementAI: false,
+      hospitalDecisionAI: false,
+      selfCareAI: false
+    };
+    
+    // Check the parameters every run will use before starting; errors in the baseline are listed once,
+    // and for each tool only the errors it adds
+    const describeErrors = (interventions: AIInterventions) =>
+      Object.entries(validateParametersForInterventions(interventions)).flatMap(([disease, result]) =>
+        result.errors.map(issue =>
+          `${selectedDiseases.length > 1 ? `${disease.replace(/_/g, ' ')}: ` : ''}${describeParameterIssue(issue)}`
+        )
+      );
+    const baselineErrors = describeErrors(noAIInterventions);
+    const parameterErrors = [
+      ...baselineErrors.map(error => `All runs - ${error}`),
+      ...aiInterventionTypes.flatMap(({ key, name }) =>
+        describeErrors({ ...noAIInterventions, [key]: true })
+          .filter(error => !baselineErrors.includes(error))
+          .map(error => `${name} - ${error}`)
+      )
+    ];
+    if (parameterErrors.length > 0 && !window.confirm(
+      `Parameter checks found ${parameterErrors.length} error(s). The model scales out-of-range rates down each week, so these runs will not use the values as entered:\n\n` +
+      `${parameterErrors.slice(0, 12).join('\n')}${parameterErrors.length > 12 ? `\n...and ${parameterErrors.length - 12} more` : ''}\n\n` +
+      'Generate the scenarios anyway?'
+    )) {
+      return;
+    }
+    
     setIsGeneratingScenarios(true);
     setIsGeneratingBatch(true);
     
@@ -369,29 +424,10 @@ const Sidebar: React.FC = () => {
       // Build scenario name prefix that captures all current parameters
       const scenarioPrefix = `${countryName} ${settingLabel} - ${diseaseLabel} - ${congestionLabel}`;
       
-      // Define AI intervention types
-      const aiInterventionTypes: Array<{ key: keyof AIInterventions; name: string }> = [
-        { key: 'triageAI', name: 'AI Health Advisor' },
-        { key: 'chwAI', name: 'CHW Decision Support' },
-        { key: 'diagnosticAI', name: 'Diagnostic AI' },
-        { key: 'bedManagementAI', name: 'Bed Management AI' },
-        { key: 'hospitalDecisionAI', name: 'Hospital Decision Support' },
-        { key: 'selfCareAI', name: 'AI Self-Care Platform' }
-      ];
-      
       // Store original baseline data to help debug any issues
       console.log('🔍 Starting AI tool testing with baseline preservation');
       
       // First, create baseline scenario with no AI interventions
-      const noAIInterventions: AIInterventions = {
-        triageAI: false,
-        chwAI: false,
-        diagnosticAI: false,
-        bedManagementAI: false,
-        hospitalDecisionAI: false,
-        selfCareAI: false
-      };
-      
       setAIInterventions(noAIInterventions);
       
       // Wait a bit for state to update
@@ -488,7 +524,8 @@ const Sidebar: React.FC = () => {
       console.log(`✅ AI tool testing complete. Total scenarios now: ${scenarios.length}`);
       scenarios.forEach((s, i) => console.log(`  ${i + 1}. ${s.name} (${s.countryName || 'Generic'})`));
       
-      const successMessage = `Successfully created 7 scenarios for AI testing:\n- 1 baseline (no AI)\n- 6 individual AI tools\n\nUsing: ${selectedDiseases.length} disease(s), ${countryName} ${settingLabel}, ${congestionLabel}`;
+      const successMessage = `Successfully created 7 scenarios for AI testing:\n- 1 baseline (no AI)\n- 6 individual AI tools\n\nUsing: ${selectedDiseases.length} disease(s), ${countryName} ${settingLabel}, ${congestionLabel}` +
+        (parameterErrors.length > 0 ? `\n\nRun with ${parameterErrors.length} parameter error(s); see Parameter Checks in the Parameters panel.` : '');
       alert(successMessage);
     } catch (error) {
       console.error('Error generating AI comparison scenarios:', error);
@@ -576,6 +613,24 @@ const Sidebar: React.FC = () => {
             <span className="ml-1 text-xs text-gray-700 dark:text-gray-300">Rural</span>
           </label>
         </div>
+        <label className="flex items-center mb-2">
+          <input
+            type="checkbox"
+            checked={nationalMode}
+            onChange={(e) => setNationalMode(e.target.checked)}
+            className="mr-2"
+          />
+          <span className="text-xs text-gray-700 dark:text-gray-300">
+            {(regions[selectedCountry] || []).length > 0 ? (
+              <>National totals ({regions[selectedCountry].length} regions)</>
+            ) : (
+              <>
+                National totals (urban {Math.round((countryProfiles[selectedCountry]?.urbanPopulationPct || 0) * 100)}% + rural{' '}
+                {Math.round((countryProfiles[selectedCountry]?.ruralPopulationPct || 0) * 100)}%)
+              </>
+            )}
+          </span>
+        </label>
 
         {countryExpanded && (
           <div className="mt-2 text-xs text-gray-600 dark:text-gray-400 p-2 bg-gray-50 dark:bg-gray-700 rounded-md text-left">
@@ -705,12 +760,61 @@ const Sidebar: React.FC = () => {
             </button>
           )}
         </div>
+        <label className="flex items-center mb-2">
+          <input
+            type="checkbox"
+            checked={useExplicitCapacity}
+            onChange={(e) => setUseExplicitCapacity(e.target.checked)}
+            className="mr-2"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            Simulate from bed &amp; workforce capacity
+          </span>
+        </label>
+        {useExplicitCapacity && (
+          <div className="mb-2 text-xs text-gray-600 dark:text-gray-400 p-2 bg-blue-50 dark:bg-blue-900/20 rounded-md text-left">
+            <p>Congestion is computed each week from occupancy of L0-L3 capacity, derived from {useCountrySpecific ? `${countryProfiles[selectedCountry]?.country || selectedCountry} beds and physician density` : 'generic beds and physician density'} and scaled to population. The level below is ignored.</p>
+            {selectedDiseases.length > 1 && (
+              <p className="mt-1">Selected diseases are simulated together and compete for the same capacity, allocated by capacity share and clinical priority.</p>
+            )}
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {([
+                ['chwsPer1000', 'CHWs per 1,000', 0.1],
+                ['chwWeeklyCaseload', 'Patients per CHW / week', 1],
+                ['clinicalStaffPerPhysician', 'Clinical staff per physician', 0.5],
+                ['primaryCareStaffFraction', 'Share in primary care', 0.05],
+                ['clinicianWeeklyCaseload', 'Episodes per clinician / week', 5],
+                ['districtBedFraction', 'Share of beds at district level', 0.05],
+              ] as [keyof CapacityAssumptions, string, number][]).map(([key, label, step]) => (
+                <label key={key} className="block">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    value={capacityAssumptions[key]}
+                    onChange={(e) => {
+                      const value = Math.max(0, parseFloat(e.target.value) || 0);
+                      setCapacityAssumptions({
+                        ...capacityAssumptions,
+                        // Shares cannot exceed the whole
+                        [key]: key.endsWith('Fraction') ? Math.min(1, value) : value
+                      });
+                    }}
+                    min="0"
+                    step={step}
+                    className="input w-full"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
         <select
           value={effectiveCongestion}
           onChange={(e) => {
             const congestion = parseFloat(e.target.value);
             setUserOverriddenCongestion(congestion);
           }}
+          disabled={useExplicitCapacity}
           className="input w-full"
         >
           <option value="0">No Congestion (0%)</option>
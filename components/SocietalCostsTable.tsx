@@ -0,0 +1,70 @@
+import React from 'react';
+import { CostingPerspective, SocietalCosts } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface SocietalCostsTableProps {
+  costs: SocietalCosts;
+  baseline?: SocietalCosts;
+  perspective?: CostingPerspective;
+}
+
+const costLabels: Record<Exclude<keyof SocietalCosts, 'total'>, string> = {
+  patientTime: 'Patient travel and waiting time',
+  caregiverTime: 'Caregiver time',
+  transport: 'Transport',
+  illnessProductivity: 'Work lost while ill',
+  prematureDeath: 'Earnings lost to premature death',
+};
+
+const SocietalCostsTable: React.FC<SocietalCostsTableProps> = ({ costs, baseline, perspective }) => {
+  const rows = [
+    ...(Object.keys(costLabels) as (keyof typeof costLabels)[]).map(key => ({ key, label: costLabels[key] })),
+    { key: 'total' as const, label: 'Total societal costs' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Costs Outside the Health System</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Household time and lost production, valued at GDP per capita (undiscounted).
+        {perspective === 'societal' && ' These are included in the total cost and ICER (societal perspective).'}
+        {perspective === 'health_system' &&
+          ' They are not in the total cost; switch to the societal perspective under Economic Analysis to include them.'}
+        {perspective === undefined && ' Diseases were costed from different perspectives, so the total cost includes only part of them.'}
+        {baseline && ' The change column shows where AI shifts costs onto or away from households.'}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Cost</th>
+              <th className="py-1 pr-4">Amount</th>
+              {baseline && <th className="py-1 pr-4">Change vs baseline</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, label }) => {
+              const change = baseline ? costs[key] - baseline[key] : undefined;
+              return (
+                <tr
+                  key={key}
+                  className={`border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${key === 'total' ? 'font-semibold' : ''}`}
+                >
+                  <td className="py-1 pr-4">{label}</td>
+                  <td className="py-1 pr-4">${formatNumber(costs[key])}</td>
+                  {change !== undefined && (
+                    <td className={`py-1 pr-4 ${Math.abs(change) < 0.5 ? '' : change < 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {Math.abs(change) < 0.5 ? '-' : `${change < 0 ? '↓' : '↑'} $${formatNumber(Math.abs(change))}`}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SocietalCostsTable;
@@ -0,0 +1,88 @@
+import React from 'react';
+import {
+  TimeToResolutionDistribution,
+  ResolutionPathway,
+  resolutionPathways
+} from '../models/stockAndFlowModel';
+
+interface TimeToResolutionTableProps {
+  distribution: TimeToResolutionDistribution;
+  baseline?: TimeToResolutionDistribution;
+}
+
+const pathwayLabels: Record<ResolutionPathway, string> = {
+  untreated: 'Untreated',
+  informal: 'Informal / self-care',
+  L0: 'CHW (L0)',
+  L1: 'Primary care (L1)',
+  L2: 'District hospital (L2)',
+  L3: 'Tertiary hospital (L3)',
+};
+
+const TimeToResolutionTable: React.FC<TimeToResolutionTableProps> = ({ distribution, baseline }) => {
+  const rows: { label: string; key: ResolutionPathway | 'overall' }[] = [
+    ...resolutionPathways.map(pathway => ({ label: pathwayLabels[pathway], key: pathway })),
+    { label: 'All episodes', key: 'overall' as const },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Time to Resolution by Pathway</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Each week&apos;s new episodes are followed through the simulated flows, including queues and congestion,
+        until they resolve or die. The pathway is where the episode ended.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Pathway</th>
+              <th className="py-1 pr-4">Share</th>
+              <th className="py-1 pr-4">Mean</th>
+              <th className="py-1 pr-4">Median</th>
+              <th className="py-1 pr-4">25th-75th pct.</th>
+              <th className="py-1 pr-4">90th pct.</th>
+              <th className="py-1 pr-4">Died</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ label, key }) => {
+              const summary = key === 'overall' ? distribution.overall : distribution.byPathway[key];
+              const baselineSummary = baseline && (key === 'overall' ? baseline.overall : baseline.byPathway[key]);
+              const meanChange = baselineSummary && baselineSummary.share > 0 ? summary.mean - baselineSummary.mean : undefined;
+              if (summary.share === 0 && key !== 'overall') return null;
+              return (
+                <tr
+                  key={key}
+                  className={`border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${key === 'overall' ? 'font-semibold' : ''}`}
+                >
+                  <td className="py-1 pr-4">{label}</td>
+                  <td className="py-1 pr-4">{(summary.share * 100).toFixed(1)}%</td>
+                  <td className="py-1 pr-4">
+                    {summary.mean.toFixed(1)} wk
+                    {meanChange !== undefined && Math.abs(meanChange) >= 0.05 && (
+                      <span className={`ml-1 text-xs ${meanChange < 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {meanChange < 0 ? '↓' : '↑'}{Math.abs(meanChange).toFixed(1)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-4">{summary.median} wk</td>
+                  <td className="py-1 pr-4">{summary.p25}-{summary.p75} wk</td>
+                  <td className="py-1 pr-4">{summary.p90} wk</td>
+                  <td className="py-1 pr-4">{(summary.deathShare * 100).toFixed(1)}%</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {distribution.unresolvedShare > 0.001 && (
+        <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+          {(distribution.unresolvedShare * 100).toFixed(1)}% of episodes were still ongoing after 10 years and are not included.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimeToResolutionTable;
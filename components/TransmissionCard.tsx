@@ -0,0 +1,65 @@
+import React from 'react';
+import { TransmissionModel, TransmissionOutcomes } from '../models/stockAndFlowModel';
+import { formatNumber } from '../lib/utils';
+
+interface TransmissionCardProps {
+  outcomes: TransmissionOutcomes;
+  baseline?: TransmissionOutcomes;
+}
+
+const modelLabels: Record<TransmissionModel, string> = {
+  none: 'fixed incidence',
+  tb: 'TB',
+  malaria: 'malaria',
+};
+
+const TransmissionCard: React.FC<TransmissionCardProps> = ({ outcomes, baseline }) => {
+  const casesAverted = baseline ? baseline.newCases - outcomes.newCases : undefined;
+  const incidenceChange = outcomes.referenceCases > 0 ? outcomes.newCases / outcomes.referenceCases - 1 : 0;
+  const infectiousChange = outcomes.referenceInfectious > 0
+    ? outcomes.averageInfectious / outcomes.referenceInfectious - 1
+    : 0;
+  const signedPercent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-2">Transmission</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Incidence follows how many people are still infectious ({outcomes.models.map(model => modelLabels[model]).join(', ')}),
+        so care that treats people sooner prevents future cases. The burn-in runs at λ; the effect builds up over the
+        reported weeks, so longer runs show more of it.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">New cases</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(outcomes.newCases)}</div>
+          {casesAverted !== undefined && Math.abs(casesAverted) >= 0.5 && (
+            <div className={`text-xs mt-1 ${casesAverted > 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {casesAverted > 0 ? '↓' : '↑'} {formatNumber(Math.abs(casesAverted))} {casesAverted > 0 ? 'averted' : 'added'}
+            </div>
+          )}
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Cases at λ</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(outcomes.referenceCases)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{signedPercent(incidenceChange)} with transmission</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Infectious (average)</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{formatNumber(outcomes.averageInfectious)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {signedPercent(infectiousChange)} vs {formatNumber(outcomes.referenceInfectious)} at λ
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-md">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Incidence at end</div>
+          <div className="text-xl font-bold text-gray-800 dark:text-white">{(outcomes.finalIncidenceMultiplier * 100).toFixed(1)}%</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">of λ</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransmissionCard;
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { useAtom } from 'jotai';
+import {
+  aiInterventionsAtom,
+  voiDecisionYearsAtom,
+  voiAffectedPopulationAtom,
+  WTPThreshold
+} from '../lib/store';
+import { PSAResults } from '../models/probabilisticAnalysis';
+import { buildVOIGroups, runValueOfInformationAnalysis, calculateVOIScale } from '../models/valueOfInformation';
+import { formatNumber, formatDecimal } from '../lib/utils';
+
+interface ValueOfInformationProps {
+  results: PSAResults;
+  thresholds: WTPThreshold[];
+}
+
+const ValueOfInformation: React.FC<ValueOfInformationProps> = ({ results, thresholds }) => {
+  const [aiInterventions] = useAtom(aiInterventionsAtom);
+  const [decisionYears, setDecisionYears] = useAtom(voiDecisionYearsAtom);
+  const [affectedPopulation, setAffectedPopulation] = useAtom(voiAffectedPopulationAtom);
+  const [thresholdIndex, setThresholdIndex] = useState(thresholds.length - 1);
+
+  const wtp = thresholds[thresholdIndex]?.value ?? thresholds[thresholds.length - 1]?.value ?? 0;
+  const voi = useMemo(
+    () => runValueOfInformationAnalysis(results.draws, wtp, buildVOIGroups(aiInterventions)),
+    [results, wtp, aiInterventions]
+  );
+
+  const modelledPopulation = results.config.population;
+  const scale = calculateVOIScale(modelledPopulation, results.config.numWeeks, affectedPopulation ?? modelledPopulation, decisionYears);
+  const groups = [...voi.groups].filter(g => g.parameters.length > 0).sort((a, b) => b.evppi - a.evppi);
+
+  return (
+    <div className="mt-6">
+      <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Value of Information</h5>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Willingness to pay</label>
+          <select
+            value={thresholdIndex}
+            onChange={(e) => setThresholdIndex(parseInt(e.target.value))}
+            className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {thresholds.map((threshold, index) => (
+              <option key={threshold.label} value={index}>
+                {threshold.label} (${formatNumber(threshold.value)}/DALY)
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Years the scale-up decision covers</label>
+          <input
+            type="number"
+            min="1"
+            max="30"
+            value={decisionYears}
+            onChange={(e) => setDecisionYears(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Population affected by the decision</label>
+          <input
+            type="number"
+            min="0"
+            step="10000"
+            value={affectedPopulation ?? modelledPopulation}
+            onChange={(e) => setAffectedPopulation(e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Expected value of perfect information (EVPI): <strong>${formatNumber(voi.evpi * scale)}</strong>
+        {' '}(${formatNumber(voi.evpi)} for the modelled population over {results.config.numWeeks} weeks).
+        The AI package has the higher net monetary benefit in {formatDecimal(voi.probabilityAIOptimal * 100, 1)}% of draws.
+      </p>
+
+      <div className="overflow-x-auto mt-3">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                Parameter Group
+              </th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                Study That Would Resolve It
+              </th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                EVPPI
+              </th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                Share of EVPI
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {groups.map((result, index) => (
+              <tr key={result.group.id} className={index % 2 === 0 ? 'bg-gray-50 dark:bg-gray-700' : ''}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                  {result.group.label}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                  {result.group.study}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500 dark:text-gray-300">
+                  ${formatNumber(result.evppi * scale)}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500 dark:text-gray-300">
+                  {voi.evpi > 0 ? `${formatDecimal((result.evppi / voi.evpi) * 100, 0)}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        EVPI is the most it is worth paying to remove all uncertainty before deciding on scale-up; EVPPI is the same for one
+        group of parameters. A study is worth funding when its cost is below the EVPPI of the parameters it measures.
+        Values are undiscounted, scaled from the modelled population and period, and estimated by regressing each draw&apos;s
+        net monetary benefit on the group&apos;s sampled values, so runs with few draws give rough estimates.
+      </p>
+    </div>
+  );
+};
+
+export default ValueOfInformation;
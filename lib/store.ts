@@ -1,4 +1,4 @@
-import { atom } from 'jotai';
+import { atom, Getter } from 'jotai';
 import {
   ModelParameters,
   SimulationResults,
@@ -6,20 +6,90 @@ import {
   getDefaultParameters,
   applyAIInterventions,
   runSimulation,
+  runCoupledSimulation,
+  combineDiagnostics,
+  combineWeeklyFlows,
+  combineFinancialProtection,
+  combineChronicCare,
+  combineTransmission,
+  combineAIHarms,
+  combinePrevalenceOutcomes,
+  outcomeLocations,
+  OutcomeLocation,
+  SocietalCosts,
+  CostingPerspective,
   calculateICER,
   healthSystemStrengthDefaults,
   diseaseProfiles,
   AIUptakeParameters,
-  defaultAIUptakeParameters
+  defaultAIUptakeParameters,
+  AIErrorParameters,
+  suggestedAIErrorParameters,
+  LevelCapacity,
+  AIAdoptionCurve,
+  AIRolloutSettings,
+  AIEffectTrajectory,
+  defaultAIEffectTrajectories,
+  createAIRolloutSchedule,
+  resolveAIRolloutSettings,
+  BurnInSettings
 } from '../models/stockAndFlowModel';
 import {
   CountrySpecificParameters,
   countryProfiles,
   adjustParametersForCountry,
   HealthSystemLoad,
-  createAdditiveHealthSystemParameters
+  createAdditiveHealthSystemParameters,
+  calculateLevelCapacity,
+  CapacityAssumptions,
+  defaultCapacityAssumptions,
+  genericCapacityDensity
 } from '../models/countrySpecificModel';
-import { calculateSuggestedFeasibility, formatNumber, calculateDefaultCongestion } from './utils';
+import {
+  PSAResults,
+  PSAParameterDistribution,
+  runProbabilisticSensitivityAnalysis,
+  defaultPSADistributions
+} from '../models/probabilisticAnalysis';
+import {
+  BudgetImpactResults,
+  BudgetPayerSettings,
+  runBudgetImpactAnalysis,
+  defaultBudgetPayerSettings
+} from '../models/budgetImpact';
+import {
+  CalibrationTarget,
+  CalibrationParameterSetting,
+  CalibrationResults,
+  defaultCalibrationParameters,
+  runCalibration
+} from '../models/calibration';
+import {
+  ParameterStage,
+  ParameterStageSnapshot,
+  ParameterValidationResult,
+  validateParameterStages,
+  validateBurnIn
+} from '../models/parameterValidation';
+import {
+  PortfolioObjective,
+  PortfolioSetting,
+  PortfolioResults,
+  runPortfolioOptimization
+} from '../models/portfolioOptimization';
+import {
+  NationalAggregationResults,
+  NationalSettingInputs,
+  runNationalAggregation
+} from '../models/nationalAggregation';
+import {
+  Region,
+  RegionalAggregationResults,
+  regionIncidenceMultiplier,
+  regionCongestion,
+  runRegionalAggregation
+} from '../models/regionalAggregation';
+import { calculateSuggestedFeasibility, formatNumber, calculateDefaultCongestion, timeToScaleScoreToWeeks } from './utils';
 
 // Helper function to generate country-specific baseline key
 const getCountryBaselineKey = (countryCode: string, isUrban: boolean): string => {
@@ -48,6 +118,8 @@ export const selectedDiseasesAtom = atom<string[]>(['childhood_pneumonia']);
 // Country-specific settings
 export const selectedCountryAtom = atom<string>('nigeria');
 export const isUrbanSettingAtom = atom<boolean>(true);
+// National mode: also run urban and rural settings and weight them by the country's population shares
+export const nationalModeAtom = atom<boolean>(false);
 export const useCountrySpecificModelAtom = atom<boolean>(true);
 
 // Multi-condition scenario settings
@@ -109,9 +181,70 @@ export const effectiveCongestionAtom = atom<number>((get) => {
   return userOverride !== null ? userOverride : calculated;
 });
 
+// Explicit capacity mode: derive L0-L3 capacity from beds and workforce density so that
+// congestion is produced by the simulation instead of taken from the congestion setting
+export const useExplicitCapacityAtom = atom<boolean>(false);
+
+// Caseloads, staffing and bed split used to turn that density into capacity
+export const capacityAssumptionsAtom = atom<CapacityAssumptions>(defaultCapacityAssumptions);
+
+// Absolute L0-L3 capacity available to one disease, scaled by its share of the health system
+export const getLevelCapacityForDisease = (
+  params: ModelParameters,
+  useCountrySpecific: boolean,
+  countryCode: string,
+  population: number,
+  assumptions: CapacityAssumptions,
+  capacityShare?: number,
+  densityMultiplier: number = 1 // sub-national regions with more or fewer beds and clinicians per person
+): LevelCapacity => {
+  const density = (useCountrySpecific ? countryProfiles[countryCode] : undefined) || genericCapacityDensity;
+  return calculateLevelCapacity(
+    {
+      hospitalBedsPer1000: density.hospitalBedsPer1000 * densityMultiplier,
+      physicianDensityPer1000: density.physicianDensityPer1000 * densityMultiplier,
+    },
+    population,
+    capacityShare ?? (params.capacityShare || 0.1),
+    assumptions
+  );
+};
+
+// Add per-disease deaths or resolutions by location for multi-disease totals
+const sumOutcomesByLocation = (
+  byDisease: (Record<OutcomeLocation, number> | undefined)[]
+): Record<OutcomeLocation, number> => {
+  const totals = {} as Record<OutcomeLocation, number>;
+  outcomeLocations.forEach(location => {
+    totals[location] = byDisease.reduce((sum, outcomes) => sum + (outcomes?.[location] || 0), 0);
+  });
+  return totals;
+};
+
+// Add per-disease societal costs for multi-disease totals
+const sumSocietalCosts = (byDisease: (SocietalCosts | undefined)[]): SocietalCosts => {
+  const totals: SocietalCosts = {
+    patientTime: 0, caregiverTime: 0, illnessProductivity: 0, prematureDeath: 0, transport: 0, total: 0,
+  };
+  byDisease.forEach(costs => {
+    if (!costs) return;
+    (Object.keys(totals) as (keyof SocietalCosts)[]).forEach(key => {
+      totals[key] += costs[key];
+    });
+  });
+  return totals;
+};
+
+// Perspective of multi-disease totals; undefined when diseases were costed from different perspectives
+const combineCostingPerspective = (byDisease: (CostingPerspective | undefined)[]): CostingPerspective | undefined => {
+  const perspectives = new Set(byDisease.map(perspective => perspective ?? 'health_system'));
+  return perspectives.size === 1 ? Array.from(perspectives)[0] : undefined;
+};
+
 // Population settings
 export const populationSizeAtom = atom<number>(1000000);
 export const simulationWeeksAtom = atom<number>(52);
+export const burnInSettingsAtom = atom<BurnInSettings>({ mode: 'fixed', weeks: 52 });
 
 // Model parameters with default values
 export const baseParametersAtom = atom<ModelParameters>(getDefaultParameters());
@@ -182,10 +315,14 @@ export const getDerivedParamsForDisease = (
   countryCode?: string,
   isUrban?: boolean,
   aiUptakeParams?: AIUptakeParameters,
-  customDiseaseOverrides?: Record<string, Partial<ModelParameters>>
+  customDiseaseOverrides?: Record<string, Partial<ModelParameters>>,
+  aiRolloutSettings?: AIRolloutSettings,
+  aiErrorParams?: AIErrorParameters,
+  onStage?: (stage: ParameterStage, params: ModelParameters) => void // records each step for validateParameterStages
 ): ModelParameters => {
   // Start with base parameters
   let params = { ...baseParams };
+  onStage?.('base', { ...params });
 
   // Get health system scenario defaults (needed for both paths)
   const healthSystemScenario = healthSystemStrength && healthSystemStrengthDefaults[healthSystemStrength as keyof typeof healthSystemStrengthDefaults];
@@ -206,15 +343,18 @@ export const getDerivedParamsForDisease = (
           ...directScenarioParams 
         } = healthSystemScenario;
         params = { ...params, ...directScenarioParams };
+        onStage?.('health_system', { ...params });
       }
       
       // THEN apply disease profile before country adjustments
       const diseaseProfile = disease && diseaseProfiles[disease as keyof typeof diseaseProfiles];
       if (diseaseProfile) {
         params = { ...params, ...diseaseProfile };
+        onStage?.('disease_profile', { ...params });
       }
       console.log(`Before country adjustment - phi0: ${params.phi0}`);
       params = adjustParametersForCountry(params, countryCode, isUrban, disease);
+      onStage?.('country', { ...params });
       console.log(`After country adjustment - phi0: ${params.phi0}`);
     } catch (error) {
       console.warn(`Failed to apply country-specific parameters: ${error}`);
@@ -235,6 +375,7 @@ export const getDerivedParamsForDisease = (
         ...directScenarioParams 
       } = healthSystemScenario;
       params = { ...params, ...directScenarioParams };
+      onStage?.('health_system', { ...params });
     }
 
     // Get disease profile
@@ -243,6 +384,7 @@ export const getDerivedParamsForDisease = (
     // Apply disease profile if available
     if (diseaseProfile) {
       params = { ...params, ...diseaseProfile };
+      onStage?.('disease_profile', { ...params });
     }
   }
   
@@ -265,6 +407,7 @@ export const getDerivedParamsForDisease = (
         }
       }
     });
+    onStage?.('custom_overrides', { ...params });
   }
   
   // Apply health system strength multipliers to disease-specific rates
@@ -285,6 +428,7 @@ export const getDerivedParamsForDisease = (
     params.rho0 *= activeMultipliers.rho_multiplier_L0;
     params.rho1 *= activeMultipliers.rho_multiplier_L1;
     params.rho2 *= activeMultipliers.rho_multiplier_L2;
+    onStage?.('health_system_multipliers', { ...params });
 
     // Ensure probabilities do not exceed 1 or go below 0 after multiplication
     const probabilityParamKeys = [
@@ -306,7 +450,20 @@ export const getDerivedParamsForDisease = (
   }
 
   // Apply AI interventions with disease-specific effects
-  const finalParams = applyAIInterventions(params, aiInterventions, effectMagnitudes, aiCostParams, undefined, disease, aiUptakeParams, isUrban);
+  const finalParams = applyAIInterventions(
+    params, aiInterventions, effectMagnitudes, aiCostParams, undefined, disease, aiUptakeParams, isUrban, aiErrorParams,
+    onStage && (aiParams => onStage('ai_interventions', aiParams))
+  );
+  onStage?.('final', finalParams);
+  
+  // Ramp AI effects up over the simulated weeks when a rollout is configured, or launch them at week 0
+  // under transmission (always reset so a schedule carried over in baseParams never outlives its settings)
+  const rolloutSettings = resolveAIRolloutSettings(params, aiRolloutSettings);
+  finalParams.aiRollout = rolloutSettings && Object.values(aiInterventions).some(active => active)
+    ? createAIRolloutSchedule(
+        { ...params, aiRollout: undefined }, aiInterventions, rolloutSettings, effectMagnitudes, aiCostParams, undefined, disease, aiUptakeParams, isUrban, aiErrorParams
+      )
+    : undefined;
   
   // Debug logging for phi0
   console.log(`Final parameters for ${disease}:`, {
@@ -354,7 +511,9 @@ export const individualDiseaseParametersAtom = atom<Record<string, ModelParamete
         countryCode,
         isUrban,
         aiUptakeParams,
-        customDiseaseOverrides
+        customDiseaseOverrides,
+        get(aiRolloutSettingsAtom),
+        get(aiErrorParametersAtom)
       );
     });
     
@@ -409,7 +568,8 @@ export const derivedParametersAtom = atom(
         undefined,
         'health_system_total', // Use a special disease identifier for total system
         aiUptakeParams,
-        isUrban
+        isUrban,
+        get(aiErrorParametersAtom)
       );
       
       console.log("derivedParametersAtom: Aggregated lambda =", finalParams.lambda, "from diseases:", selectedDiseases.map(d => {
@@ -422,9 +582,24 @@ export const derivedParametersAtom = atom(
       
       console.log('Multi-disease mode - applying congestion:', effectiveCongestion);
       
+      // Explicit capacity: the aggregate uses the combined capacity share of all selected diseases
+      const levelCapacity = get(useExplicitCapacityAtom)
+        ? getLevelCapacityForDisease(
+            finalParams,
+            useCountrySpecific,
+            countryCode,
+            population,
+            get(capacityAssumptionsAtom),
+            Math.min(1, selectedDiseases.reduce((sum, d) => sum + (diseaseParamsMap[d]?.capacityShare || 0.1), 0))
+          )
+        : undefined;
+      
       return {
         ...finalParams,
-        systemCongestion: effectiveCongestion
+        systemCongestion: effectiveCongestion,
+        levelCapacity,
+        // Rollout schedules are per disease; the template copied into the aggregate does not apply to it
+        aiRollout: undefined
       };
     } else {
       // Single disease mode - return parameters for the selected disease
@@ -439,7 +614,10 @@ export const derivedParametersAtom = atom(
         useCountrySpecific,
         countryCode,
         isUrban,
-        aiUptakeParams
+        aiUptakeParams,
+        get(customDiseaseParametersAtom),
+        get(aiRolloutSettingsAtom),
+        get(aiErrorParametersAtom)
       );
       
       // Apply dynamic congestion
@@ -447,14 +625,62 @@ export const derivedParametersAtom = atom(
       
       console.log('Single disease mode - applying congestion:', effectiveCongestion);
       
+      const levelCapacity = get(useExplicitCapacityAtom)
+        ? getLevelCapacityForDisease(singleDiseaseParams, useCountrySpecific, countryCode, population, get(capacityAssumptionsAtom))
+        : undefined;
+      
       return {
         ...singleDiseaseParams,
-        systemCongestion: effectiveCongestion
+        systemCongestion: effectiveCongestion,
+        levelCapacity
       };
     }
   }
 );
 
+// Check each selected disease's parameters at every step from base values to the ones the model runs with
+const validateDiseaseParameters = (get: Getter, aiInterventions: AIInterventions): Record<string, ParameterValidationResult> => {
+  const selectedDiseases = get(selectedDiseasesAtom);
+  const diseases = selectedDiseases.length > 1 ? selectedDiseases : [get(selectedDiseaseAtom)];
+  
+  const validation: Record<string, ParameterValidationResult> = {};
+  diseases.forEach(disease => {
+    const stages: ParameterStageSnapshot[] = [];
+    getDerivedParamsForDisease(
+      get(baseParametersAtom),
+      get(selectedHealthSystemStrengthAtom),
+      disease,
+      aiInterventions,
+      get(effectMagnitudesAtom),
+      get(healthSystemMultipliersAtom),
+      get(aiCostParametersAtom),
+      get(useCountrySpecificModelAtom),
+      get(selectedCountryAtom),
+      get(isUrbanSettingAtom),
+      get(aiUptakeParametersAtom),
+      get(customDiseaseParametersAtom),
+      get(aiRolloutSettingsAtom),
+      get(aiErrorParametersAtom),
+      (stage, params) => stages.push({ stage, params })
+    );
+    const result = validateParameterStages(stages);
+    const runWarnings = validateBurnIn(stages[stages.length - 1].params, get(burnInSettingsAtom));
+    validation[disease] = { ...result, warnings: [...result.warnings, ...runWarnings] };
+  });
+  return validation;
+};
+
+// Parameter validation for the current settings, per disease
+export const parameterValidationAtom = atom<Record<string, ParameterValidationResult>>((get) =>
+  validateDiseaseParameters(get, get(aiInterventionsAtom))
+);
+
+// Validate the parameters a run with other AI interventions would use (batch scenario generation)
+export const validateParametersForInterventionsAtom = atom(
+  null,
+  (get, _set, aiInterventions: AIInterventions) => validateDiseaseParameters(get, aiInterventions)
+);
+
 // AI intervention toggles
 export const aiInterventionsAtom = atom<AIInterventions>({
   triageAI: false,
@@ -506,9 +732,41 @@ export const aiTimeToScaleParametersAtom = atom<AITimeToScaleParameters>({
   selfCareAI: 0.75       // 3-6 months
 });
 
+// AI rollout: ramp each tool's effect up over the simulation instead of full uptake from week 0
+export const aiRolloutEnabledAtom = atom<boolean>(false);
+export const aiAdoptionCurveAtom = atom<AIAdoptionCurve>('logistic');
+
+// AI effect trajectories: effects fade with engagement and skills after launch once switched on
+export const aiEffectDecayEnabledAtom = atom<boolean>(false);
+export const aiEffectTrajectoriesAtom = atom<Record<keyof AIInterventions, AIEffectTrajectory>>(defaultAIEffectTrajectories);
+
+// Rollout settings passed to the model, with time-to-scale scores converted to weeks.
+// Effect trajectories alone also need a schedule; tools then launch at full uptake in week 0.
+export const aiRolloutSettingsAtom = atom<AIRolloutSettings | undefined>((get) => {
+  const rolloutEnabled = get(aiRolloutEnabledAtom);
+  const effectTrajectories = get(aiEffectDecayEnabledAtom) ? get(aiEffectTrajectoriesAtom) : undefined;
+  if (!rolloutEnabled && !effectTrajectories) return undefined;
+  
+  const weeksToScale: AIRolloutSettings['weeksToScale'] = {};
+  if (rolloutEnabled) {
+    const timeToScaleParams = get(aiTimeToScaleParametersAtom);
+    (Object.keys(timeToScaleParams) as (keyof AITimeToScaleParameters)[]).forEach(tool => {
+      weeksToScale[tool] = timeToScaleScoreToWeeks(timeToScaleParams[tool]);
+    });
+  }
+  
+  return { curve: get(aiAdoptionCurveAtom), weeksToScale, effectTrajectories };
+});
+
 // AI uptake parameters atom with defaults
 export const aiUptakeParametersAtom = atom<AIUptakeParameters>(defaultAIUptakeParameters);
 
+// AI error rates (misrouting by triage, diagnostic and self-care AI)
+export const aiErrorParametersAtom = atom<AIErrorParameters>(suggestedAIErrorParameters);
+
+// Rerun each simulation with error-free AI to count the deaths and DALYs errors cause (doubles run time)
+export const attributeAIHarmsAtom = atom<boolean>(false);
+
 // AI intervention effect magnitudes
 export const effectMagnitudesAtom = atom<{[key: string]: number}>({});
 
@@ -546,7 +804,7 @@ export const runSimulationAtom = atom(
       const aiUptakeParams = get(aiUptakeParametersAtom);
       const baseline = get(baselineResultsAtom);
       
-      console.log("  Running separate simulations for", selectedDiseases.length, "diseases then summing outcomes");
+      console.log("  Running simulations for", selectedDiseases.length, "diseases then summing outcomes");
       
       // Run separate simulation for each disease
       const diseaseResults: Record<string, SimulationResults> = {};
@@ -572,19 +830,46 @@ export const runSimulationAtom = atom(
           countryCode,
           isUrban,
           aiUptakeParams,
-          customDiseaseOverrides
+          customDiseaseOverrides,
+          get(aiRolloutSettingsAtom),
+          get(aiErrorParametersAtom)
         );
         
         // Apply the system-wide congestion to each disease simulation
         diseaseParams.systemCongestion = aggregatedParams.systemCongestion;
         
         diseaseParamsMap[disease] = diseaseParams;
+      });
+      
+      // With explicit capacity the diseases share one pool of beds and workforce, so they are
+      // simulated together; otherwise each disease runs on its own with the system-wide congestion.
+      // Diseases in prevalence mode always run on their own.
+      const sharedCapacity = aggregatedParams.levelCapacity;
+      const coupledDiseaseParams = Object.fromEntries(
+        Object.entries(diseaseParamsMap).filter(([, params]) => params.modelVariant !== 'prevalence')
+      );
+      const coupledResults = sharedCapacity && Object.keys(coupledDiseaseParams).length > 0
+        ? runCoupledSimulation(coupledDiseaseParams, {
+            numWeeks: weeks,
+            population,
+            sharedCapacity,
+            burnIn: get(burnInSettingsAtom),
+            attributeAIHarms: get(attributeAIHarmsAtom),
+          })
+        : null;
+      
+      selectedDiseases.forEach(disease => {
+        const diseaseParams = diseaseParamsMap[disease];
         
         // Run simulation for this disease
-        const diseaseResult = runSimulation(diseaseParams, {
-          numWeeks: weeks,
-          population,
-        });
+        const diseaseResult = coupledResults && coupledResults.diseaseResults[disease]
+          ? coupledResults.diseaseResults[disease]
+          : runSimulation(diseaseParams, {
+              numWeeks: weeks,
+              population,
+              burnIn: get(burnInSettingsAtom),
+              attributeAIHarms: get(attributeAIHarmsAtom),
+            });
         
         diseaseResults[disease] = diseaseResult;
         console.log(`  ${disease}: ${diseaseResult.cumulativeDeaths} deaths (${(diseaseResult.cumulativeDeaths/population*100).toFixed(2)}%), ${diseaseResult.dalys.toFixed(0)} DALYs, $${diseaseResult.totalCost.toFixed(0)} cost`);
@@ -598,6 +883,8 @@ export const runSimulationAtom = atom(
         cumulativeResolved: Object.values(diseaseResults).reduce((sum, result) => sum + result.cumulativeResolved, 0),
         totalCost: Object.values(diseaseResults).reduce((sum, result) => sum + result.totalCost, 0),
         dalys: Object.values(diseaseResults).reduce((sum, result) => sum + result.dalys, 0),
+        undiscountedCost: Object.values(diseaseResults).reduce((sum, result) => sum + (result.undiscountedCost ?? result.totalCost), 0),
+        undiscountedDalys: Object.values(diseaseResults).reduce((sum, result) => sum + (result.undiscountedDalys ?? result.dalys), 0),
         averageTimeToResolution: Object.values(diseaseResults).reduce((sum, result, _, arr) => 
           sum + (result.averageTimeToResolution / arr.length), 0), // Average of averages
         // Aggregate queue metrics if present
@@ -605,6 +892,24 @@ export const runSimulationAtom = atom(
           sum + (result.totalQueuedPatients || 0), 0),
         queueRelatedDeaths: Object.values(diseaseResults).reduce((sum, result) => 
           sum + (result.queueRelatedDeaths || 0), 0),
+        burnInWeeks: Math.max(0, ...Object.values(diseaseResults).map(result => result.burnInWeeks || 0)),
+        burnInConverged: Object.values(diseaseResults).some(result => result.burnInConverged === false) ? false
+          : Object.values(diseaseResults).some(result => result.burnInConverged) ? true : undefined,
+        weeklyFlows: combineWeeklyFlows(
+          Object.values(diseaseResults).map(result => result.weeklyFlows || [])
+        ),
+        deathsByLocation: sumOutcomesByLocation(Object.values(diseaseResults).map(result => result.deathsByLocation)),
+        resolutionsByLocation: sumOutcomesByLocation(Object.values(diseaseResults).map(result => result.resolutionsByLocation)),
+        financialProtection: combineFinancialProtection(Object.values(diseaseResults).map(result => result.financialProtection)),
+        chronicCare: combineChronicCare(Object.values(diseaseResults).map(result => result.chronicCare)),
+        prevalenceOutcomes: combinePrevalenceOutcomes(Object.values(diseaseResults).map(result => result.prevalenceOutcomes)),
+        transmission: combineTransmission(Object.values(diseaseResults).map(result => result.transmission)),
+        aiHarms: combineAIHarms(Object.values(diseaseResults).map(result => result.aiHarms)),
+        costingPerspective: combineCostingPerspective(Object.values(diseaseResults).map(result => result.costingPerspective)),
+        societalCosts: sumSocietalCosts(Object.values(diseaseResults).map(result => result.societalCosts)),
+        diagnostics: combineDiagnostics(
+          Object.fromEntries(Object.entries(diseaseResults).map(([disease, result]) => [disease, result.diagnostics]))
+        ),
       };
       
       // Use the weekly states from the first disease as a template (for UI compatibility)
@@ -612,6 +917,14 @@ export const runSimulationAtom = atom(
         aggregatedResults.weeklyStates = Object.values(diseaseResults)[0].weeklyStates;
       }
       
+      // Coupled runs have real system-wide states and shared-pool capacity metrics
+      if (coupledResults) {
+        aggregatedResults.weeklyStates = coupledResults.combinedWeeklyStates;
+        aggregatedResults.capacityUtilization = coupledResults.capacityUtilization;
+        aggregatedResults.simulatedCongestion = coupledResults.simulatedCongestion;
+        aggregatedResults.capacityAccess = coupledResults.capacityAccess;
+      }
+      
       console.log(`  TOTAL AGGREGATED: ${aggregatedResults.cumulativeDeaths} deaths, ${aggregatedResults.dalys.toFixed(0)} DALYs, $${aggregatedResults.totalCost.toFixed(0)} cost`);
       
       // Calculate ICER if we have a baseline
@@ -656,6 +969,8 @@ export const runSimulationAtom = atom(
       const results = runSimulation(params, {
         numWeeks: weeks,
         population,
+        burnIn: get(burnInSettingsAtom),
+        attributeAIHarms: get(attributeAIHarmsAtom),
       });
       
       // Calculate ICER if we have a baseline
@@ -697,6 +1012,14 @@ export const runSimulationAtom = atom(
       
       console.log("  Single-disease simulation complete for:", disease);
     }
+    
+    // National mode adds population-weighted urban and rural totals alongside the selected setting
+    if (get(nationalModeAtom)) {
+      set(runNationalAggregationAtom);
+    } else {
+      set(nationalResultsAtom, null);
+      set(regionalResultsAtom, null);
+    }
   }
 );
 
@@ -1807,8 +2130,8 @@ export const sensitivityParametersAtom = atom<SensitivityParameter[]>([
 export const selectedSensitivityParamAtom = atom<string | null>(null);
 export const selectedSecondaryParamAtom = atom<string | null>(null);
 
-// Sensitivity analysis mode (1D or 2D)
-export const sensitivityAnalysisModeAtom = atom<'1D' | '2D'>('1D');
+// Sensitivity analysis mode (1D, 2D or probabilistic)
+export const sensitivityAnalysisModeAtom = atom<'1D' | '2D' | 'PSA'>('1D');
 
 // Sensitivity analysis results
 export interface SensitivityResult {
@@ -1911,11 +2234,12 @@ export const runSensitivityAnalysisAtom = atom(
         
         const aiUptakeParams = get(aiUptakeParametersAtom);
         const isUrban = get(isUrbanSettingAtom);
-        const modifiedParamsWithAI = applyAIInterventions(modifiedParams, aiInterventions, effectMagnitudes, aiCostParams, undefined, undefined, aiUptakeParams, isUrban);
+        const modifiedParamsWithAI = applyAIInterventions(modifiedParams, aiInterventions, effectMagnitudes, aiCostParams, undefined, undefined, aiUptakeParams, isUrban, get(aiErrorParametersAtom));
         
         const simResult = runSimulation(modifiedParamsWithAI, {
           numWeeks: weeks,
           population,
+          burnIn: get(burnInSettingsAtom),
         });
         
         const result: SensitivityResult = {
@@ -2045,12 +2369,13 @@ export const runSensitivityAnalysisAtom = atom(
           }
           const aiUptakeParams = get(aiUptakeParametersAtom);
         const isUrban = get(isUrbanSettingAtom);
-        const modifiedParamsWithAI = applyAIInterventions(modifiedParams, aiInterventions, effectMagnitudes, aiCostParams, undefined, undefined, aiUptakeParams, isUrban);
+        const modifiedParamsWithAI = applyAIInterventions(modifiedParams, aiInterventions, effectMagnitudes, aiCostParams, undefined, undefined, aiUptakeParams, isUrban, get(aiErrorParametersAtom));
           
           // Run simulation with modified parameters
           const simResult = runSimulation(modifiedParamsWithAI, {
             numWeeks: weeks,
             population,
+            burnIn: get(burnInSettingsAtom),
           });
           
           // Store results
@@ -2098,6 +2423,454 @@ export const runSensitivityAnalysisAtom = atom(
   }
 );
 
+// Probabilistic sensitivity analysis (Monte Carlo over parameter distributions)
+export const psaIterationsAtom = atom<number>(200);
+export const psaDistributionsAtom = atom<PSAParameterDistribution[]>(defaultPSADistributions);
+export const psaResultsAtom = atom<PSAResults | null>(null);
+
+// Willingness-to-pay thresholds for the cost-effectiveness plane and CEAC
+export interface WTPThreshold {
+  label: string;
+  value: number; // USD per DALY averted
+}
+
+// Reference GDP per capita for the generic (non-country) model, roughly the low-income average
+const GENERIC_GDP_PER_CAPITA_USD = 1000;
+
+// Default thresholds at 0.5x and 1x GDP per capita of the selected country
+export const wtpThresholdsAtom = atom<WTPThreshold[]>((get) => {
+  const useCountrySpecific = get(useCountrySpecificModelAtom);
+  const countryProfile = useCountrySpecific ? countryProfiles[get(selectedCountryAtom)] : undefined;
+  const gdpPerCapita = countryProfile ? countryProfile.gdpPerCapitaUSD : GENERIC_GDP_PER_CAPITA_USD;
+  const source = countryProfile ? countryProfile.country : 'generic';
+  
+  return [
+    { label: `0.5× GDP per capita (${source})`, value: gdpPerCapita * 0.5 },
+    { label: `1× GDP per capita (${source})`, value: gdpPerCapita },
+  ];
+});
+
+// Run PSA for the primary disease with paired baseline/intervention draws
+export const runProbabilisticSensitivityAnalysisAtom = atom(
+  null,
+  (get, set) => {
+    const selectedDiseases = get(selectedDiseasesAtom);
+    // In multi-disease mode selectedDiseaseAtom holds the synthetic total, so use the first selected disease
+    const disease = selectedDiseases[0] || get(selectedDiseaseAtom);
+    const isUrban = get(isUrbanSettingAtom);
+    const aiCostParams = get(aiCostParametersAtom);
+    const aiUptakeParams = get(aiUptakeParametersAtom);
+    
+    const noAIInterventions: AIInterventions = {
+      triageAI: false,
+      chwAI: false,
+      diagnosticAI: false,
+      bedManagementAI: false,
+      hospitalDecisionAI: false,
+      selfCareAI: false
+    };
+    
+    // Derive parameters without AI so each draw can run its own baseline
+    const preAIParams = getDerivedParamsForDisease(
+      get(baseParametersAtom),
+      get(selectedHealthSystemStrengthAtom),
+      disease,
+      noAIInterventions,
+      {},
+      get(healthSystemMultipliersAtom),
+      aiCostParams,
+      get(useCountrySpecificModelAtom),
+      get(selectedCountryAtom),
+      isUrban,
+      aiUptakeParams,
+      get(customDiseaseParametersAtom)
+    );
+    
+    console.log(`Running PSA for ${disease} with ${get(psaIterationsAtom)} iterations`);
+    
+    const levelCapacity = get(useExplicitCapacityAtom)
+      ? getLevelCapacityForDisease(preAIParams, get(useCountrySpecificModelAtom), get(selectedCountryAtom), get(populationSizeAtom), get(capacityAssumptionsAtom))
+      : undefined;
+    
+    const results = runProbabilisticSensitivityAnalysis(
+      {
+        baseParams: { ...preAIParams, systemCongestion: get(effectiveCongestionAtom), levelCapacity },
+        interventions: get(aiInterventionsAtom),
+        effectMagnitudes: get(effectMagnitudesAtom),
+        costParams: aiCostParams,
+        uptakeParams: aiUptakeParams,
+        errorParams: get(aiErrorParametersAtom),
+        disease,
+        isUrban,
+        rolloutSettings: get(aiRolloutSettingsAtom)
+      },
+      {
+        iterations: get(psaIterationsAtom),
+        numWeeks: get(simulationWeeksAtom),
+        population: get(populationSizeAtom),
+        burnIn: get(burnInSettingsAtom)
+      },
+      get(psaDistributionsAtom)
+    );
+    
+    set(psaResultsAtom, results);
+  }
+);
+
+// Value of information from the PSA draws, scaled to the population and years the scale-up decision covers
+export const voiDecisionYearsAtom = atom<number>(5);
+export const voiAffectedPopulationAtom = atom<number | null>(null); // null = the modelled population
+
+// Budget impact analysis: year-by-year budget needs of the AI scenario against no AI, by payer
+export const budgetImpactYearsAtom = atom<number>(5);
+export const budgetMaintenanceShareAtom = atom<number>(0.15);
+export const budgetPayerSettingsAtom = atom<BudgetPayerSettings>(defaultBudgetPayerSettings);
+export const budgetImpactResultsAtom = atom<BudgetImpactResults | null>(null);
+
+// Run the budget impact analysis for every selected disease with paired no-AI and AI runs
+export const runBudgetImpactAnalysisAtom = atom(
+  null,
+  (get, set) => {
+    const selectedDiseases = get(selectedDiseasesAtom);
+    const diseases = selectedDiseases.length > 0 ? selectedDiseases : [get(selectedDiseaseAtom)];
+    const aiCostParams = get(aiCostParametersAtom);
+    const aiUptakeParams = get(aiUptakeParametersAtom);
+    const interventions = get(aiInterventionsAtom);
+    const useCountrySpecific = get(useCountrySpecificModelAtom);
+    const countryCode = get(selectedCountryAtom);
+    const population = get(populationSizeAtom);
+    const congestion = get(effectiveCongestionAtom);
+    
+    const noAIInterventions: AIInterventions = {
+      triageAI: false,
+      chwAI: false,
+      diagnosticAI: false,
+      bedManagementAI: false,
+      hospitalDecisionAI: false,
+      selfCareAI: false
+    };
+    
+    const deriveParams = (disease: string, aiInterventions: AIInterventions) => getDerivedParamsForDisease(
+      get(baseParametersAtom),
+      get(selectedHealthSystemStrengthAtom),
+      disease,
+      aiInterventions,
+      get(effectMagnitudesAtom),
+      get(healthSystemMultipliersAtom),
+      aiCostParams,
+      useCountrySpecific,
+      countryCode,
+      get(isUrbanSettingAtom),
+      aiUptakeParams,
+      get(customDiseaseParametersAtom),
+      get(aiRolloutSettingsAtom),
+      get(aiErrorParametersAtom)
+    );
+    
+    console.log(`Running budget impact for ${diseases.join(', ')} over ${get(budgetImpactYearsAtom)} years`);
+    
+    const results = runBudgetImpactAnalysis(
+      {
+        diseases: diseases.map(disease => {
+          const baselineParams = deriveParams(disease, noAIInterventions);
+          const levelCapacity = get(useExplicitCapacityAtom)
+            ? getLevelCapacityForDisease(baselineParams, useCountrySpecific, countryCode, population, get(capacityAssumptionsAtom))
+            : undefined;
+          return {
+            disease,
+            baselineParams: { ...baselineParams, systemCongestion: congestion, levelCapacity },
+            interventionParams: { ...deriveParams(disease, interventions), systemCongestion: congestion, levelCapacity },
+          };
+        }),
+        interventions,
+        costParams: aiCostParams,
+      },
+      {
+        years: get(budgetImpactYearsAtom),
+        population,
+        burnIn: get(burnInSettingsAtom),
+        maintenanceShare: get(budgetMaintenanceShareAtom),
+        payerSettings: get(budgetPayerSettingsAtom),
+      }
+    );
+    
+    set(budgetImpactResultsAtom, results);
+  }
+);
+
+// AI portfolio optimisation: the best tool package per setting within one AI budget
+export const portfolioBudgetAtom = atom<number>(1000000);
+export const portfolioObjectiveAtom = atom<PortfolioObjective>('dalys');
+export const portfolioSettingsAtom = atom<PortfolioSetting[]>([]); // empty = the current sidebar selection
+export const portfolioResultsAtom = atom<PortfolioResults | null>(null);
+
+// Run every tool combination in each setting for the selected diseases, then choose within the budget
+export const runPortfolioOptimizationAtom = atom(
+  null,
+  (get, set) => {
+    const selectedDiseases = get(selectedDiseasesAtom);
+    const diseases = selectedDiseases.length > 0 ? selectedDiseases : [get(selectedDiseaseAtom)];
+    const useCountrySpecific = get(useCountrySpecificModelAtom);
+    const countryCode = get(selectedCountryAtom);
+    const isUrban = get(isUrbanSettingAtom);
+    const congestion = get(effectiveCongestionAtom);
+    
+    const settings = get(portfolioSettingsAtom).length > 0 ? get(portfolioSettingsAtom) : [{
+      id: 'current',
+      label: `${useCountrySpecific && countryProfiles[countryCode] ? countryProfiles[countryCode].country : 'Generic'} ${isUrban ? 'Urban' : 'Rural'}`,
+      countryCode: useCountrySpecific ? countryCode : null,
+      isUrban,
+      population: get(populationSizeAtom)
+    }];
+    
+    const deriveParams = (setting: PortfolioSetting, disease: string, aiInterventions: AIInterventions) => {
+      const params = getDerivedParamsForDisease(
+        get(baseParametersAtom),
+        get(selectedHealthSystemStrengthAtom),
+        disease,
+        aiInterventions,
+        get(effectMagnitudesAtom),
+        get(healthSystemMultipliersAtom),
+        get(aiCostParametersAtom),
+        setting.countryCode !== null,
+        setting.countryCode || countryCode,
+        setting.isUrban,
+        get(aiUptakeParametersAtom),
+        get(customDiseaseParametersAtom),
+        get(aiRolloutSettingsAtom),
+        get(aiErrorParametersAtom)
+      );
+      const levelCapacity = get(useExplicitCapacityAtom)
+        ? getLevelCapacityForDisease(params, setting.countryCode !== null, setting.countryCode || countryCode, setting.population, get(capacityAssumptionsAtom))
+        : undefined;
+      return { ...params, systemCongestion: congestion, levelCapacity };
+    };
+    
+    console.log(`Optimising AI portfolio for ${settings.length} setting(s) and ${diseases.join(', ')}`);
+    
+    const results = runPortfolioOptimization(
+      {
+        settings,
+        diseases,
+        deriveParams,
+        costParams: get(aiCostParametersAtom),
+      },
+      {
+        budget: get(portfolioBudgetAtom),
+        objective: get(portfolioObjectiveAtom),
+        numWeeks: get(simulationWeeksAtom),
+        burnIn: get(burnInSettingsAtom),
+      }
+    );
+    
+    set(portfolioResultsAtom, results);
+  }
+);
+
+// National totals from urban and rural runs, filled after each simulation while national mode is on
+export const nationalResultsAtom = atom<NationalAggregationResults | null>(null);
+
+// Sub-national regions by country code; with regions defined, national mode runs each region
+export const regionsAtom = atom<Record<string, Region[]>>({});
+export const regionalResultsAtom = atom<RegionalAggregationResults | null>(null);
+
+// Paired no-AI and AI runs in each setting (and region) for every selected disease
+export const runNationalAggregationAtom = atom(
+  null,
+  (get, set) => {
+    const countryCode = get(selectedCountryAtom);
+    const countryProfile = countryProfiles[countryCode];
+    if (!get(useCountrySpecificModelAtom) || !countryProfile) {
+      set(nationalResultsAtom, null);
+      set(regionalResultsAtom, null);
+      return;
+    }
+    
+    const selectedDiseases = get(selectedDiseasesAtom);
+    const diseases = selectedDiseases.length > 0 ? selectedDiseases : [get(selectedDiseaseAtom)];
+    const population = get(populationSizeAtom);
+    const congestion = get(effectiveCongestionAtom);
+    const interventions = get(aiInterventionsAtom);
+    const regions = get(regionsAtom)[countryCode] || [];
+    const config = { numWeeks: get(simulationWeeksAtom), burnIn: get(burnInSettingsAtom) };
+    
+    const noAIInterventions: AIInterventions = {
+      triageAI: false,
+      chwAI: false,
+      diagnosticAI: false,
+      bedManagementAI: false,
+      hospitalDecisionAI: false,
+      selfCareAI: false
+    };
+    
+    // Regions scale incidence, congestion and capacity; without one the national averages apply
+    const deriveParams = (
+      disease: string,
+      isUrban: boolean,
+      settingPopulation: number,
+      aiInterventions: AIInterventions,
+      region?: Region
+    ) => {
+      const params = getDerivedParamsForDisease(
+        get(baseParametersAtom),
+        get(selectedHealthSystemStrengthAtom),
+        disease,
+        aiInterventions,
+        get(effectMagnitudesAtom),
+        get(healthSystemMultipliersAtom),
+        get(aiCostParametersAtom),
+        true,
+        countryCode,
+        isUrban,
+        get(aiUptakeParametersAtom),
+        get(customDiseaseParametersAtom),
+        get(aiRolloutSettingsAtom),
+        get(aiErrorParametersAtom)
+      );
+      const levelCapacity = get(useExplicitCapacityAtom)
+        ? getLevelCapacityForDisease(params, true, countryCode, settingPopulation, get(capacityAssumptionsAtom), undefined, region?.facilityDensity)
+        : undefined;
+      return {
+        ...params,
+        lambda: params.lambda * (region ? regionIncidenceMultiplier(region, disease) : 1),
+        systemCongestion: region ? regionCongestion(congestion, region, disease) : congestion,
+        levelCapacity
+      };
+    };
+    
+    const settingInputs = (urbanShare: number, ruralShare: number, settingPopulation: number, region?: Region): NationalSettingInputs[] =>
+      [
+        { setting: 'urban' as const, populationShare: urbanShare },
+        { setting: 'rural' as const, populationShare: ruralShare },
+      ].map(({ setting, populationShare }) => ({
+        setting,
+        populationShare,
+        baselineParams: Object.fromEntries(diseases.map(disease => [
+          disease,
+          deriveParams(disease, setting === 'urban', settingPopulation * populationShare, noAIInterventions, region)
+        ])),
+        interventionParams: Object.fromEntries(diseases.map(disease => [
+          disease,
+          deriveParams(disease, setting === 'urban', settingPopulation * populationShare, interventions, region)
+        ])),
+      }));
+    
+    if (regions.length > 0) {
+      console.log(`Running regional aggregation for ${countryProfile.country}: ${regions.map(r => r.name).join(', ')}`);
+      const results = runRegionalAggregation(
+        regions.map(region => ({ region, settings: settingInputs(region.urbanShare, 1 - region.urbanShare, region.population, region) })),
+        config
+      );
+      set(regionalResultsAtom, results);
+      set(nationalResultsAtom, results.national);
+      return;
+    }
+    
+    console.log(`Running national aggregation for ${countryProfile.country}: ${diseases.join(', ')}`);
+    set(regionalResultsAtom, null);
+    set(nationalResultsAtom, runNationalAggregation(
+      settingInputs(countryProfile.urbanPopulationPct, countryProfile.ruralPopulationPct, population),
+      { ...config, population }
+    ));
+  }
+);
+
+// Calibration of the no-AI baseline to routine (HMIS) data for the primary disease
+export const calibrationTargetsAtom = atom<CalibrationTarget[]>([]);
+export const calibrationParametersAtom = atom<CalibrationParameterSetting[]>(defaultCalibrationParameters);
+export const calibrationMaxEvaluationsAtom = atom<number>(300);
+export const calibrationResultsAtom = atom<CalibrationResults | null>(null);
+
+export const runCalibrationAtom = atom(
+  null,
+  (get, set) => {
+    const selectedDiseases = get(selectedDiseasesAtom);
+    const disease = selectedDiseases[0] || get(selectedDiseaseAtom);
+    const useCountrySpecific = get(useCountrySpecificModelAtom);
+    const countryCode = get(selectedCountryAtom);
+    const population = get(populationSizeAtom);
+    const customDiseaseOverrides = get(customDiseaseParametersAtom);
+    
+    const noAIInterventions: AIInterventions = {
+      triageAI: false,
+      chwAI: false,
+      diagnosticAI: false,
+      bedManagementAI: false,
+      hospitalDecisionAI: false,
+      selfCareAI: false
+    };
+    
+    // Candidates are tried as disease overrides, so health system multipliers still apply on top of
+    // them and applying the result reproduces the fitted run exactly
+    const deriveParams = (values: Partial<ModelParameters>, onStage?: (stage: ParameterStage, params: ModelParameters) => void) => {
+      const params = getDerivedParamsForDisease(
+        get(baseParametersAtom),
+        get(selectedHealthSystemStrengthAtom),
+        disease,
+        noAIInterventions,
+        {},
+        get(healthSystemMultipliersAtom),
+        get(aiCostParametersAtom),
+        useCountrySpecific,
+        countryCode,
+        get(isUrbanSettingAtom),
+        get(aiUptakeParametersAtom),
+        { ...customDiseaseOverrides, [disease]: { ...customDiseaseOverrides[disease], ...values } },
+        undefined,
+        undefined,
+        onStage
+      );
+      const levelCapacity = get(useExplicitCapacityAtom)
+        ? getLevelCapacityForDisease(params, useCountrySpecific, countryCode, population, get(capacityAssumptionsAtom))
+        : undefined;
+      return { ...params, systemCongestion: get(effectiveCongestionAtom), levelCapacity };
+    };
+    
+    // Start from the values as they stand before the health system multipliers
+    let overrideStageParams = get(baseParametersAtom);
+    deriveParams({}, (stage, params) => {
+      if (stage !== 'health_system_multipliers' && stage !== 'ai_interventions' && stage !== 'final') {
+        overrideStageParams = params;
+      }
+    });
+    const parameters = get(calibrationParametersAtom);
+    
+    console.log(`Calibrating ${parameters.map(p => p.key).join(', ')} for ${disease} to ${get(calibrationTargetsAtom).length} targets`);
+    
+    const results = runCalibration(
+      {
+        parameters,
+        initialValues: Object.fromEntries(parameters.map(({ key }) => [key, overrideStageParams[key]])),
+        deriveParams: values => deriveParams(values),
+        targets: get(calibrationTargetsAtom),
+        disease
+      },
+      {
+        numWeeks: 52,
+        population,
+        burnIn: get(burnInSettingsAtom),
+        maxEvaluations: get(calibrationMaxEvaluationsAtom)
+      }
+    );
+    
+    set(calibrationResultsAtom, results);
+  }
+);
+
+// Keep the fitted values as overrides for the calibrated disease
+export const applyCalibrationAtom = atom(
+  null,
+  (get, set) => {
+    const results = get(calibrationResultsAtom);
+    if (!results?.disease) return;
+    const overrides = get(customDiseaseParametersAtom);
+    set(customDiseaseParametersAtom, {
+      ...overrides,
+      [results.disease]: { ...overrides[results.disease], ...results.values }
+    });
+  }
+);
+
 // Run multi-disease simulations - kept for API consistency but no longer used directly
 export const runMultipleSimulationsAtom = atom(
   null,
@@ -136,6 +136,23 @@ export const estimateTimeToScale = (
   return Math.max(0.1, avgTime - complexityPenalty);
 };
 
+// Convert a time-to-scale score (0 = 3+ years, 0.5 = 1 year, 0.75 = 3-6 months, 1 = immediate)
+// into the number of weeks an intervention takes to reach scale in the simulation
+export const timeToScaleScoreToWeeks = (score: number): number => {
+  const anchors: [number, number][] = [[0, 156], [0.25, 104], [0.5, 52], [0.75, 20], [0.85, 9], [1, 0]];
+  const clamped = Math.max(0, Math.min(1, score));
+  
+  for (let i = 1; i < anchors.length; i++) {
+    const [upperScore, upperWeeks] = anchors[i];
+    if (clamped <= upperScore) {
+      const [lowerScore, lowerWeeks] = anchors[i - 1];
+      const fraction = (clamped - lowerScore) / (upperScore - lowerScore);
+      return Math.round(lowerWeeks + fraction * (upperWeeks - lowerWeeks));
+    }
+  }
+  return 0;
+};
+
 // Calculate appropriate system congestion based on disease burden
 export const calculateDefaultCongestion = (
   totalIncidence: number, 
@@ -0,0 +1,243 @@
+import {
+  ModelParameters,
+  StockAndFlowState,
+  AIInterventions,
+  AICostParameters,
+  BurnInSettings,
+  runSimulation,
+  calculateAIReinvestmentCost,
+  defaultAICostParameters
+} from './stockAndFlowModel';
+
+// Budget impact analysis (BIA)
+// Runs the baseline and the AI scenario over several years and reports, year by year, how much
+// more (or less) each payer has to budget. Following ISPOR budget impact guidance, costs are
+// undiscounted and reported in the year they are paid.
+
+export type Payer = 'government' | 'households' | 'donors';
+
+export const payers: Payer[] = ['government', 'households', 'donors'];
+
+export type ServiceLevel = keyof StockAndFlowState['patientDays'];
+
+export const serviceLevels: ServiceLevel[] = ['I', 'F', 'L0', 'L1', 'L2', 'L3'];
+
+export interface BudgetPayerSettings {
+  donorShareAIFixed: number;      // share of AI set-up and maintenance paid by donors
+  donorShareAIRecurrent: number;  // share of per-episode AI costs paid by donors
+  donorShareServices: number;     // share of publicly funded service costs paid by donors (e.g. vertical programmes)
+}
+
+export interface BudgetImpactConfig {
+  years: number;                  // 1-5
+  population: number;
+  burnIn?: BurnInSettings;
+  maintenanceShare?: number;      // yearly AI maintenance and licences as a share of fixed costs (default 0.15)
+  payerSettings?: BudgetPayerSettings;
+}
+
+// One disease's paired runs; AI fixed costs are counted once across diseases
+export interface BudgetImpactDiseaseInputs {
+  disease: string;
+  baselineParams: ModelParameters;     // without AI
+  interventionParams: ModelParameters; // with the selected AI tools applied
+}
+
+export interface BudgetImpactInputs {
+  diseases: BudgetImpactDiseaseInputs[];
+  interventions: AIInterventions;
+  costParams?: AICostParameters;
+}
+
+export interface BudgetYear {
+  year: number;                   // 1-based
+  aiFixed: number;                // set-up in year 1, maintenance afterwards, plus re-investment to restore effects
+  aiRecurrent: number;            // per-episode AI costs
+  serviceChange: Record<ServiceLevel, number>; // scenario minus baseline per-diem costs at each level
+  baselineServices: number;       // per-diem costs without AI
+  scenarioServices: number;       // per-diem costs with AI
+  householdCharges: number;       // scenario minus baseline user fees and transport, paid by households
+  netImpact: number;              // public budget: aiFixed + aiRecurrent + government and donor service change
+  byPayer: Record<Payer, number>; // change in spending by who pays; households are outside netImpact
+}
+
+export interface BudgetImpactResults {
+  years: BudgetYear[];
+  cumulative: Omit<BudgetYear, 'year'>;
+  byDisease: Record<string, { serviceChange: number; aiRecurrent: number }>; // over all years
+}
+
+export const defaultBudgetPayerSettings: BudgetPayerSettings = {
+  donorShareAIFixed: 0,
+  donorShareAIRecurrent: 0,
+  donorShareServices: 0,
+};
+
+const WEEKS_PER_YEAR = 52;
+
+const emptyServiceCosts = (): Record<ServiceLevel, number> => ({ I: 0, F: 0, L0: 0, L1: 0, L2: 0, L3: 0 });
+
+const careLevels = ['L0', 'L1', 'L2', 'L3'] as const;
+
+// Per-diem costs and AI episodes of each simulated year, from the accumulated counters, and the
+// user fees and transport households pay per admission, as in the financial protection outcomes
+// (CHWs see patients in the community, so L0 has no transport; prevalence mode has no admissions).
+// One extra week is simulated so the counters include the last week of the final year.
+const annualCosts = (
+  params: ModelParameters,
+  config: BudgetImpactConfig
+): { services: Record<ServiceLevel, number>; aiRecurrent: number; householdCharges: number }[] => {
+  const results = runSimulation(params, {
+    numWeeks: config.years * WEEKS_PER_YEAR + 1,
+    population: config.population,
+    burnIn: config.burnIn,
+    trackCohorts: false,
+  });
+  const states = results.weeklyStates;
+  const flows = results.weeklyFlows || [];
+  const userFees = params.userFees ?? { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const costTransport = params.costTransport ?? 0;
+
+  return Array.from({ length: config.years }, (_, year) => {
+    const start = states[year * WEEKS_PER_YEAR];
+    const end = states[(year + 1) * WEEKS_PER_YEAR];
+    const services = emptyServiceCosts();
+    serviceLevels.forEach(level => {
+      services[level] = (end.patientDays[level] - start.patientDays[level]) * params.perDiemCosts[level];
+    });
+    const householdCharges = flows
+      .slice(year * WEEKS_PER_YEAR, (year + 1) * WEEKS_PER_YEAR)
+      .reduce((sum, week) => sum + careLevels.reduce(
+        (weekSum, level) => weekSum + week.admissions[level] * (userFees[level] + (level === 'L0' ? 0 : costTransport)), 0
+      ), 0);
+    return {
+      services,
+      aiRecurrent: (end.episodesTouched - start.episodesTouched) * params.aiVariableCost,
+      householdCharges,
+    };
+  });
+};
+
+// Who pays for a change in service costs: households pay informal care in full and oopShare of
+// formal care; donors fund donorShareServices of the rest and government the remainder.
+// User fees and transport come on top and fall on households alone.
+const splitServiceCosts = (
+  serviceChange: Record<ServiceLevel, number>,
+  oopShare: number,
+  settings: BudgetPayerSettings
+): Record<Payer, number> => {
+  const households = serviceLevels.reduce(
+    (sum, level) => sum + serviceChange[level] * (level === 'I' ? 1 : oopShare), 0
+  );
+  const publicShare = serviceLevels.reduce(
+    (sum, level) => sum + serviceChange[level] * (level === 'I' ? 0 : 1 - oopShare), 0
+  );
+  return {
+    government: publicShare * (1 - settings.donorShareServices),
+    households,
+    donors: publicShare * settings.donorShareServices,
+  };
+};
+
+// Run the budget impact analysis for one or more diseases
+export const runBudgetImpactAnalysis = (
+  inputs: BudgetImpactInputs,
+  config: BudgetImpactConfig
+): BudgetImpactResults => {
+  const costParams = inputs.costParams || defaultAICostParameters;
+  const settings = config.payerSettings || defaultBudgetPayerSettings;
+  const maintenanceShare = config.maintenanceShare ?? 0.15;
+
+  const activeTools = (Object.keys(inputs.interventions) as (keyof AIInterventions)[])
+    .filter(tool => inputs.interventions[tool]);
+  const fixedCost = activeTools.reduce((sum, tool) => sum + costParams[tool].fixed, 0);
+
+  // Re-investment rounds that restore AI effects are programme costs too, counted once across diseases
+  const trajectories = inputs.diseases[0]?.interventionParams.aiRollout?.effectTrajectories;
+  const reinvestmentCost = (year: number): number => {
+    let cost = 0;
+    for (let week = year * WEEKS_PER_YEAR; week < (year + 1) * WEEKS_PER_YEAR; week++) {
+      activeTools.forEach(tool => { cost += calculateAIReinvestmentCost(trajectories?.[tool], week); });
+    }
+    return cost;
+  };
+
+  const years: BudgetYear[] = Array.from({ length: config.years }, (_, year) => ({
+    year: year + 1,
+    aiFixed: (year === 0 ? fixedCost : fixedCost * maintenanceShare) + reinvestmentCost(year),
+    aiRecurrent: 0,
+    serviceChange: emptyServiceCosts(),
+    baselineServices: 0,
+    scenarioServices: 0,
+    householdCharges: 0,
+    netImpact: 0,
+    byPayer: { government: 0, households: 0, donors: 0 },
+  }));
+  const byDisease: BudgetImpactResults['byDisease'] = {};
+
+  inputs.diseases.forEach(({ disease, baselineParams, interventionParams }) => {
+    const baseline = annualCosts(baselineParams, config);
+    const scenario = annualCosts(interventionParams, config);
+    byDisease[disease] = { serviceChange: 0, aiRecurrent: 0 };
+
+    years.forEach((budgetYear, year) => {
+      const serviceChange = emptyServiceCosts();
+      serviceLevels.forEach(level => {
+        serviceChange[level] = scenario[year].services[level] - baseline[year].services[level];
+        budgetYear.serviceChange[level] += serviceChange[level];
+        budgetYear.baselineServices += baseline[year].services[level];
+        budgetYear.scenarioServices += scenario[year].services[level];
+      });
+      const aiRecurrent = scenario[year].aiRecurrent - baseline[year].aiRecurrent;
+      budgetYear.aiRecurrent += aiRecurrent;
+
+      // Each disease has its own out-of-pocket share
+      const servicePayers = splitServiceCosts(serviceChange, interventionParams.oopShare ?? 0, settings);
+      payers.forEach(payer => {
+        budgetYear.byPayer[payer] += servicePayers[payer];
+      });
+      const householdCharges = scenario[year].householdCharges - baseline[year].householdCharges;
+      budgetYear.householdCharges += householdCharges;
+      budgetYear.byPayer.households += householdCharges;
+
+      byDisease[disease].serviceChange += serviceLevels.reduce((sum, level) => sum + serviceChange[level], 0);
+      byDisease[disease].aiRecurrent += aiRecurrent;
+    });
+  });
+
+  // AI costs fall on the public budget unless donors fund them; household spending is not budgeted
+  years.forEach(budgetYear => {
+    budgetYear.byPayer.government += budgetYear.aiFixed * (1 - settings.donorShareAIFixed) +
+      budgetYear.aiRecurrent * (1 - settings.donorShareAIRecurrent);
+    budgetYear.byPayer.donors += budgetYear.aiFixed * settings.donorShareAIFixed +
+      budgetYear.aiRecurrent * settings.donorShareAIRecurrent;
+    budgetYear.netImpact = budgetYear.byPayer.government + budgetYear.byPayer.donors;
+  });
+
+  const total = (value: (y: BudgetYear) => number) => years.reduce((sum, y) => sum + value(y), 0);
+  const cumulativeServiceChange = emptyServiceCosts();
+  serviceLevels.forEach(level => {
+    cumulativeServiceChange[level] = total(y => y.serviceChange[level]);
+  });
+
+  console.log(`Budget impact complete: ${config.years} years, net impact ${total(y => y.netImpact).toFixed(0)}`);
+
+  return {
+    years,
+    cumulative: {
+      aiFixed: total(y => y.aiFixed),
+      aiRecurrent: total(y => y.aiRecurrent),
+      serviceChange: cumulativeServiceChange,
+      baselineServices: total(y => y.baselineServices),
+      scenarioServices: total(y => y.scenarioServices),
+      householdCharges: total(y => y.householdCharges),
+      netImpact: total(y => y.netImpact),
+      byPayer: {
+        government: total(y => y.byPayer.government),
+        households: total(y => y.byPayer.households),
+        donors: total(y => y.byPayer.donors),
+      },
+    },
+    byDisease,
+  };
+};
@@ -0,0 +1,239 @@
+import {
+  ModelParameters,
+  SimulationResults,
+  runSimulation,
+  BurnInSettings
+} from './stockAndFlowModel';
+
+// Calibration
+// Fits selected care-seeking and outcome probabilities so the no-AI baseline reproduces routine
+// health information system (HMIS) data: visits and deaths by level of care, and case fatality.
+// A Nelder-Mead search runs over logit-transformed values, so every candidate stays inside its bounds.
+
+export type CalibrationParameter =
+  | 'phi0' | 'sigmaI'
+  | 'muU' | 'deltaU' | 'muI' | 'deltaI'
+  | 'mu0' | 'delta0' | 'rho0'
+  | 'mu1' | 'delta1' | 'rho1'
+  | 'mu2' | 'delta2' | 'rho2'
+  | 'mu3' | 'delta3';
+
+export interface CalibrationParameterSetting {
+  key: CalibrationParameter;
+  lower: number;
+  upper: number;
+}
+
+export const calibrationParameterLabels: Record<CalibrationParameter, string> = {
+  phi0: 'Formal care seeking (φ₀)',
+  sigmaI: 'Informal to formal care (σI)',
+  muU: 'Untreated resolution (μU)',
+  deltaU: 'Untreated death (δU)',
+  muI: 'Informal resolution (μI)',
+  deltaI: 'Informal death (δI)',
+  mu0: 'CHW resolution (μ0)',
+  delta0: 'CHW death (δ0)',
+  rho0: 'CHW referral (ρ0)',
+  mu1: 'Primary care resolution (μ1)',
+  delta1: 'Primary care death (δ1)',
+  rho1: 'Primary care referral (ρ1)',
+  mu2: 'District hospital resolution (μ2)',
+  delta2: 'District hospital death (δ2)',
+  rho2: 'District hospital referral (ρ2)',
+  mu3: 'Tertiary hospital resolution (μ3)',
+  delta3: 'Tertiary hospital death (δ3)',
+};
+
+// Weekly death probabilities rarely go above a third; the rest are bounded only by [0, 1]
+export const defaultCalibrationBounds = (key: CalibrationParameter): CalibrationParameterSetting =>
+  key.startsWith('delta') ? { key, lower: 0.0001, upper: 0.3 } : { key, lower: 0.01, upper: 0.99 };
+
+export const defaultCalibrationParameters: CalibrationParameterSetting[] =
+  (['phi0', 'sigmaI', 'mu1', 'delta1', 'delta2'] as CalibrationParameter[]).map(defaultCalibrationBounds);
+
+// visits: admissions per year; deaths: deaths per year; caseFatality: deaths / admissions.
+// 'facilities' adds up L0-L3; 'all' also counts deaths outside facilities, with case fatality per new case
+// ('all' visits are facility admissions)
+export type CalibrationTargetType = 'visits' | 'deaths' | 'caseFatality';
+export type CalibrationLevel = 'L0' | 'L1' | 'L2' | 'L3' | 'facilities' | 'all';
+
+export interface CalibrationTarget {
+  type: CalibrationTargetType;
+  level: CalibrationLevel;
+  observed: number;
+  weight?: number;                 // default 1
+}
+
+export interface CalibrationConfig {
+  numWeeks: number;                // weeks simulated per evaluation; counts are converted to yearly values
+  population: number;              // population the observed counts refer to
+  burnIn?: BurnInSettings;
+  maxEvaluations: number;
+  tolerance?: number;              // stop when the simplex's objective values differ by less than this (default 1e-6)
+}
+
+export interface CalibrationInputs {
+  parameters: CalibrationParameterSetting[];
+  initialValues: Partial<Record<CalibrationParameter, number>>; // starting point, inside the bounds
+  deriveParams: (values: Partial<Record<CalibrationParameter, number>>) => ModelParameters; // no-AI parameters for a candidate
+  targets: CalibrationTarget[];
+  disease?: string;
+}
+
+export interface CalibrationTargetFit {
+  target: CalibrationTarget;
+  simulated: number;
+  relativeError: number;           // (simulated - observed) / observed
+}
+
+export interface CalibrationResults {
+  disease?: string;
+  values: Partial<Record<CalibrationParameter, number>>;
+  initialValues: Partial<Record<CalibrationParameter, number>>;
+  objective: number;               // weighted sum of squared relative errors
+  initialObjective: number;
+  fits: CalibrationTargetFit[];
+  initialFits: CalibrationTargetFit[];
+  evaluations: number;
+  converged: boolean;              // false when maxEvaluations ran out first
+}
+
+const levelsFor = (level: CalibrationLevel): ('L0' | 'L1' | 'L2' | 'L3')[] =>
+  level === 'facilities' || level === 'all' ? ['L0', 'L1', 'L2', 'L3'] : [level];
+
+// Simulated value of one target; counts are per year so they compare with annual HMIS reports
+export const simulateCalibrationTarget = (
+  results: SimulationResults,
+  target: CalibrationTarget,
+  numWeeks: number
+): number => {
+  const flows = results.weeklyFlows || [];
+  const perYear = numWeeks > 0 ? 52 / numWeeks : 0;
+  const levels = levelsFor(target.level);
+  const admissions = flows.reduce((sum, week) => sum + levels.reduce((s, level) => s + week.admissions[level], 0), 0);
+  const deaths = target.level === 'all'
+    ? results.cumulativeDeaths
+    : levels.reduce((sum, level) => sum + (results.deathsByLocation?.[level] || 0), 0);
+
+  switch (target.type) {
+    case 'visits':
+      return admissions * perYear;
+    case 'deaths':
+      return deaths * perYear;
+    case 'caseFatality': {
+      const denominator = target.level === 'all' ? flows.reduce((sum, week) => sum + week.newCases, 0) : admissions;
+      return denominator > 0 ? deaths / denominator : 0;
+    }
+  }
+};
+
+const fitTargets = (results: SimulationResults, targets: CalibrationTarget[], numWeeks: number): CalibrationTargetFit[] =>
+  targets.map(target => {
+    const simulated = simulateCalibrationTarget(results, target, numWeeks);
+    return { target, simulated, relativeError: target.observed !== 0 ? (simulated - target.observed) / target.observed : simulated };
+  });
+
+const objectiveOf = (fits: CalibrationTargetFit[]): number =>
+  fits.reduce((sum, fit) => sum + (fit.target.weight ?? 1) * fit.relativeError * fit.relativeError, 0);
+
+// Values inside (lower, upper) map to the whole real line and back
+const toSearchSpace = (value: number, { lower, upper }: CalibrationParameterSetting): number => {
+  const share = Math.min(1 - 1e-6, Math.max(1e-6, (value - lower) / (upper - lower)));
+  return Math.log(share / (1 - share));
+};
+
+const fromSearchSpace = (z: number, { lower, upper }: CalibrationParameterSetting): number =>
+  lower + (upper - lower) / (1 + Math.exp(-z));
+
+// Nelder-Mead with the standard coefficients (reflection 1, expansion 2, contraction 0.5, shrink 0.5)
+const nelderMead = (
+  objective: (point: number[]) => number,
+  start: number[],
+  maxEvaluations: number,
+  tolerance: number
+): { point: number[]; value: number; evaluations: number; converged: boolean } => {
+  let evaluations = 0;
+  const evaluate = (point: number[]) => {
+    evaluations++;
+    return objective(point);
+  };
+
+  const simplex = [start, ...start.map((_, i) => start.map((z, j) => (i === j ? z + 0.5 : z)))]
+    .map(point => ({ point, value: evaluate(point) }));
+  const combine = (a: number[], b: number[], t: number) => a.map((value, i) => value + t * (b[i] - value));
+
+  while (evaluations < maxEvaluations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (worst.value - best.value < tolerance) {
+      return { ...best, evaluations, converged: true };
+    }
+
+    const centroid = start.map((_, i) =>
+      simplex.slice(0, -1).reduce((sum, vertex) => sum + vertex.point[i], 0) / (simplex.length - 1)
+    );
+    const reflected = combine(centroid, worst.point, -1);
+    const reflectedValue = evaluate(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.point, -2);
+      const expandedValue = evaluate(expanded);
+      simplex[simplex.length - 1] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = reflectedValue < worst.value
+        ? combine(centroid, reflected, 0.5)
+        : combine(centroid, worst.point, 0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[simplex.length - 1] = { point: contracted, value: contractedValue };
+      } else {
+        for (let i = 1; i < simplex.length; i++) {
+          const point = combine(best.point, simplex[i].point, 0.5);
+          simplex[i] = { point, value: evaluate(point) };
+        }
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { ...simplex[0], evaluations, converged: false };
+};
+
+export const runCalibration = (inputs: CalibrationInputs, config: CalibrationConfig): CalibrationResults => {
+  const { parameters, targets } = inputs;
+  const simConfig = { numWeeks: config.numWeeks, population: config.population, burnIn: config.burnIn, trackCohorts: false };
+
+  const valuesAt = (point: number[]) => Object.fromEntries(
+    parameters.map((setting, i) => [setting.key, fromSearchSpace(point[i], setting)])
+  ) as Partial<Record<CalibrationParameter, number>>;
+  const fitsFor = (values: Partial<Record<CalibrationParameter, number>>) =>
+    fitTargets(runSimulation(inputs.deriveParams(values), simConfig), targets, config.numWeeks);
+
+  const start = parameters.map(setting => toSearchSpace(inputs.initialValues[setting.key] ?? (setting.lower + setting.upper) / 2, setting));
+  const initialValues = valuesAt(start);
+  const initialFits = fitsFor(initialValues);
+
+  const search = parameters.length > 0 && targets.length > 0
+    ? nelderMead(point => objectiveOf(fitsFor(valuesAt(point))), start, config.maxEvaluations, config.tolerance ?? 1e-6)
+    : { point: start, value: objectiveOf(initialFits), evaluations: 0, converged: true };
+
+  const values = valuesAt(search.point);
+  const fits = fitsFor(values);
+
+  return {
+    disease: inputs.disease,
+    values,
+    initialValues,
+    objective: objectiveOf(fits),
+    initialObjective: objectiveOf(initialFits),
+    fits,
+    initialFits,
+    evaluations: search.evaluations,
+    converged: search.converged,
+  };
+};
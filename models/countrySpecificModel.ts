@@ -1,4 +1,4 @@
-import { ModelParameters } from './stockAndFlowModel';
+import { ModelParameters, LevelCapacity } from './stockAndFlowModel';
 
 export interface CountryProfile {
   country: string;
@@ -381,6 +381,9 @@ export function adjustParametersForCountry(
 
   // Note: AI effectiveness is now handled in applyAIInterventions through diseaseSpecificAIEffects
 
+  // Household incomes for catastrophic expenditure follow the country's GDP per capita
+  adjustedParams.costPerCapitaGDP = country.gdpPerCapitaUSD;
+
   // Add country-specific metadata
   adjustedParams.countryProfile = country;
   adjustedParams.isUrban = isUrban;
@@ -527,6 +530,63 @@ function calculateWorkforceMultiplier(country: CountryProfile): number {
   return Math.min(1.1, 0.8 + (0.3 * Math.min(physicianRatio, 1)) + chwBonus);
 }
 
+// Facility and workforce density used when no country profile is selected (SSA averages)
+export const genericCapacityDensity: Pick<CountryProfile, 'hospitalBedsPer1000' | 'physicianDensityPer1000'> = {
+  hospitalBedsPer1000: 1.0,
+  physicianDensityPer1000: 0.3,
+};
+
+// Caseload and staffing assumptions that turn bed and workforce density into level capacity
+export interface CapacityAssumptions {
+  chwsPer1000: number;                 // community health workers per 1,000 population
+  chwWeeklyCaseload: number;           // sick patients each CHW follows per week
+  clinicalStaffPerPhysician: number;   // task-shifted clinical officers and nurses per physician
+  primaryCareStaffFraction: number;    // share of the clinical workforce working in primary care
+  clinicianWeeklyCaseload: number;     // patient episodes each primary care clinician manages per week
+  districtBedFraction: number;         // share of hospital beds at district level (the rest are tertiary)
+}
+
+export const defaultCapacityAssumptions: CapacityAssumptions = {
+  chwsPer1000: 1.0,               // WHO guideline range
+  chwWeeklyCaseload: 25,
+  clinicalStaffPerPhysician: 3,
+  primaryCareStaffFraction: 0.5,
+  clinicianWeeklyCaseload: 100,
+  districtBedFraction: 0.7,
+};
+
+// Absolute weekly capacity per level derived from bed and workforce density
+// capacityShare is the fraction of total capacity available to one disease (1 = whole system)
+export function calculateLevelCapacity(
+  density: Pick<CountryProfile, 'hospitalBedsPer1000' | 'physicianDensityPer1000'>,
+  population: number,
+  capacityShare: number = 1,
+  assumptions: CapacityAssumptions = defaultCapacityAssumptions
+): LevelCapacity {
+  const populationThousands = population / 1000;
+  
+  // Hospital beds split between district and tertiary/referral hospitals
+  const totalBeds = density.hospitalBedsPer1000 * populationThousands;
+  const districtBeds = totalBeds * assumptions.districtBedFraction;
+  const tertiaryBeds = totalBeds - districtBeds;
+  
+  // Primary care: physicians plus task-shifted clinical officers and nurses, of whom the primary care share
+  // each manage a weekly caseload of patient episodes
+  const primaryClinicians = density.physicianDensityPer1000 * populationThousands
+    * (1 + assumptions.clinicalStaffPerPhysician) * assumptions.primaryCareStaffFraction;
+  const primaryCareCaseload = primaryClinicians * assumptions.clinicianWeeklyCaseload;
+  
+  // CHWs per 1,000 population, each following a weekly caseload of sick patients
+  const chwCaseload = populationThousands * assumptions.chwsPer1000 * assumptions.chwWeeklyCaseload;
+  
+  return {
+    L0: chwCaseload * capacityShare,
+    L1: primaryCareCaseload * capacityShare,
+    L2: districtBeds * capacityShare,
+    L3: tertiaryBeds * capacityShare,
+  };
+}
+
 // AI effectiveness is now handled directly in stockAndFlowModel through diseaseSpecificAIEffects
 
 // Multi-condition modeling support
@@ -0,0 +1,165 @@
+import {
+  ModelParameters,
+  BurnInSettings,
+  SimulationResults,
+  runSimulation
+} from './stockAndFlowModel';
+
+// National aggregation across urban and rural settings
+// Each setting is simulated for its share of the national population (CountryProfile urban and rural
+// shares), with and without AI, so summing the settings gives population-weighted national totals.
+// Rural parameters carry the country's rural multipliers and the AI uptake rural multiplier; both are
+// applied when the parameters are derived. The equity breakdown compares the settings per 100,000 people.
+
+export type SettingType = 'urban' | 'rural';
+
+export interface NationalSettingInputs {
+  setting: SettingType;
+  populationShare: number;                           // share of the national population, 0-1
+  baselineParams: Record<string, ModelParameters>;   // by disease, without AI
+  interventionParams: Record<string, ModelParameters>; // by disease, with the selected AI tools
+}
+
+export interface NationalAggregationConfig {
+  numWeeks: number;
+  population: number;              // national population
+  burnIn?: BurnInSettings;
+}
+
+export interface NationalOutcomes {
+  deaths: number;
+  dalys: number;                   // discounted
+  cost: number;                    // discounted
+}
+
+export interface NationalTotals {
+  population: number;
+  baseline: NationalOutcomes;
+  intervention: NationalOutcomes;
+  deathsAverted: number;
+  dalysAverted: number;
+  incrementalCost: number;
+  baselineDeathsPer100k: number;
+  interventionDeathsPer100k: number;
+  deathsAvertedPer100k: number;
+  byDisease: Record<string, { deathsAverted: number; dalysAverted: number }>;
+}
+
+export interface NationalSettingResults extends NationalTotals {
+  setting: SettingType;
+  populationShare: number;
+}
+
+export interface NationalEquity {
+  deathsAvertedGapPer100k: number;       // urban minus rural deaths averted per 100,000
+  baselineMortalityGapPer100k: number;   // rural minus urban deaths per 100,000 without AI
+  interventionMortalityGapPer100k: number; // the same with AI
+  ruralShareOfDeathsAverted: number;     // compare with the rural population share
+  ruralPopulationShare: number;
+}
+
+export interface NationalAggregationResults {
+  settings: NationalSettingResults[];
+  national: NationalTotals;
+  equity: NationalEquity | null;         // null unless both settings have people in them
+}
+
+const PER_100K = 100000;
+
+const emptyOutcomes = (): NationalOutcomes => ({ deaths: 0, dalys: 0, cost: 0 });
+
+const addOutcomes = (outcomes: NationalOutcomes, results: SimulationResults) => {
+  outcomes.deaths += results.cumulativeDeaths;
+  outcomes.dalys += results.dalys;
+  outcomes.cost += results.totalCost;
+};
+
+const perCapita = (value: number, population: number): number => (population > 0 ? (value / population) * PER_100K : 0);
+
+const summarise = (
+  population: number,
+  baseline: NationalOutcomes,
+  intervention: NationalOutcomes,
+  byDisease: NationalTotals['byDisease']
+): NationalTotals => ({
+  population,
+  baseline,
+  intervention,
+  deathsAverted: baseline.deaths - intervention.deaths,
+  dalysAverted: baseline.dalys - intervention.dalys,
+  incrementalCost: intervention.cost - baseline.cost,
+  baselineDeathsPer100k: perCapita(baseline.deaths, population),
+  interventionDeathsPer100k: perCapita(intervention.deaths, population),
+  deathsAvertedPer100k: perCapita(baseline.deaths - intervention.deaths, population),
+  byDisease,
+});
+
+// Sum settings (or regions) into one population-weighted total
+export const combineNationalTotals = (parts: NationalTotals[]): NationalTotals => {
+  const total = (value: (part: NationalTotals) => number) => parts.reduce((sum, part) => sum + value(part), 0);
+  const byDisease: NationalTotals['byDisease'] = {};
+  parts.forEach(part => Object.entries(part.byDisease).forEach(([disease, outcomes]) => {
+    const current = byDisease[disease] || { deathsAverted: 0, dalysAverted: 0 };
+    byDisease[disease] = {
+      deathsAverted: current.deathsAverted + outcomes.deathsAverted,
+      dalysAverted: current.dalysAverted + outcomes.dalysAverted,
+    };
+  }));
+  return summarise(
+    total(part => part.population),
+    { deaths: total(part => part.baseline.deaths), dalys: total(part => part.baseline.dalys), cost: total(part => part.baseline.cost) },
+    { deaths: total(part => part.intervention.deaths), dalys: total(part => part.intervention.dalys), cost: total(part => part.intervention.cost) },
+    byDisease
+  );
+};
+
+export const calculateNationalEquity = (
+  urban: NationalTotals,
+  rural: NationalTotals,
+  national: NationalTotals
+): NationalEquity | null =>
+  urban.population > 0 && rural.population > 0 ? {
+    deathsAvertedGapPer100k: urban.deathsAvertedPer100k - rural.deathsAvertedPer100k,
+    baselineMortalityGapPer100k: rural.baselineDeathsPer100k - urban.baselineDeathsPer100k,
+    interventionMortalityGapPer100k: rural.interventionDeathsPer100k - urban.interventionDeathsPer100k,
+    ruralShareOfDeathsAverted: national.deathsAverted !== 0 ? rural.deathsAverted / national.deathsAverted : 0,
+    ruralPopulationShare: rural.population / national.population,
+  } : null;
+
+export const runNationalAggregation = (
+  inputs: NationalSettingInputs[],
+  config: NationalAggregationConfig
+): NationalAggregationResults => {
+  const settings: NationalSettingResults[] = inputs.map(({ setting, populationShare, baselineParams, interventionParams }) => {
+    const population = config.population * populationShare;
+    const simConfig = { numWeeks: config.numWeeks, population, burnIn: config.burnIn, trackCohorts: false };
+    const baseline = emptyOutcomes();
+    const intervention = emptyOutcomes();
+    const byDisease: NationalTotals['byDisease'] = {};
+
+    if (population > 0) {
+      Object.keys(baselineParams).forEach(disease => {
+        const baselineResults = runSimulation(baselineParams[disease], simConfig);
+        const interventionResults = runSimulation(interventionParams[disease], simConfig);
+        addOutcomes(baseline, baselineResults);
+        addOutcomes(intervention, interventionResults);
+        byDisease[disease] = {
+          deathsAverted: baselineResults.cumulativeDeaths - interventionResults.cumulativeDeaths,
+          dalysAverted: baselineResults.dalys - interventionResults.dalys,
+        };
+      });
+    }
+
+    return { setting, populationShare, ...summarise(population, baseline, intervention, byDisease) };
+  });
+
+  const national = combineNationalTotals(settings);
+  const urban = settings.find(s => s.setting === 'urban');
+  const rural = settings.find(s => s.setting === 'rural');
+  const equity = urban && rural ? calculateNationalEquity(urban, rural, national) : null;
+
+  console.log(`National aggregation complete: ${national.deathsAverted.toFixed(1)} deaths averted` +
+    (equity ? `, urban-rural gap ${equity.deathsAvertedGapPer100k.toFixed(2)} per 100k` : ''));
+
+  return { settings, national, equity };
+};
@@ -0,0 +1,349 @@
+import { ModelParameters, BurnInSettings } from './stockAndFlowModel';
+
+// Steps getDerivedParamsForDisease takes from the base parameters to the ones the model runs with.
+// 'health_system_multipliers' and 'ai_interventions' are recorded before their clamp to [0, 1],
+// so a value pushed out of range there is caught even though the model never sees it.
+export type ParameterStage =
+  | 'base'
+  | 'health_system'
+  | 'disease_profile'
+  | 'country'
+  | 'custom_overrides'
+  | 'health_system_multipliers'
+  | 'ai_interventions'
+  | 'final'
+  | 'imported';
+
+export const parameterStageLabels: Record<ParameterStage, string> = {
+  base: 'base parameters',
+  health_system: 'health system defaults',
+  disease_profile: 'disease profile',
+  country: 'country adjustment',
+  custom_overrides: 'custom disease overrides',
+  health_system_multipliers: 'health system multipliers',
+  ai_interventions: 'AI interventions',
+  final: 'final parameters',
+  imported: 'imported scenario',
+};
+
+export interface ParameterStageSnapshot {
+  stage: ParameterStage;
+  params: ModelParameters;
+}
+
+export type ParameterValidationRule =
+  | 'missing'       // a required parameter has no value
+  | 'not_finite'    // NaN or Infinity
+  | 'range'         // outside the values the model can use
+  | 'outflow_sum'   // weekly outflow probabilities from one stock add up to more than 1
+  | 'plausibility'; // usable, but outside the range seen in practice
+
+export interface ParameterValidationIssue {
+  severity: 'error' | 'warning';
+  rule: ParameterValidationRule;
+  fields: string[];              // parameter paths, e.g. 'mu1' or 'perDiemCosts.L1'
+  value: number;                 // offending value, or the sum for outflow rules
+  limit?: number;                // bound that was crossed
+  message: string;
+  stage?: ParameterStage;        // stage where the problem first appeared
+  resolvedAt?: ParameterStage;   // stage that clamped it away; the model runs with a different value than intended
+}
+
+export interface ParameterValidationResult {
+  valid: boolean;                // no errors (warnings are allowed)
+  errors: ParameterValidationIssue[];
+  warnings: ParameterValidationIssue[];
+}
+
+interface FieldRule {
+  min?: number;
+  max?: number;
+  warnBelow?: number;
+  warnAbove?: number;
+  required?: boolean;
+}
+
+const probability: FieldRule = { min: 0, max: 1 };
+const requiredProbability: FieldRule = { ...probability, required: true };
+const nonNegative: FieldRule = { min: 0 };
+const cost: FieldRule = { min: 0 };
+
+// Bounds per parameter. Hard bounds (min/max) are errors; soft bounds (warnBelow/warnAbove) are warnings.
+const parameterSchema: Record<string, FieldRule> = {
+  lambda: { min: 0, warnAbove: 5, required: true },
+  disabilityWeight: requiredProbability,
+  meanAgeOfInfection: { min: 0, max: 120, required: true },
+
+  phi0: requiredProbability,
+  sigmaI: requiredProbability,
+  informalCareRatio: requiredProbability,
+  muI: requiredProbability,
+  deltaI: requiredProbability,
+  deltaU: requiredProbability,
+  muU: requiredProbability,
+  mu0: requiredProbability,
+  delta0: requiredProbability,
+  rho0: requiredProbability,
+  mu1: requiredProbability,
+  delta1: requiredProbability,
+  rho1: requiredProbability,
+  mu2: requiredProbability,
+  delta2: requiredProbability,
+  rho2: requiredProbability,
+  mu3: requiredProbability,
+  delta3: requiredProbability,
+
+  'perDiemCosts.I': { ...cost, required: true },
+  'perDiemCosts.F': { ...cost, required: true },
+  'perDiemCosts.L0': { ...cost, required: true },
+  'perDiemCosts.L1': { ...cost, required: true },
+  'perDiemCosts.L2': { ...cost, required: true },
+  'perDiemCosts.L3': { ...cost, required: true },
+  aiFixedCost: cost,
+  aiVariableCost: cost,
+  discountRate: { min: 0, max: 1, warnAbove: 0.15, required: true },
+  costDiscountRate: { min: 0, max: 1, warnAbove: 0.15 },
+  healthDiscountRate: { min: 0, max: 1, warnAbove: 0.15 },
+  yearsOfLifeLost: { ...nonNegative, required: true },
+  regionalLifeExpectancy: { min: 1, max: 120, warnBelow: 40, warnAbove: 90, required: true },
+
+  'userFees.L0': cost,
+  'userFees.L1': cost,
+  'userFees.L2': cost,
+  'userFees.L3': cost,
+  costTransport: cost,
+  oopShare: probability,
+  catastrophicThreshold: probability,
+  costPerCapitaGDP: { min: 0 },
+  householdSize: { min: 1, warnAbove: 20 },
+  foodShare: probability,
+  incomeLogSD: { min: 0, warnAbove: 2 },
+
+  patientTimePerVisit: nonNegative,
+  caregiverTimeShare: { min: 0, warnAbove: 1 },
+  labourForceParticipation: probability,
+  retirementAge: { min: 15, max: 120 },
+
+  relapseRate: probability,
+  controlledShare: probability,
+  decompensationRate: probability,
+  relapseToInformalShare: probability,
+  controlledCareCost: cost,
+
+  initialPrevalence: probability,
+  chronicIncidence: { min: 0, warnAbove: 0.2 },
+  diagnosedShare: probability,
+  diagnosisRate: probability,
+  visitsPerYear: { min: 0, warnAbove: 52 },
+  l0VisitShare: probability,
+  adherenceLossRate: probability,
+  adherenceRecovery: probability,
+  lossToFollowUpRate: probability,
+  returnToCareRate: probability,
+  controlProbability: probability,
+  complicationRate: probability,
+  controlledComplicationRR: { min: 0, warnAbove: 1 },
+  complicationWeeks: nonNegative,
+  complicationL3Share: probability,
+  complicationMortality: probability,
+  otherCauseMortality: probability,
+  uncontrolledDisabilityWeight: probability,
+  controlledDisabilityWeight: probability,
+  complicationDisabilityWeight: probability,
+
+  transmissionShare: probability,
+  careInfectiousness: { min: 0, warnAbove: 1 },
+  transmissionDelayWeeks: nonNegative,
+  mosquitoInfectionRate: nonNegative,
+  mosquitoDeathRate: probability,
+
+  systemCongestion: probability,
+  capacityShare: probability,
+  competitionSensitivity: { min: 0, warnAbove: 3 },
+  clinicalPriority: probability,
+
+  queueAbandonmentRate: probability,
+  queueBypassRate: probability,
+  queueClearanceRate: probability,
+  queueSelfResolveRate: probability,
+
+  visitReduction: probability,
+  directRoutingImprovement: probability,
+  queuePreventionRate: probability,
+  smartRoutingRate: probability,
+  resolutionBoost: probability,
+  referralOptimization: probability,
+  pointOfCareResolution: probability,
+  referralPrecision: probability,
+  lengthOfStayReduction: probability,
+  dischargeOptimization: probability,
+  treatmentEfficiency: probability,
+  resourceUtilization: probability,
+
+  triageUnderReferral: probability,
+  triageOverReferral: probability,
+  diagnosticMissedReferral: probability,
+  diagnosticFalseReferral: probability,
+  selfCareFalseReassurance: probability,
+};
+
+// Weekly exits from each stock must not add up to more than 1, or the stock goes negative
+// (runWeek scales them down instead, which changes the intended rates)
+const outflowGroups: { stock: string; rates: (params: ModelParameters) => [string, number][] }[] = [
+  { stock: 'untreated (U)', rates: params => [['muU', params.muU], ['deltaU', params.deltaU]] },
+  { stock: 'informal care (I)', rates: params => [['sigmaI', params.sigmaI], ['muI', params.muI], ['deltaI', params.deltaI]] },
+  { stock: 'CHW care (L0)', rates: params => [['mu0', params.mu0], ['delta0', params.delta0], ['rho0', params.rho0]] },
+  { stock: 'primary care (L1)', rates: params => [['mu1', params.mu1], ['delta1', params.delta1], ['rho1', params.rho1]] },
+  { stock: 'district hospital (L2)', rates: params => [['mu2', params.mu2], ['delta2', params.delta2], ['rho2', params.rho2]] },
+  { stock: 'tertiary hospital (L3)', rates: params => [['mu3', params.mu3], ['delta3', params.delta3]] },
+  {
+    // Same defaults as runWeek
+    stock: 'queues',
+    rates: params => [
+      ['deltaU', params.deltaU],
+      ['queueAbandonmentRate', params.queueAbandonmentRate || 0.05],
+      ['queueBypassRate', params.queueBypassRate || 0.10],
+      ['queueSelfResolveRate', params.queueSelfResolveRate || 0.10],
+    ],
+  },
+];
+
+const getFieldValue = (params: ModelParameters, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    params
+  );
+
+const formatValue = (value: number): string =>
+  Number.isInteger(value) ? `${value}` : value.toPrecision(3);
+
+// Every issue in one set of parameters, without stage attribution
+const checkParameters = (params: ModelParameters): ParameterValidationIssue[] => {
+  const issues: ParameterValidationIssue[] = [];
+
+  Object.entries(parameterSchema).forEach(([field, rule]) => {
+    const value = getFieldValue(params, field);
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        issues.push({ severity: 'error', rule: 'missing', fields: [field], value: NaN, message: `${field} is missing` });
+      }
+      return;
+    }
+    if (typeof value !== 'number' || !isFinite(value)) {
+      issues.push({ severity: 'error', rule: 'not_finite', fields: [field], value: Number(value), message: `${field} is ${String(value)}` });
+      return;
+    }
+    if (rule.min !== undefined && value < rule.min) {
+      issues.push({
+        severity: 'error', rule: 'range', fields: [field], value, limit: rule.min,
+        message: `${field} is ${formatValue(value)}, below the minimum of ${rule.min}`,
+      });
+    } else if (rule.max !== undefined && value > rule.max) {
+      issues.push({
+        severity: 'error', rule: 'range', fields: [field], value, limit: rule.max,
+        message: `${field} is ${formatValue(value)}, above the maximum of ${rule.max}`,
+      });
+    } else if (rule.warnBelow !== undefined && value < rule.warnBelow) {
+      issues.push({
+        severity: 'warning', rule: 'plausibility', fields: [field], value, limit: rule.warnBelow,
+        message: `${field} is ${formatValue(value)}, unusually low (below ${rule.warnBelow})`,
+      });
+    } else if (rule.warnAbove !== undefined && value > rule.warnAbove) {
+      issues.push({
+        severity: 'warning', rule: 'plausibility', fields: [field], value, limit: rule.warnAbove,
+        message: `${field} is ${formatValue(value)}, unusually high (above ${rule.warnAbove})`,
+      });
+    }
+  });
+
+  outflowGroups.forEach(({ stock, rates }) => {
+    const groupRates = rates(params).filter(([, rate]) => typeof rate === 'number' && isFinite(rate));
+    const total = groupRates.reduce((sum, [, rate]) => sum + rate, 0);
+    if (total > 1 + 1e-9) {
+      const fields = groupRates.map(([field]) => field);
+      issues.push({
+        severity: 'error', rule: 'outflow_sum', fields, value: total, limit: 1,
+        message: `Weekly outflows from ${stock} add up to ${formatValue(total)} (${fields.join(' + ')}), above 1`,
+      });
+    }
+  });
+
+  if (isFinite(params.meanAgeOfInfection) && isFinite(params.regionalLifeExpectancy) &&
+      params.meanAgeOfInfection >= params.regionalLifeExpectancy) {
+    issues.push({
+      severity: 'warning', rule: 'plausibility', fields: ['meanAgeOfInfection', 'regionalLifeExpectancy'],
+      value: params.meanAgeOfInfection, limit: params.regionalLifeExpectancy,
+      message: `meanAgeOfInfection (${formatValue(params.meanAgeOfInfection)}) is not below regionalLifeExpectancy ` +
+        `(${formatValue(params.regionalLifeExpectancy)}), so deaths lose no years of life`,
+    });
+  }
+
+  return issues;
+};
+
+const issueKey = (issue: ParameterValidationIssue) => `${issue.rule}:${issue.fields.join('+')}`;
+
+// Stages recorded before a clamp: an error gone in the next stage was clamped away by this one
+const clampingStages: ParameterStage[] = ['health_system_multipliers', 'ai_interventions'];
+
+const distanceOutOfBounds = (issue: ParameterValidationIssue) =>
+  issue.limit === undefined || !isFinite(issue.value) ? 0 : Math.abs(issue.value - issue.limit);
+
+// Check each stage in order. Issues left in the last stage are reported from the stage that last made
+// them worse; errors a later stage clamped away become warnings naming the stage that corrected them.
+export const validateParameterStages = (stages: ParameterStageSnapshot[]): ParameterValidationResult => {
+  const errors: ParameterValidationIssue[] = [];
+  const warnings: ParameterValidationIssue[] = [];
+  let open = new Map<string, ParameterValidationIssue>();
+  let previousStage: ParameterStage | undefined;
+
+  stages.forEach(({ stage, params }) => {
+    const current = new Map<string, ParameterValidationIssue>();
+    checkParameters(params).forEach(issue => {
+      const key = issueKey(issue);
+      const previous = open.get(key);
+      const worse = !previous || distanceOutOfBounds(issue) > distanceOutOfBounds(previous) + 1e-12;
+      current.set(key, { ...issue, stage: worse ? stage : previous.stage });
+    });
+
+    open.forEach((issue, key) => {
+      if (!current.has(key) && issue.severity === 'error') {
+        const resolvedAt = previousStage && clampingStages.includes(previousStage) ? previousStage : stage;
+        warnings.push({
+          ...issue,
+          severity: 'warning',
+          resolvedAt,
+          message: `${issue.message}; ${resolvedAt === stage ? 'corrected' : 'clamped'} by ${parameterStageLabels[resolvedAt]}`,
+        });
+      }
+    });
+    open = current;
+    previousStage = stage;
+  });
+
+  open.forEach(issue => (issue.severity === 'error' ? errors : warnings).push(issue));
+
+  return { valid: errors.length === 0, errors, warnings };
+};
+
+export const validateModelParameters = (
+  params: ModelParameters,
+  stage: ParameterStage = 'final'
+): ParameterValidationResult => validateParameterStages([{ stage, params }]);
+
+// Run settings that fit the parameters badly: transmission measures incidence against the endemic level
+// reached in the burn-in, so a cold start leaves it away from lambda until the stocks settle
+export const validateBurnIn = (
+  params: ModelParameters,
+  burnIn: BurnInSettings | undefined
+): ParameterValidationIssue[] =>
+  (params.transmissionModel ?? 'none') !== 'none' && burnIn?.mode === 'none'
+    ? [{
+        severity: 'warning', rule: 'plausibility', fields: ['transmissionModel'], value: 0,
+        message: 'Transmission is on without a burn-in, so incidence starts away from lambda until the stocks settle',
+      }]
+    : [];
+
+// One line per issue for alerts and confirmation dialogs
+export const describeParameterIssue = (issue: ParameterValidationIssue): string =>
+  issue.stage ? `[${parameterStageLabels[issue.stage]}] ${issue.message}` : issue.message;
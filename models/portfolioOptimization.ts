@@ -0,0 +1,193 @@
+import {
+  ModelParameters,
+  AIInterventions,
+  AICostParameters,
+  BurnInSettings,
+  SimulationResults,
+  runSimulation,
+  calculateAIReinvestmentCost,
+  defaultAICostParameters
+} from './stockAndFlowModel';
+
+// Budget-constrained AI portfolio optimisation
+// Every combination of the six AI tools is simulated in each setting (a country and urban or rural
+// area) for the selected diseases, against a shared no-AI baseline. One package is then chosen per
+// setting so the total AI programme cost stays within one budget and the health gain is largest.
+// Frontiers are combined setting by setting, keeping only packages and portfolios that no other
+// option beats on both cost and benefit, so the search is exact without trying every cross-setting mix.
+
+export const aiTools: (keyof AIInterventions)[] = [
+  'triageAI', 'chwAI', 'diagnosticAI', 'bedManagementAI', 'hospitalDecisionAI', 'selfCareAI'
+];
+
+export type PortfolioObjective = 'dalys' | 'deaths';
+
+export interface PortfolioSetting {
+  id: string;
+  label: string;
+  countryCode: string | null;      // null = generic (non-country) model
+  isUrban: boolean;
+  population: number;
+}
+
+export interface PortfolioConfig {
+  budget: number;                  // USD for AI programme costs over the horizon, across all settings
+  objective: PortfolioObjective;
+  numWeeks: number;
+  burnIn?: BurnInSettings;
+}
+
+export interface PortfolioInputs {
+  settings: PortfolioSetting[];
+  diseases: string[];
+  deriveParams: (setting: PortfolioSetting, disease: string, interventions: AIInterventions) => ModelParameters;
+  costParams?: AICostParameters;
+}
+
+export interface PortfolioPackage {
+  settingId: string;
+  tools: (keyof AIInterventions)[];
+  aiCost: number;                  // undiscounted: set-up, per-episode costs and re-investment rounds
+  incrementalCost: number;         // undiscounted, including service cost changes
+  deathsAverted: number;
+  dalysAverted: number;            // discounted, as in the ICER
+  benefit: number;                 // deaths or DALYs averted, by objective
+}
+
+export interface PortfolioFrontierPoint {
+  cost: number;                    // total AI programme cost
+  benefit: number;
+  packages: PortfolioPackage[];    // one per setting, in setting order
+  costPerUnit?: number;            // extra cost per extra unit of benefit over the previous point
+}
+
+export interface PortfolioResults {
+  objective: PortfolioObjective;
+  budget: number;
+  settings: PortfolioSetting[];
+  diseases: string[];
+  packages: Record<string, PortfolioPackage[]>;        // every tool combination, by setting id
+  settingFrontiers: Record<string, PortfolioPackage[]>; // non-dominated packages, by increasing cost
+  frontier: PortfolioFrontierPoint[];                  // non-dominated portfolios, by increasing cost
+  chosen: PortfolioFrontierPoint;                      // most benefit within the budget
+}
+
+const toInterventions = (tools: (keyof AIInterventions)[]): AIInterventions => ({
+  triageAI: tools.includes('triageAI'),
+  chwAI: tools.includes('chwAI'),
+  diagnosticAI: tools.includes('diagnosticAI'),
+  bedManagementAI: tools.includes('bedManagementAI'),
+  hospitalDecisionAI: tools.includes('hospitalDecisionAI'),
+  selfCareAI: tools.includes('selfCareAI')
+});
+
+// All 64 subsets of the tools, the empty package first
+const allToolCombinations = (): (keyof AIInterventions)[][] =>
+  Array.from({ length: 1 << aiTools.length }, (_, mask) => aiTools.filter((_, i) => mask & (1 << i)));
+
+const finalState = (results: SimulationResults) => results.weeklyStates[results.weeklyStates.length - 1];
+
+// Keep options that nothing else matches or beats at lower or equal cost, in order of cost
+const nonDominated = <T>(options: T[], cost: (option: T) => number, benefit: (option: T) => number): T[] => {
+  const sorted = [...options].sort((a, b) => cost(a) - cost(b) || benefit(b) - benefit(a));
+  const kept: T[] = [];
+  sorted.forEach(option => {
+    if (kept.length === 0 || benefit(option) > benefit(kept[kept.length - 1])) kept.push(option);
+  });
+  return kept;
+};
+
+const evaluateSetting = (
+  setting: PortfolioSetting,
+  inputs: PortfolioInputs,
+  config: PortfolioConfig
+): PortfolioPackage[] => {
+  const costParams = inputs.costParams || defaultAICostParameters;
+  const simConfig = { numWeeks: config.numWeeks, population: setting.population, burnIn: config.burnIn, trackCohorts: false };
+  const baselines = inputs.diseases.map(disease =>
+    runSimulation(inputs.deriveParams(setting, disease, toInterventions([])), simConfig)
+  );
+
+  return allToolCombinations().map(tools => {
+    const empty: PortfolioPackage = {
+      settingId: setting.id, tools, aiCost: 0, incrementalCost: 0, deathsAverted: 0, dalysAverted: 0, benefit: 0,
+    };
+    if (tools.length === 0) return empty;
+
+    // Set-up costs and re-investment rounds are paid once per setting, whatever the number of diseases
+    const fixedCost = tools.reduce((sum, tool) => sum + costParams[tool].fixed, 0);
+    let reinvestmentCost = 0;
+
+    const totals = inputs.diseases.reduce((acc, disease, i) => {
+      const params = inputs.deriveParams(setting, disease, toInterventions(tools));
+      const results = runSimulation(params, simConfig);
+      let diseaseReinvestment = 0;
+      for (let week = 0; week < config.numWeeks; week++) {
+        tools.forEach(tool => { diseaseReinvestment += calculateAIReinvestmentCost(params.aiRollout?.effectTrajectories?.[tool], week); });
+      }
+      if (i === 0) reinvestmentCost = diseaseReinvestment;
+      const baseline = baselines[i];
+      return {
+        aiVariable: acc.aiVariable + finalState(results).episodesTouched * params.aiVariableCost,
+        // Each disease run carries the programme costs; they are added back once below
+        incrementalCost: acc.incrementalCost + (results.undiscountedCost ?? results.totalCost) - params.aiFixedCost -
+          diseaseReinvestment - (baseline.undiscountedCost ?? baseline.totalCost),
+        deathsAverted: acc.deathsAverted + baseline.cumulativeDeaths - results.cumulativeDeaths,
+        dalysAverted: acc.dalysAverted + baseline.dalys - results.dalys,
+      };
+    }, { aiVariable: 0, incrementalCost: 0, deathsAverted: 0, dalysAverted: 0 });
+
+    return {
+      ...empty,
+      aiCost: fixedCost + totals.aiVariable + reinvestmentCost,
+      incrementalCost: totals.incrementalCost + fixedCost + reinvestmentCost,
+      deathsAverted: totals.deathsAverted,
+      dalysAverted: totals.dalysAverted,
+      benefit: config.objective === 'deaths' ? totals.deathsAverted : totals.dalysAverted,
+    };
+  });
+};
+
+export const runPortfolioOptimization = (
+  inputs: PortfolioInputs,
+  config: PortfolioConfig
+): PortfolioResults => {
+  const packages: Record<string, PortfolioPackage[]> = {};
+  const settingFrontiers: Record<string, PortfolioPackage[]> = {};
+
+  let portfolios: PortfolioFrontierPoint[] = [{ cost: 0, benefit: 0, packages: [] }];
+  inputs.settings.forEach(setting => {
+    packages[setting.id] = evaluateSetting(setting, inputs, config);
+    settingFrontiers[setting.id] = nonDominated(packages[setting.id], p => p.aiCost, p => p.benefit);
+
+    const combined = portfolios.flatMap(portfolio => settingFrontiers[setting.id].map(option => ({
+      cost: portfolio.cost + option.aiCost,
+      benefit: portfolio.benefit + option.benefit,
+      packages: [...portfolio.packages, option],
+    })));
+    portfolios = nonDominated(combined, p => p.cost, p => p.benefit);
+  });
+
+  const frontier = portfolios.map((point, i) => {
+    const previous = portfolios[i - 1];
+    return previous
+      ? { ...point, costPerUnit: (point.cost - previous.cost) / (point.benefit - previous.benefit) }
+      : point;
+  });
+  const affordable = frontier.filter(point => point.cost <= config.budget);
+  const chosen = affordable[affordable.length - 1] || frontier[0];
+
+  console.log(`Portfolio optimisation complete: ${inputs.settings.length} settings, ${frontier.length} frontier portfolios, ` +
+    `chosen cost ${chosen.cost.toFixed(0)}, ${config.objective} averted ${chosen.benefit.toFixed(1)}`);
+
+  return {
+    objective: config.objective,
+    budget: config.budget,
+    settings: inputs.settings,
+    diseases: inputs.diseases,
+    packages,
+    settingFrontiers,
+    frontier,
+    chosen,
+  };
+};
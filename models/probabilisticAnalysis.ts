@@ -0,0 +1,505 @@
+import {
+  ModelParameters,
+  SimulationResults,
+  AIInterventions,
+  AICostParameters,
+  AIUptakeParameters,
+  AIErrorParameters,
+  AIRolloutSettings,
+  applyAIInterventions,
+  createAIRolloutSchedule,
+  resolveAIRolloutSettings,
+  runSimulation,
+  defaultAICostParameters,
+  defaultAIUptakeParameters,
+  defaultAIErrorParameters,
+  BurnInSettings
+} from './stockAndFlowModel';
+
+// Probabilistic sensitivity analysis (PSA)
+// Each uncertain parameter gets a distribution centred on its current (derived) value.
+// Every draw runs a paired baseline (no AI) and intervention simulation so that
+// incremental costs and health outcomes are computed on the same parameter set.
+
+export type PSADistributionType = 'beta' | 'gamma' | 'lognormal';
+
+export interface PSAParameterDistribution {
+  name: string;                    // ModelParameters key, 'perDiemCosts.L1' for nested, 'aiEffect.<tool>' for AI effect sizes,
+                                   // 'aiUptake.<tool>' for the tool's uptake in AIUptakeParameters
+  label: string;
+  distribution: PSADistributionType;
+  relativeSD: number;              // standard deviation as a fraction of the base value
+}
+
+export interface PSAConfig {
+  iterations: number;
+  numWeeks: number;
+  population: number;
+  burnIn?: BurnInSettings;
+  seed?: number;                   // fixed seed keeps runs reproducible between sessions
+}
+
+export interface PSAInputs {
+  baseParams: ModelParameters;     // parameters BEFORE AI interventions are applied
+  interventions: AIInterventions;
+  effectMagnitudes?: {[key: string]: number};
+  costParams?: AICostParameters;
+  uptakeParams?: AIUptakeParameters;
+  errorParams?: AIErrorParameters;
+  disease?: string;
+  isUrban?: boolean;
+  rolloutSettings?: AIRolloutSettings;  // adoption curves and effect trajectories, as in the main run
+}
+
+export interface PSADraw {
+  sampledValues: Record<string, number>;
+  baselineDeaths: number;
+  baselineDalys: number;
+  baselineCost: number;
+  deaths: number;
+  dalys: number;
+  cost: number;
+  deathsAverted: number;
+  dalysAverted: number;
+  incrementalCost: number;
+  icer: number;                    // raw ratio, negative values are NOT collapsed to a symbolic "dominant" value
+}
+
+export interface PSAInterval {
+  mean: number;
+  lower: number;                   // 2.5th percentile
+  upper: number;                   // 97.5th percentile
+}
+
+export interface PSASummary {
+  iterations: number;
+  deaths: PSAInterval;
+  dalys: PSAInterval;
+  cost: PSAInterval;
+  icer: PSAInterval;               // mean is the ratio of mean incremental cost to mean DALYs averted; the
+                                   // interval bootstraps that ratio and is NaN when it is not defined
+  deathsAverted: PSAInterval;
+  dalysAverted: PSAInterval;
+  incrementalCost: PSAInterval;
+  probabilityDominant: number;     // share of draws that both save money and avert DALYs
+}
+
+export interface PSAResults {
+  draws: PSADraw[];
+  summary: PSASummary;
+  distributions: PSAParameterDistribution[];
+  config: PSAConfig;
+}
+
+// Default uncertainty around the derived parameters
+// Probabilities use beta, costs gamma, AI effect sizes a lognormal multiplier centred on 1, uptake beta
+export const defaultPSADistributions: PSAParameterDistribution[] = [
+  // Care-seeking
+  { name: 'phi0', label: 'Formal Care Entry (φ₀)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'sigmaI', label: 'Informal to Formal (σI)', distribution: 'beta', relativeSD: 0.2 },
+  { name: 'informalCareRatio', label: 'Informal Care Ratio', distribution: 'beta', relativeSD: 0.2 },
+
+  // Resolution
+  { name: 'muU', label: 'Untreated Resolution (μU)', distribution: 'beta', relativeSD: 0.2 },
+  { name: 'muI', label: 'Informal Care Resolution (μI)', distribution: 'beta', relativeSD: 0.2 },
+  { name: 'mu0', label: 'CHW Resolution (μ₀)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'mu1', label: 'Primary Care Resolution (μ₁)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'mu2', label: 'District Hospital Resolution (μ₂)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'mu3', label: 'Tertiary Hospital Resolution (μ₃)', distribution: 'beta', relativeSD: 0.15 },
+
+  // Mortality - the least certain inputs in most LMIC settings
+  { name: 'deltaU', label: 'Untreated Mortality (δU)', distribution: 'beta', relativeSD: 0.3 },
+  { name: 'deltaI', label: 'Informal Care Mortality (δI)', distribution: 'beta', relativeSD: 0.3 },
+  { name: 'delta0', label: 'CHW Mortality (δ₀)', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'delta1', label: 'Primary Care Mortality (δ₁)', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'delta2', label: 'District Hospital Mortality (δ₂)', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'delta3', label: 'Tertiary Hospital Mortality (δ₃)', distribution: 'beta', relativeSD: 0.25 },
+
+  // Referral
+  { name: 'rho0', label: 'CHW Referral (ρ₀)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'rho1', label: 'Primary Care Referral (ρ₁)', distribution: 'beta', relativeSD: 0.15 },
+  { name: 'rho2', label: 'District Hospital Referral (ρ₂)', distribution: 'beta', relativeSD: 0.15 },
+
+  // Costs
+  { name: 'perDiemCosts.I', label: 'Informal Care Cost', distribution: 'gamma', relativeSD: 0.25 },
+  { name: 'perDiemCosts.L0', label: 'CHW Visit Cost', distribution: 'gamma', relativeSD: 0.25 },
+  { name: 'perDiemCosts.L1', label: 'Primary Care Cost', distribution: 'gamma', relativeSD: 0.25 },
+  { name: 'perDiemCosts.L2', label: 'District Hospital Cost', distribution: 'gamma', relativeSD: 0.25 },
+  { name: 'perDiemCosts.L3', label: 'Tertiary Hospital Cost', distribution: 'gamma', relativeSD: 0.25 },
+
+  // AI effect sizes - applied as a multiplier on every effect magnitude of the tool
+  { name: 'aiEffect.triageAI', label: 'Triage AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+  { name: 'aiEffect.chwAI', label: 'CHW AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+  { name: 'aiEffect.diagnosticAI', label: 'Diagnostic AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+  { name: 'aiEffect.bedManagementAI', label: 'Bed Management AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+  { name: 'aiEffect.hospitalDecisionAI', label: 'Hospital Decision AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+  { name: 'aiEffect.selfCareAI', label: 'Self-Care AI Effect Size', distribution: 'lognormal', relativeSD: 0.3 },
+
+  // AI uptake - the share of patients or providers who use each tool
+  { name: 'aiUptake.triageAI', label: 'Triage AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'aiUptake.chwAI', label: 'CHW AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'aiUptake.diagnosticAI', label: 'Diagnostic AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'aiUptake.bedManagementAI', label: 'Bed Management AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'aiUptake.hospitalDecisionAI', label: 'Hospital Decision AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+  { name: 'aiUptake.selfCareAI', label: 'Self-Care AI Uptake', distribution: 'beta', relativeSD: 0.25 },
+];
+
+// Effect magnitude keys read by applyAIInterventions, grouped by tool
+// Keep in sync with the applyMagnitude calls in stockAndFlowModel.ts
+export const aiEffectMagnitudeKeys: Record<keyof AIInterventions, string[]> = {
+  triageAI: ['triageAI_φ₀', 'triageAI_σI', 'triageAI_queuePrevention', 'triageAI_smartRouting'],
+  chwAI: ['chwAI_μ₀', 'chwAI_δ₀', 'chwAI_ρ₀', 'chwAI_resolutionBoost', 'chwAI_referralOptimization'],
+  diagnosticAI: [
+    'diagnosticAI_μ₁', 'diagnosticAI_δ₁', 'diagnosticAI_ρ₁', 'diagnosticAI_μ₂', 'diagnosticAI_δ₂',
+    'diagnosticAI_ρ₂', 'diagnosticAI_pointOfCareResolution', 'diagnosticAI_referralPrecision'
+  ],
+  bedManagementAI: ['bedManagementAI_μ₂', 'bedManagementAI_μ₃', 'bedManagementAI_lengthOfStay', 'bedManagementAI_discharge'],
+  hospitalDecisionAI: ['hospitalDecisionAI_δ₂', 'hospitalDecisionAI_δ₃', 'hospitalDecisionAI_treatment', 'hospitalDecisionAI_resource'],
+  selfCareAI: [
+    'selfCareAI_φ₀', 'selfCareAI_σI', 'selfCareAI_queuePrevention', 'selfCareAI_smartRouting', 'selfCareAI_μI',
+    'selfCareAI_δI', 'selfCareAI_μ₀', 'selfCareAI_δ₀', 'selfCareAI_μ₁', 'selfCareAI_δ₁', 'selfCareAI_μ₂',
+    'selfCareAI_δ₂', 'selfCareAI_visitReduction', 'selfCareAI_directRoutingImprovement'
+  ],
+};
+
+// Seeded uniform random number generator (mulberry32)
+export const createRandomGenerator = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+const sampleStandardNormal = (random: () => number): number => {
+  const u1 = Math.max(random(), 1e-12);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Gamma(shape, scale) draw (Marsaglia-Tsang, with the shape < 1 boost)
+const sampleGammaShapeScale = (shape: number, scale: number, random: () => number): number => {
+  if (shape < 1) {
+    const u = Math.max(random(), 1e-12);
+    return sampleGammaShapeScale(shape + 1, scale, random) * Math.pow(u, 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  let sample: number | undefined;
+  while (sample === undefined) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      sample = d * v * scale;
+    }
+  }
+  return sample;
+};
+
+// Beta draw by method of moments; the mean must lie strictly inside (0, 1)
+export const sampleBeta = (mean: number, sd: number, random: () => number): number => {
+  if (mean <= 0 || mean >= 1 || sd <= 0) return mean;
+  // Variance must stay below mean*(1-mean) for a valid beta distribution
+  const variance = Math.min(sd * sd, mean * (1 - mean) * 0.9);
+  const common = (mean * (1 - mean)) / variance - 1;
+  const alpha = mean * common;
+  const beta = (1 - mean) * common;
+  const x = sampleGammaShapeScale(alpha, 1, random);
+  const y = sampleGammaShapeScale(beta, 1, random);
+  return x + y > 0 ? x / (x + y) : mean;
+};
+
+// Gamma draw by method of moments; used for non-negative costs
+export const sampleGamma = (mean: number, sd: number, random: () => number): number => {
+  if (mean <= 0 || sd <= 0) return mean;
+  const shape = (mean * mean) / (sd * sd);
+  const scale = (sd * sd) / mean;
+  return sampleGammaShapeScale(shape, scale, random);
+};
+
+// Lognormal draw with the given arithmetic mean and standard deviation
+export const sampleLogNormal = (mean: number, sd: number, random: () => number): number => {
+  if (mean <= 0 || sd <= 0) return mean;
+  const sigmaSq = Math.log(1 + (sd * sd) / (mean * mean));
+  const mu = Math.log(mean) - sigmaSq / 2;
+  return Math.exp(mu + Math.sqrt(sigmaSq) * sampleStandardNormal(random));
+};
+
+const sampleFromDistribution = (
+  distribution: PSADistributionType,
+  mean: number,
+  sd: number,
+  random: () => number
+): number => {
+  switch (distribution) {
+    case 'beta':
+      return sampleBeta(mean, sd, random);
+    case 'gamma':
+      return sampleGamma(mean, sd, random);
+    case 'lognormal':
+      return sampleLogNormal(mean, sd, random);
+    default:
+      return mean;
+  }
+};
+
+// Read a (possibly nested) numeric parameter such as 'perDiemCosts.L1'
+export const getParameterValue = (params: ModelParameters, name: string): number | undefined => {
+  if (name.includes('.')) {
+    const [objectName, propertyName] = name.split('.');
+    const obj = params[objectName as keyof ModelParameters];
+    const value = obj && typeof obj === 'object' ? (obj as Record<string, unknown>)[propertyName] : undefined;
+    return typeof value === 'number' ? value : undefined;
+  }
+  const value = params[name as keyof ModelParameters];
+  return typeof value === 'number' ? value : undefined;
+};
+
+// Return a copy of params with a (possibly nested) numeric parameter replaced
+export const setParameterValue = (params: ModelParameters, name: string, value: number): ModelParameters => {
+  if (name.includes('.')) {
+    const [objectName, propertyName] = name.split('.');
+    const objectKey = objectName as keyof ModelParameters;
+    const currentObj = params[objectKey];
+    if (currentObj && typeof currentObj === 'object') {
+      return { ...params, [objectKey]: { ...currentObj, [propertyName]: value } };
+    }
+    return params;
+  }
+  return { ...params, [name]: value };
+};
+
+// Weekly exits from each stock, as in the outflow_sum validation rule
+const stockOutflows: string[][] = [
+  ['muU', 'deltaU'],
+  ['sigmaI', 'muI', 'deltaI'],
+  ['mu0', 'delta0', 'rho0'],
+  ['mu1', 'delta1', 'rho1'],
+  ['mu2', 'delta2', 'rho2'],
+  ['mu3', 'delta3'],
+];
+
+// Exits are drawn one by one, so together they can leave a stock faster than it empties. Scale any
+// stock's exits that add up to more than 1 back to a total of 1, keeping their proportions, and
+// record the values actually used.
+const renormaliseOutflows = (params: ModelParameters, sampledValues: Record<string, number>): ModelParameters => {
+  let renormalised = params;
+  stockOutflows.forEach(rates => {
+    const total = rates.reduce((sum, rate) => sum + (getParameterValue(params, rate) || 0), 0);
+    if (total <= 1) return;
+    rates.forEach(rate => {
+      const value = (getParameterValue(params, rate) || 0) / total;
+      renormalised = setParameterValue(renormalised, rate, value);
+      if (sampledValues[rate] !== undefined) sampledValues[rate] = value;
+    });
+  });
+  return renormalised;
+};
+
+// Percentile of an already sorted array (linear interpolation)
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const summarizeInterval = (values: number[]): PSAInterval => {
+  const finite = values.filter(v => isFinite(v));
+  if (finite.length === 0) return { mean: 0, lower: 0, upper: 0 };
+  const sorted = finite.slice().sort((a, b) => a - b);
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  return {
+    mean,
+    lower: percentile(sorted, 0.025),
+    upper: percentile(sorted, 0.975),
+  };
+};
+
+// Bootstrap interval for the ratio of mean incremental cost to mean DALYs averted.
+// Whole draws are resampled so each cost stays paired with its own effect. Percentiles of per-draw ICERs
+// are not used: ratios of opposite-signed pairs mix dominant and dominated draws on one scale.
+// When resampled mean DALYs averted reach zero or change sign the ratio has no ordered interval (NaN);
+// the CE plane and CEAC then describe the uncertainty.
+export const bootstrapICERInterval = (
+  draws: Pick<PSADraw, 'incrementalCost' | 'dalysAverted'>[],
+  random: () => number,
+  resamples: number = 1000
+): Pick<PSAInterval, 'lower' | 'upper'> => {
+  const undefinedInterval = { lower: NaN, upper: NaN };
+  if (draws.length === 0) return undefinedInterval;
+  const ratios: number[] = [];
+  let effectSign = 0;
+  for (let b = 0; b < resamples; b++) {
+    let cost = 0;
+    let effect = 0;
+    for (let j = 0; j < draws.length; j++) {
+      const draw = draws[Math.floor(random() * draws.length)];
+      cost += draw.incrementalCost;
+      effect += draw.dalysAverted;
+    }
+    const sign = Math.sign(effect);
+    if (sign === 0 || (effectSign !== 0 && sign !== effectSign)) return undefinedInterval;
+    effectSign = sign;
+    ratios.push(cost / effect);
+  }
+  const sorted = ratios.sort((a, b) => a - b);
+  return { lower: percentile(sorted, 0.025), upper: percentile(sorted, 0.975) };
+};
+
+// Run the Monte Carlo PSA
+export const runProbabilisticSensitivityAnalysis = (
+  inputs: PSAInputs,
+  config: PSAConfig,
+  distributions: PSAParameterDistribution[] = defaultPSADistributions
+): PSAResults => {
+  const random = createRandomGenerator(config.seed !== undefined ? config.seed : 20240601);
+  const effectMagnitudes = inputs.effectMagnitudes || {};
+  const costParams = inputs.costParams || defaultAICostParameters;
+  const uptakeParams = inputs.uptakeParams || defaultAIUptakeParameters;
+  const errorParams = inputs.errorParams || defaultAIErrorParameters;
+  const isUrban = inputs.isUrban !== undefined ? inputs.isUrban : true;
+  const draws: PSADraw[] = [];
+
+  for (let i = 0; i < config.iterations; i++) {
+    let sampledParams = { ...inputs.baseParams };
+    const sampledMagnitudes = { ...effectMagnitudes };
+    const sampledUptake = { ...uptakeParams };
+    const sampledValues: Record<string, number> = {};
+
+    distributions.forEach(dist => {
+      if (dist.name.startsWith('aiEffect.')) {
+        // AI effect sizes: one multiplier per tool applied on top of the user's magnitudes
+        const tool = dist.name.split('.')[1] as keyof AIInterventions;
+        const multiplier = sampleFromDistribution(dist.distribution, 1, dist.relativeSD, random);
+        sampledValues[dist.name] = multiplier;
+        (aiEffectMagnitudeKeys[tool] || []).forEach(key => {
+          const userMagnitude = effectMagnitudes[key] !== undefined ? effectMagnitudes[key] : 1;
+          sampledMagnitudes[key] = userMagnitude * multiplier;
+        });
+        return;
+      }
+
+      if (dist.name.startsWith('aiUptake.')) {
+        const tool = dist.name.split('.')[1] as keyof AIInterventions;
+        const value = sampleFromDistribution(dist.distribution, uptakeParams[tool], uptakeParams[tool] * dist.relativeSD, random);
+        sampledValues[dist.name] = value;
+        sampledUptake[tool] = value;
+        return;
+      }
+
+      const baseValue = getParameterValue(inputs.baseParams, dist.name);
+      if (baseValue === undefined) return;
+      const value = sampleFromDistribution(dist.distribution, baseValue, baseValue * dist.relativeSD, random);
+      sampledValues[dist.name] = value;
+      sampledParams = setParameterValue(sampledParams, dist.name, value);
+    });
+    sampledParams = renormaliseOutflows(sampledParams, sampledValues);
+
+    const simConfig = { numWeeks: config.numWeeks, population: config.population, burnIn: config.burnIn, trackCohorts: false };
+    const baselineResult: SimulationResults = runSimulation(sampledParams, simConfig);
+    const interventionParams = applyAIInterventions(
+      sampledParams,
+      inputs.interventions,
+      sampledMagnitudes,
+      costParams,
+      undefined,
+      inputs.disease,
+      sampledUptake,
+      isUrban,
+      errorParams
+    );
+    // Ramp up and wear off the sampled effects exactly as the main run does
+    const rolloutSettings = resolveAIRolloutSettings(sampledParams, inputs.rolloutSettings);
+    interventionParams.aiRollout = rolloutSettings && Object.values(inputs.interventions).some(active => active)
+      ? createAIRolloutSchedule(
+          sampledParams, inputs.interventions, rolloutSettings, sampledMagnitudes, costParams, undefined, inputs.disease, sampledUptake, isUrban, errorParams
+        )
+      : undefined;
+    const interventionResult: SimulationResults = runSimulation(interventionParams, simConfig);
+
+    const incrementalCost = interventionResult.totalCost - baselineResult.totalCost;
+    const dalysAverted = baselineResult.dalys - interventionResult.dalys;
+
+    draws.push({
+      sampledValues,
+      baselineDeaths: baselineResult.cumulativeDeaths,
+      baselineDalys: baselineResult.dalys,
+      baselineCost: baselineResult.totalCost,
+      deaths: interventionResult.cumulativeDeaths,
+      dalys: interventionResult.dalys,
+      cost: interventionResult.totalCost,
+      deathsAverted: baselineResult.cumulativeDeaths - interventionResult.cumulativeDeaths,
+      dalysAverted,
+      incrementalCost,
+      icer: dalysAverted !== 0 ? incrementalCost / dalysAverted : Infinity,
+    });
+  }
+
+  const incrementalCostInterval = summarizeInterval(draws.map(d => d.incrementalCost));
+  const dalysAvertedInterval = summarizeInterval(draws.map(d => d.dalysAverted));
+  const icerInterval = bootstrapICERInterval(draws, random);
+
+  const summary: PSASummary = {
+    iterations: draws.length,
+    deaths: summarizeInterval(draws.map(d => d.deaths)),
+    dalys: summarizeInterval(draws.map(d => d.dalys)),
+    cost: summarizeInterval(draws.map(d => d.cost)),
+    icer: {
+      ...icerInterval,
+      // Ratio of means is the standard point estimate; the mean of ratios is unstable near zero effect
+      mean: dalysAvertedInterval.mean !== 0 ? incrementalCostInterval.mean / dalysAvertedInterval.mean : Infinity,
+    },
+    deathsAverted: summarizeInterval(draws.map(d => d.deathsAverted)),
+    dalysAverted: dalysAvertedInterval,
+    incrementalCost: incrementalCostInterval,
+    probabilityDominant: draws.length > 0
+      ? draws.filter(d => d.incrementalCost < 0 && d.dalysAverted > 0).length / draws.length
+      : 0,
+  };
+
+  console.log(`PSA complete: ${draws.length} draws, mean deaths averted ${summary.deathsAverted.mean.toFixed(1)}, ICER ${summary.icer.mean.toFixed(0)}`);
+
+  return { draws, summary, distributions, config };
+};
+
+// Cost-effectiveness acceptability curve (CEAC)
+export interface CEACPoint {
+  wtp: number;                       // willingness to pay per DALY averted
+  probabilityCostEffective: number;  // share of draws with positive net monetary benefit
+}
+
+// Net monetary benefit of the AI package for one draw at a given WTP
+export const calculateNetMonetaryBenefit = (draw: PSADraw, wtp: number): number => {
+  return wtp * draw.dalysAverted - draw.incrementalCost;
+};
+
+export const calculateCEAC = (draws: PSADraw[], wtpValues: number[]): CEACPoint[] => {
+  return wtpValues.map(wtp => ({
+    wtp,
+    probabilityCostEffective: draws.length > 0
+      ? draws.filter(draw => calculateNetMonetaryBenefit(draw, wtp) > 0).length / draws.length
+      : 0,
+  }));
+};
+
+// Evenly spaced WTP values from 0 to maxWtp for plotting the CEAC
+export const buildWTPRange = (maxWtp: number, steps: number = 30): number[] => {
+  const values: number[] = [];
+  for (let i = 0; i <= steps; i++) {
+    values.push((maxWtp * i) / steps);
+  }
+  return values;
+};
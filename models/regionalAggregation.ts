@@ -0,0 +1,119 @@
+import {
+  NationalSettingInputs,
+  NationalAggregationConfig,
+  NationalAggregationResults,
+  NationalSettingResults,
+  NationalTotals,
+  runNationalAggregation,
+  combineNationalTotals,
+  calculateNationalEquity
+} from './nationalAggregation';
+
+// Sub-national regions
+// A country can be split into regions (states, zones, counties) that differ more than countries do,
+// such as Nigeria's north and south. Each region runs the urban and rural settings for its own
+// population and urban share, with incidence scaled by its multiplier and health system congestion
+// or capacity scaled by its facility density. Region results add up to national totals.
+
+export interface Region {
+  id: string;
+  name: string;
+  population: number;
+  urbanShare: number;              // share of the region's population in urban settings, 0-1
+  incidenceMultiplier: number;     // incidence relative to the national rate
+  facilityDensity: number;         // facilities, beds and clinicians per person relative to the national average
+  diseaseIncidenceMultipliers?: Record<string, number>; // replaces incidenceMultiplier for these diseases
+}
+
+export interface RegionPreset extends Omit<Region, 'id' | 'population'> {
+  populationShare: number;         // share of the national population
+}
+
+// Illustrative starting points from the zonal pattern in the Nigeria DHS 2018 (higher child
+// mortality, malaria parasitaemia and pneumonia burden in the north, fewer facilities per person);
+// replace with state or zonal estimates for real analyses. Population-weighted multipliers average about 1.
+export const regionPresets: Record<string, RegionPreset[]> = {
+  nigeria: [
+    {
+      name: 'North (NW, NE, NC)',
+      populationShare: 0.53,
+      urbanShare: 0.35,
+      incidenceMultiplier: 1.25,
+      facilityDensity: 0.7,
+      diseaseIncidenceMultipliers: { malaria: 1.4, childhood_pneumonia: 1.3 },
+    },
+    {
+      name: 'South (SW, SE, SS)',
+      populationShare: 0.47,
+      urbanShare: 0.65,
+      incidenceMultiplier: 0.75,
+      facilityDensity: 1.35,
+      diseaseIncidenceMultipliers: { malaria: 0.55, childhood_pneumonia: 0.65 },
+    },
+  ],
+};
+
+export const regionIncidenceMultiplier = (region: Region, disease: string): number =>
+  region.diseaseIncidenceMultipliers?.[disease] ?? region.incidenceMultiplier;
+
+// Congestion rises with demand and falls with the facilities to meet it, capped like the default congestion
+export const regionCongestion = (congestion: number, region: Region, disease: string): number =>
+  Math.min(0.9, (congestion * regionIncidenceMultiplier(region, disease)) / Math.max(0.1, region.facilityDensity));
+
+export interface RegionInputs {
+  region: Region;
+  settings: NationalSettingInputs[]; // urban and rural, with populationShare of the region
+}
+
+export interface RegionResults extends NationalAggregationResults {
+  region: Region;
+}
+
+export interface RegionalGap {
+  highestBurdenRegionId: string;   // most deaths per 100,000 without AI
+  lowestBurdenRegionId: string;
+  baselineGapPer100k: number;      // highest minus lowest burden region, deaths per 100,000 without AI
+  interventionGapPer100k: number;  // the same two regions with AI
+}
+
+export interface RegionalAggregationResults {
+  regions: RegionResults[];
+  national: NationalAggregationResults; // urban and rural settings summed across regions
+  gap: RegionalGap | null;              // null with fewer than two populated regions
+}
+
+export const runRegionalAggregation = (
+  inputs: RegionInputs[],
+  config: Omit<NationalAggregationConfig, 'population'>
+): RegionalAggregationResults => {
+  const regions: RegionResults[] = inputs.map(({ region, settings }) => ({
+    region,
+    ...runNationalAggregation(settings, { ...config, population: region.population }),
+  }));
+
+  const national = combineNationalTotals(regions.map(r => r.national));
+  const settings: NationalSettingResults[] = (['urban', 'rural'] as const).map(setting => {
+    const totals: NationalTotals = combineNationalTotals(
+      regions.flatMap(r => r.settings.filter(s => s.setting === setting))
+    );
+    return { setting, populationShare: national.population > 0 ? totals.population / national.population : 0, ...totals };
+  });
+  const equity = calculateNationalEquity(settings[0], settings[1], national);
+
+  const populated = [...regions]
+    .filter(r => r.national.population > 0)
+    .sort((a, b) => b.national.baselineDeathsPer100k - a.national.baselineDeathsPer100k);
+  const highest = populated[0];
+  const lowest = populated[populated.length - 1];
+  const gap = populated.length > 1 ? {
+    highestBurdenRegionId: highest.region.id,
+    lowestBurdenRegionId: lowest.region.id,
+    baselineGapPer100k: highest.national.baselineDeathsPer100k - lowest.national.baselineDeathsPer100k,
+    interventionGapPer100k: highest.national.interventionDeathsPer100k - lowest.national.interventionDeathsPer100k,
+  } : null;
+
+  console.log(`Regional aggregation complete: ${regions.length} regions, ${national.deathsAverted.toFixed(1)} deaths averted` +
+    (gap ? `, regional gap ${gap.baselineGapPer100k.toFixed(1)} -> ${gap.interventionGapPer100k.toFixed(1)} per 100k` : ''));
+
+  return { regions, national: { settings, national, equity }, gap };
+};
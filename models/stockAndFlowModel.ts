@@ -26,6 +26,15 @@ export interface StockAndFlowState {
     L3: number;  // patients waiting for tertiary hospital
   };
   queueRelatedDeaths?: number; // Cumulative deaths due to queue delays
+  // Chronic care: where resolved patients are now (both are part of R, but not reset after burn-in)
+  controlled?: number;  // in ongoing care with the condition controlled; can decompensate
+  remission?: number;   // resolved and out of care; can relapse
+  relapses?: number;    // relapses and decompensations this week (returning episodes, on top of newCases)
+  controlledWeeks?: number; // accumulated weeks in controlled care, for its cost
+  aiReinvestmentCost?: number; // accumulated spending on restoring AI effects (refresher training, re-engagement)
+  // Transmission: lagged infectious prevalence (TB) or share of mosquitoes infectious (malaria), not reset after burn-in
+  transmissionPressure?: number;
+  transmissionReference?: number; // infectious prevalence at the end of the burn-in, where incidence equals lambda
 }
 
 export interface ModelParameters {
@@ -77,11 +86,79 @@ export interface ModelParameters {
   aiFixedCost: number;        // fixed cost of AI implementation
   aiVariableCost: number;     // variable cost per episode touched by AI
   discountRate: number;       // annual discount rate for economic calculations
+  costDiscountRate?: number;  // annual discount rate for costs (defaults to discountRate)
+  healthDiscountRate?: number; // annual discount rate for DALYs (defaults to discountRate)
+  halfCycleCorrection?: boolean; // discount each week's flows from mid-week rather than week end
   yearsOfLifeLost: number;    // base YLL parameter (will be adjusted by meanAgeOfInfection)
   regionalLifeExpectancy: number; // region-specific life expectancy
   
+  // Household financial protection
+  userFees?: {                 // user fee per admission at each level
+    L0: number;
+    L1: number;
+    L2: number;
+    L3: number;
+  };
+  costTransport?: number;      // household transport cost per facility admission (L1-L3)
+  oopShare?: number;           // share of formal care per-diem costs paid out of pocket (informal care is paid in full)
+  catastrophicThreshold?: number; // spending above this share of capacity to pay is catastrophic (WHO: 0.4)
+  costPerCapitaGDP?: number;   // annual income per person; taken from the country profile when country-specific
+  householdSize?: number;      // people sharing one household income
+  foodShare?: number;          // share of household income spent on food; capacity to pay is the rest
+  incomeLogSD?: number;        // standard deviation of log household income
+  
+  // Costing perspective: 'societal' adds household time and productivity losses to total cost
+  costingPerspective?: CostingPerspective; // default 'health_system'
+  patientTimePerVisit?: number;  // days spent travelling and waiting per admission
+  caregiverTimeShare?: number;   // caregiver days per facility patient day (L1-L3)
+  labourForceParticipation?: number; // share of illness and life years that would have been spent working
+  retirementAge?: number;        // working years lost to a death run from meanAgeOfInfection (15 at the earliest) to this age
+  
+  // Chronic conditions: resolved episodes can come back (off unless relapseRate or controlledShare is set)
+  relapseRate?: number;          // weekly probability of relapse for patients in remission
+  controlledShare?: number;      // share of patients resolved in formal care (L0-L3) who stay in ongoing care, controlled
+  decompensationRate?: number;   // weekly probability a controlled patient loses control (missed refills, dropping out of care)
+  relapseToInformalShare?: number; // share of relapses that go straight to informal care; the rest are untreated (default 0.5)
+  controlledCareCost?: number;   // weekly cost of keeping one patient controlled (drugs, follow-up visits)
+  
+  // Prevalence mode for chronic conditions (modelVariant 'prevalence'); rates are weekly unless stated.
+  // The people living with the condition are followed through scheduled care instead of episodes from
+  // lambda; controlledCareCost is the weekly treatment cost of each adherent patient.
+  modelVariant?: ModelVariant;   // default 'incidence'
+  initialPrevalence?: number;    // share of the population living with the condition at the start
+  chronicIncidence?: number;     // annual new cases per person without the condition
+  diagnosedShare?: number;       // share of prevalent cases in care at the start
+  diagnosisRate?: number;        // undiagnosed cases diagnosed and started on care
+  visitsPerYear?: number;        // scheduled visits per patient in care
+  l0VisitShare?: number;         // share of scheduled visits done by CHWs; the rest are at primary care
+  adherenceLossRate?: number;    // adherent patients who stop taking treatment as prescribed
+  adherenceRecovery?: number;    // chance a scheduled visit gets a non-adherent patient back on treatment
+  lossToFollowUpRate?: number;   // patients in care who stop attending
+  returnToCareRate?: number;     // patients lost to follow-up who come back to care
+  controlProbability?: number;   // share of adherent patients whose condition is controlled
+  complicationRate?: number;     // complications (stroke, heart failure, opportunistic infection) when uncontrolled
+  controlledComplicationRR?: number; // relative risk of complications when controlled
+  complicationWeeks?: number;    // average weeks in hospital per complication
+  complicationL3Share?: number;  // share of complications treated at tertiary level; the rest at district
+  complicationMortality?: number; // share of complications that are fatal
+  otherCauseMortality?: number;  // annual deaths from other causes among people with the condition
+  uncontrolledDisabilityWeight?: number; // disability while uncontrolled (defaults to disabilityWeight)
+  controlledDisabilityWeight?: number;   // disability while controlled
+  complicationDisabilityWeight?: number; // disability during a complication
+  
+  // Transmission (off unless transmissionModel is set): the burn-in runs at lambda, and from week 0
+  // incidence follows how many people can pass the infection on, relative to the infectious
+  // prevalence the model reached at the end of the burn-in.
+  transmissionModel?: TransmissionModel; // default 'none'
+  transmissionShare?: number;    // share of incidence from ongoing transmission; the rest (reactivation, reservoir) stays at lambda (default 1)
+  careInfectiousness?: number;   // infectiousness of patients at L0-L1 not yet on effective treatment, relative to U and I (default 0)
+  transmissionDelayWeeks?: number; // TB: average weeks from infection to disease (default 52)
+  mosquitoInfectionRate?: number; // malaria: weekly rate mosquitoes are infected per unit of human infectious prevalence (default 2)
+  mosquitoDeathRate?: number;    // malaria: weekly probability an adult mosquito dies (default 0.5)
+  
   // System capacity parameters
   systemCongestion?: number;   // 0-1, where 0 = no congestion, 1 = completely full
+  levelCapacity?: LevelCapacity; // absolute capacity per level; when set, congestion is simulated instead of assumed
   
   // Disease-specific capacity parameters
   capacityShare?: number;      // This disease's share of overall health system capacity
@@ -109,28 +186,118 @@ export interface ModelParameters {
   dischargeOptimization?: number;      // Bed Management AI: faster discharge
   treatmentEfficiency?: number;        // Hospital Decision AI: faster recovery
   resourceUtilization?: number;        // Hospital Decision AI: better bed utilization
+  
+  // AI error rates, already scaled by uptake (set by applyAIInterventions)
+  triageUnderReferral?: number;        // Triage AI: share of formal care seekers wrongly told to stay home
+  triageOverReferral?: number;         // Triage AI: share of CHW-level entries wrongly sent to primary care
+  diagnosticMissedReferral?: number;   // Diagnostic AI: share of needed L1 referrals sent home instead (1 - sensitivity)
+  diagnosticFalseReferral?: number;    // Diagnostic AI: share of L1 resolutions referred on instead (1 - specificity)
+  selfCareFalseReassurance?: number;   // Self-care AI: share of those advised to stay home who stay ill in informal care
+  
+  // Time-varying forcing (seasonality, shocks) applied on top of the values above each week
+  forcing?: Partial<Record<ForcibleParameter, ParameterForcing>>;
+  
+  // AI adoption curve: when set, AI effects and variable costs ramp up from week 0 instead of starting at full uptake
+  aiRollout?: AIRolloutSchedule;
+  aiReinvestmentCost?: number;   // this week's AI re-investment spending (set by applyAIRollout)
+}
+
+// Whose costs count: the health system's only, or also households' time and lost production
+export type CostingPerspective = 'health_system' | 'societal';
+
+// How a disease is simulated: 'incidence' follows new episodes from onset to resolution or death;
+// 'prevalence' follows the people living with a chronic condition through scheduled care
+export type ModelVariant = 'incidence' | 'prevalence';
+
+// Where new cases come from: fixed at lambda ('none'), or passed on by untreated and informally
+// treated cases, directly for TB and through mosquitoes for malaria
+export type TransmissionModel = 'none' | 'tb' | 'malaria';
+
+// Parameters that can vary over the simulated weeks
+export type ForcibleParameter =
+  | 'lambda' | 'phi0' | 'sigmaI' | 'informalCareRatio'
+  | 'muU' | 'deltaU' | 'muI' | 'deltaI'
+  | 'mu0' | 'delta0' | 'rho0'
+  | 'mu1' | 'delta1' | 'rho1'
+  | 'mu2' | 'delta2' | 'rho2'
+  | 'mu3' | 'delta3';
+
+export const forcibleParameters: ForcibleParameter[] = [
+  'lambda', 'phi0', 'sigmaI', 'informalCareRatio',
+  'muU', 'deltaU', 'muI', 'deltaI',
+  'mu0', 'delta0', 'rho0',
+  'mu1', 'delta1', 'rho1',
+  'mu2', 'delta2', 'rho2',
+  'mu3', 'delta3',
+];
+
+// Smooth seasonal cycle: multiplier = 1 + amplitude * cos(2π (week - peakWeek) / period)
+export interface SinusoidalForcing {
+  type: 'sinusoid';
+  amplitude: number;     // relative swing around the base value (0.5 = ±50%)
+  peakWeek: number;      // week of the cycle with the highest value
+  periodWeeks?: number;  // cycle length in weeks (default 52)
+}
+
+// Step schedule: each multiplier holds from its fromWeek until the next step (1 before the first)
+export interface PiecewiseForcing {
+  type: 'piecewise';
+  steps: { fromWeek: number; multiplier: number }[];
+  repeatAnnually?: boolean; // wrap the schedule every 52 weeks instead of running once
+}
+
+export type ParameterForcing = SinusoidalForcing | PiecewiseForcing;
+
+// Absolute capacity at each level of care, in patients that can be under care in a given week
+// (CHW caseload at L0, clinician caseload at L1, occupied beds at L2/L3)
+export interface LevelCapacity {
+  L0: number;
+  L1: number;
+  L2: number;
+  L3: number;
+}
+
+// How the model reaches its starting point before week 0.
+// 'none' is a cold start (e.g. a new programme launch), 'fixed' runs a set number of weeks and
+// 'auto' runs until no stock changes by more than the tolerance from one week (or season) to the next.
+export type BurnInMode = 'none' | 'fixed' | 'auto';
+
+export interface BurnInSettings {
+  mode: BurnInMode;
+  weeks?: number;             // fixed mode: burn-in length (default 52)
+  tolerance?: number;         // auto mode: largest relative weekly change in any stock (default 1e-4)
+  maxWeeks?: number;          // auto mode: stop here even if not converged (default 520)
 }
 
 export interface SimulationConfig {
   numWeeks: number;           // number of weeks to simulate
   population: number;         // population size
   initialState?: Partial<StockAndFlowState>;  // optional initial state
+  burnIn?: BurnInSettings;    // default: fixed 52 weeks (transmission always runs to steady state)
+  trackCohorts?: boolean;     // follow onset cohorts for time to resolution (default true); runs that only
+                              // need costs and outcomes, like PSA draws, can skip it (averageTimeToResolution is then 0)
+  attributeAIHarms?: boolean; // rerun with error-free AI to count the deaths and DALYs caused by AI errors
 }
 
 export interface SimulationResults {
   weeklyStates: StockAndFlowState[];
   cumulativeDeaths: number;
   cumulativeResolved: number;
-  averageTimeToResolution: number;  // Average weeks from symptom onset to resolution
+  averageTimeToResolution: number;  // Average weeks from symptom onset to resolution (cohort mean)
                                     // Clinical reference points: 
                                     // - Diarrhea: ~1-1.5 weeks with treatment
                                     // - Pneumonia: ~2-3 weeks with antibiotics
                                     // - Tuberculosis: ~24-26 weeks with treatment
                                     // - Maternal conditions: ~2-6 weeks depending on severity
-  totalCost: number;
-  dalys: number;
+  totalCost: number;                // discounted at the cost discount rate
+  dalys: number;                    // discounted at the health discount rate
+  undiscountedCost?: number;
+  undiscountedDalys?: number;
   icer?: number;              // only populated when comparing to baseline
   rawIcerValue?: number;      // raw calculated ICER value before any adjustments
+  incrementalCost?: number;         // intervention cost minus baseline cost
+  incrementalDalysAverted?: number; // baseline DALYs minus intervention DALYs
+  cePlaneQuadrant?: CEPlaneQuadrant; // where the comparison sits on the cost-effectiveness plane
   
   // Capacity utilization metrics
   averageQueueLength?: {
@@ -147,6 +314,190 @@ export interface SimulationResults {
   };
   totalQueuedPatients?: number; // Total patients who experienced queuing
   queueRelatedDeaths?: number;  // Deaths attributed to queue delays
+  
+  // Explicit capacity outputs (only when levelCapacity is set)
+  capacityUtilization?: {       // average occupancy / capacity per level
+    L0: number;
+    L1: number;
+    L2: number;
+    L3: number;
+  };
+  simulatedCongestion?: number; // average congestion produced by the simulation (0-1)
+  capacityAccess?: Record<string, LevelCapacity>; // coupled runs: share of each disease's demand served per level
+  diagnostics?: SimulationDiagnostics; // mass-balance and invariant checks over every simulated week
+  timeToResolution?: TimeToResolutionDistribution; // onset cohorts followed through the simulated flows
+  weeklyFlows?: WeeklyFlows[];      // flows of each reported week
+  deathsByLocation?: Record<OutcomeLocation, number>;      // adds up to cumulativeDeaths
+  resolutionsByLocation?: Record<OutcomeLocation, number>; // adds up to cumulativeResolved
+  burnInWeeks?: number;             // weeks simulated before week 0
+  burnInConverged?: boolean;        // auto burn-in only: whether steady state was reached within maxWeeks
+  financialProtection?: FinancialProtectionOutcomes; // household out-of-pocket spending over the reported weeks
+  costingPerspective?: CostingPerspective; // perspective of totalCost
+  societalCosts?: SocietalCosts;    // undiscounted; part of totalCost only under the societal perspective
+  catastrophicCasesAverted?: number; // only populated when comparing to baseline
+  chronicCare?: ChronicCareOutcomes; // only when relapses or controlled care are modelled
+  prevalenceOutcomes?: PrevalenceOutcomes; // prevalence mode only
+  complicationsAverted?: number;    // prevalence mode, only populated when comparing to baseline
+  transmission?: TransmissionOutcomes; // only when transmission is modelled
+  casesAverted?: number;            // transmission only, populated when comparing to baseline
+  aiHarms?: AIHarmOutcomes;         // only when an active AI tool has a non-zero error rate
+}
+
+// Patients misrouted by AI errors (people per week, or totals over the reported weeks)
+export interface AIMisroutedPatients {
+  underReferred: number;     // triage AI: told to stay home, left untreated
+  overReferred: number;      // triage AI: sent past the CHW to primary care
+  missedReferrals: number;   // diagnostic AI: sent home from primary care instead of referred
+  falseReferrals: number;    // diagnostic AI: referred on instead of treated at primary care
+  falselyReassured: number;  // self-care AI: kept in informal care while needing formal care
+}
+
+// AI errors over the reported weeks
+export interface AIHarmOutcomes extends AIMisroutedPatients {
+  misrouted: number;         // all misrouted patients
+  excessDeaths?: number;     // deaths against the same run with error-free AI (attributeAIHarms only)
+  excessDalys?: number;      // discounted, like dalys (attributeAIHarms only)
+}
+
+// Care and complications of the people living with a chronic condition (prevalence mode)
+export interface PrevalenceOutcomes {
+  averagePrevalent: number;        // people living with the condition, weekly mean
+  averageInCare: number;           // attending scheduled care, adherent or not
+  averageLostToFollowUp: number;
+  averageControlled: number;
+  proportionControlled: number;    // averageControlled / averagePrevalent
+  finalProportionControlled: number;
+  complications: number;           // complications starting in the reported weeks
+  complicationDeaths: number;      // fatal complications; these are the reported deaths
+  otherCauseDeaths: number;        // not counted as deaths from the condition
+  scheduledVisits: { L0: number; L1: number };
+  treatmentCost: number;           // undiscounted; part of totalCost
+}
+
+// Incidence under the transmission sub-model over the reported weeks
+export interface TransmissionOutcomes {
+  models: TransmissionModel[];
+  newCases: number;                 // onsets in the reported weeks
+  referenceCases: number;           // onsets had incidence stayed at lambda
+  averageInfectious: number;        // people able to pass the infection on, weekly mean
+  referenceInfectious: number;      // infectious people at the end of the burn-in, where incidence equals lambda
+  finalIncidenceMultiplier: number; // incidence relative to lambda at the end of the run
+}
+
+// Returning episodes and ongoing care for chronic conditions over the reported weeks
+export interface ChronicCareOutcomes {
+  relapses: number;            // new episodes among patients in remission
+  decompensations: number;     // new episodes among controlled patients
+  averageControlled: number;   // mean patients in controlled care per week
+  averageRemission: number;    // mean patients in remission per week
+  controlled: number;          // patients in controlled care in the final week
+  activeEpisodes: number;      // people with an active episode (in care, queueing or untreated) in the final week
+  controlRate: number;         // final week: controlled / (controlled + active episodes)
+  controlledCareCost: number;  // undiscounted; part of totalCost
+}
+
+// Costs borne outside the health system, valued at GDP per capita per day of time (undiscounted)
+export interface SocietalCosts {
+  patientTime: number;          // travelling to and waiting for each admission
+  caregiverTime: number;        // relatives accompanying facility stays
+  illnessProductivity: number;  // work lost while ill, treated or not
+  prematureDeath: number;       // future earnings lost to deaths (human capital approach)
+  transport: number;            // household travel to facilities
+  total: number;
+}
+
+// Household spending on care and how often it is catastrophic (undiscounted, reported weeks only)
+export interface FinancialProtectionOutcomes {
+  totalOutOfPocket: number;
+  outOfPocketByLevel: {
+    I: number;
+    F: number;
+    L0: number;
+    L1: number;
+    L2: number;
+    L3: number;
+  };
+  episodes: number;               // episodes that used informal or formal care
+  outOfPocketPerEpisode: number;
+  catastrophicCases: number;      // episodes whose spending exceeded catastrophicThreshold of capacity to pay
+  catastrophicRate: number;       // catastrophicCases / episodes
+}
+
+// Invariant checks run on every simulated week (burn-in weeks have negative week numbers)
+export type DiagnosticIssueType =
+  | 'mass_balance'    // people created or lost between two weeks
+  | 'negative_stock'  // a stock or queue went below zero
+  | 'rate_overflow';  // outflow rates from a stock add up to more than 1 per week
+
+export interface DiagnosticIssue {
+  week: number;
+  type: DiagnosticIssueType;
+  severity: 'error' | 'warning';
+  location: string;   // stock or queue the issue was found in
+  value: number;      // residual in people, negative stock size, or summed weekly rate
+  message: string;
+}
+
+export interface SimulationDiagnostics {
+  passed: boolean;                 // no errors (warnings are allowed)
+  weeksChecked: number;
+  maxBalanceError: number;         // largest absolute weekly mass-balance residual (people)
+  netBalanceError: number;         // people in the model minus initial people and cumulative inflow
+  issueCounts: Record<DiagnosticIssueType, number>;
+  issues: DiagnosticIssue[];       // first issue of each type and location, capped at MAX_REPORTED_ISSUES
+}
+
+// Where deaths and resolutions happen. Queue deaths and self-resolution count as 'queues';
+// episodes resolved at home by self-care or triage AI count as 'I'.
+export type OutcomeLocation = 'U' | 'I' | 'L0' | 'L1' | 'L2' | 'L3' | 'queues';
+
+export const outcomeLocations: OutcomeLocation[] = ['U', 'I', 'L0', 'L1', 'L2', 'L3', 'queues'];
+
+// Flows computed in one simulated week (people per week)
+export interface WeeklyFlows {
+  week: number;
+  newCases: number;
+  avoidedVisits: number;        // resolved at home by self-care AI
+  toFormal: number;             // new cases going straight to formal care
+  toInformal: number;
+  toUntreated: number;
+  informalToFormal: number;
+  directRouting: number;        // formal care entries sent straight to L1/L2 past L0 (congestion or triage over-referral)
+  referrals: { L0: number; L1: number; L2: number }; // referrals out of each level
+  admissions: LevelCapacity;    // entering each level: arrivals, cleared queue and direct routing
+  queued: LevelCapacity;        // joining the queue for each level
+  preventedQueueing: number;    // kept out of queues by triage AI (resolved at home)
+  queueAbandoned: number;       // left a queue for U
+  queueBypassed: number;        // left a queue for informal care
+  relapses: number;             // left remission with a new episode
+  decompensations: number;      // lost control in chronic care, with a new episode
+  relapsesToInformal: number;   // relapses and decompensations going to informal care (the rest to U)
+  aiErrors: AIMisroutedPatients; // patients misrouted by AI errors
+  deaths: Record<OutcomeLocation, number>;
+  resolutions: Record<OutcomeLocation, number>;
+}
+
+// Where an episode ended: the stock it resolved or died from. Deaths and self-resolution while
+// queueing count towards the level the patient was waiting for; episodes resolved at home by
+// self-care or triage AI count as informal.
+export type ResolutionPathway = 'untreated' | 'informal' | 'L0' | 'L1' | 'L2' | 'L3';
+
+export const resolutionPathways: ResolutionPathway[] = ['untreated', 'informal', 'L0', 'L1', 'L2', 'L3'];
+
+export interface TimeToResolutionSummary {
+  share: number;      // share of all ended episodes that ended on this pathway
+  deathShare: number; // share of this pathway's episodes that ended in death
+  mean: number;       // weeks from onset to resolution or death
+  median: number;
+  p25: number;
+  p75: number;
+  p90: number;
+}
+
+export interface TimeToResolutionDistribution {
+  overall: TimeToResolutionSummary;
+  byPathway: Record<ResolutionPathway, TimeToResolutionSummary>;
+  unresolvedShare: number;  // share of onsets still unresolved after MAX_EPISODE_WEEKS
 }
 
 // Initialize model with default state
@@ -190,22 +541,244 @@ const initializeState = (
   return { ...defaultState, ...initialState };
 };
 
+// Multiplier a forcing applies in a given simulation week (week 0 = first reported week)
+export const evaluateForcingMultiplier = (forcing: ParameterForcing, week: number): number => {
+  if (forcing.type === 'sinusoid') {
+    const period = forcing.periodWeeks && forcing.periodWeeks > 0 ? forcing.periodWeeks : 52;
+    return Math.max(0, 1 + forcing.amplitude * Math.cos(2 * Math.PI * (week - forcing.peakWeek) / period));
+  }
+  
+  const scheduleWeek = forcing.repeatAnnually ? ((week % 52) + 52) % 52 : week;
+  let multiplier = 1;
+  [...forcing.steps]
+    .sort((a, b) => a.fromWeek - b.fromWeek)
+    .forEach(step => {
+      if (scheduleWeek >= step.fromWeek) {
+        multiplier = step.multiplier;
+      }
+    });
+  return Math.max(0, multiplier);
+};
+
+// Parameters in effect for one week once all forcings are applied.
+// Everything except lambda is a weekly probability, so forced values are capped at 1.
+export const applyParameterForcing = (params: ModelParameters, week: number): ModelParameters => {
+  const forcing = params.forcing;
+  if (!forcing) return params;
+  
+  const forcedParams = { ...params };
+  forcibleParameters.forEach(key => {
+    const parameterForcing = forcing[key];
+    if (!parameterForcing) return;
+    const value = params[key] * evaluateForcingMultiplier(parameterForcing, week);
+    forcedParams[key] = key === 'lambda' ? value : Math.min(1, value);
+  });
+  return forcedParams;
+};
+
+// Congestion implied by occupancy against explicit capacity (average over levels, 0-1)
+// Queued patients count as demand so a full level with a waiting list reads as fully congested
+const calculateOccupancyCongestion = (
+  state: StockAndFlowState,
+  capacity: LevelCapacity
+): number => {
+  const queues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const levels: (keyof LevelCapacity)[] = ['L0', 'L1', 'L2', 'L3'];
+  const utilization = levels.map(level => {
+    if (capacity[level] <= 0) return 1;
+    return Math.min(1, (state[level] + queues[level]) / capacity[level]);
+  });
+  return utilization.reduce((sum, u) => sum + u, 0) / levels.length;
+};
+
+// Stocks an onset cohort can be in while its episode is ongoing
+type CohortCompartment = 'U' | 'I' | 'F' | 'L0' | 'L1' | 'L2' | 'L3' | 'queueL0' | 'queueL1' | 'queueL2' | 'queueL3';
+
+const cohortCompartments: CohortCompartment[] = ['U', 'I', 'F', 'L0', 'L1', 'L2', 'L3', 'queueL0', 'queueL1', 'queueL2', 'queueL3'];
+
+// Share of a stock (or of new onsets) that moves on in one week, either to another stock or out of the model
+interface CohortFlow {
+  to?: CohortCompartment;
+  exit?: ResolutionPathway;
+  died?: boolean;
+  fraction: number;
+}
+
+interface CohortTransition extends CohortFlow {
+  from: CohortCompartment;
+}
+
+// Per-capita flows realized in one simulated week, so cohorts can be followed through them
+interface WeeklyTransitions {
+  incidence: number;         // new onsets this week
+  arrivals: CohortFlow[];    // where those onsets go (fractions of incidence)
+  moves: CohortTransition[]; // fractions of each stock leaving it this week
+}
+
+// Optional sinks runWeek writes to while stepping
+interface WeekRecorders {
+  issues?: DiagnosticIssue[];
+  transitions?: WeeklyTransitions[];
+  flows?: WeeklyFlows[];
+}
+
+// Scale for the outflows of one stock. Rates that add up to more than 1 per week would take out
+// more people than the stock holds. The parameter set is invalid (see the outflow_sum validation rule),
+// so the overflow is recorded as an error; the rates are scaled down together so the run can finish.
+const outflowScale = (
+  rates: number[],
+  location: string,
+  week: number,
+  issues?: DiagnosticIssue[]
+): number => {
+  const totalRate = rates.reduce((sum, rate) => sum + rate, 0);
+  if (totalRate <= 1) return 1;
+  
+  issues?.push({
+    week,
+    type: 'rate_overflow',
+    severity: 'error',
+    location,
+    value: totalRate,
+    message: `Weekly outflow rates from ${location} add up to ${totalRate.toFixed(3)} (more than 1); scaled down to keep the run going`,
+  });
+  return 1 / totalRate;
+};
+
+// Relapse and controlled care are only simulated when switched on, so acute diseases keep R as their end state
+const modelsChronicCare = (params: ModelParameters): boolean =>
+  (params.relapseRate || 0) > 0 || (params.controlledShare || 0) > 0;
+
+// Transmission is only simulated when switched on, so incidence otherwise stays at lambda
+const modelsTransmission = (params: ModelParameters): boolean =>
+  (params.transmissionModel ?? 'none') !== 'none';
+
+// Share of patients at a level who are not on effective treatment there: those who will be referred
+// on or die rather than resolve. Faster, more accurate diagnosis moves patients into the resolving share.
+const untreatedShare = (mu: number, rho: number, delta: number): number => {
+  const total = mu + rho + delta;
+  return total > 0 ? (rho + delta) / total : 1;
+};
+
+// People able to pass the infection on: untreated and informally treated cases, people waiting in a
+// queue, and patients at L0-L1 who are not yet on effective treatment
+const countInfectious = (state: StockAndFlowState, params: ModelParameters): number => {
+  const queues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const awaitingTreatment = state.L0 * untreatedShare(params.mu0, params.rho0, params.delta0) +
+                            state.L1 * untreatedShare(params.mu1, params.rho1, params.delta1);
+  return state.U + state.I + queues.L0 + queues.L1 + queues.L2 + queues.L3 +
+         (params.careInfectiousness || 0) * awaitingTreatment;
+};
+
+// Weekly probability a mosquito is infected when it bites, at a given human infectious prevalence
+const mosquitoInfection = (params: ModelParameters, prevalence: number): number =>
+  1 - Math.exp(-(params.mosquitoInfectionRate ?? 2) * prevalence);
+
+// Transmission pressure held at a steady infectious prevalence: the prevalence itself for TB, the
+// Ross-Macdonald equilibrium share of infectious mosquitoes for malaria
+const equilibriumTransmissionPressure = (params: ModelParameters, prevalence: number): number => {
+  if (params.transmissionModel !== 'malaria') return prevalence;
+  const infection = mosquitoInfection(params, prevalence);
+  return infection / (infection + Math.min(1, params.mosquitoDeathRate ?? 0.5));
+};
+
+// Incidence relative to lambda in a given state; 1 until the state carries a reference
+const transmissionIncidenceMultiplier = (params: ModelParameters, state: StockAndFlowState): number => {
+  if (state.transmissionPressure === undefined || state.transmissionReference === undefined) return 1;
+  const reference = equilibriumTransmissionPressure(params, state.transmissionReference);
+  const share = Math.max(0, Math.min(1, params.transmissionShare ?? 1));
+  return 1 - share + share * (reference > 0 ? state.transmissionPressure / reference : 1);
+};
+
+// Transmission pressure and reference for next week. Through the burn-in both follow the model's own
+// infectious prevalence, so incidence stays at lambda and AI (launched at week 0) does not shift the
+// reference. From week 0 the reference is fixed at the endemic level reached before AI, and pressure
+// responds to changes in care.
+const nextTransmission = (
+  state: StockAndFlowState,
+  params: ModelParameters,
+  population: number,
+  week: number
+): Pick<StockAndFlowState, 'transmissionPressure' | 'transmissionReference'> => {
+  const prevalence = population > 0 ? countInfectious(state, params) / population : 0;
+  if (week < 0 || state.transmissionPressure === undefined || state.transmissionReference === undefined) {
+    return { transmissionPressure: equilibriumTransmissionPressure(params, prevalence), transmissionReference: prevalence };
+  }
+  
+  const pressure = state.transmissionPressure;
+  const transmissionReference = state.transmissionReference;
+  if (params.transmissionModel === 'malaria') {
+    // Mosquitoes are infected biting infectious people and stay infectious until they die
+    return {
+      transmissionPressure: pressure + (1 - pressure) * mosquitoInfection(params, prevalence) -
+        Math.min(1, params.mosquitoDeathRate ?? 0.5) * pressure,
+      transmissionReference,
+    };
+  }
+  // TB disease follows infection after a delay, so pressure tracks infectious prevalence with a lag
+  return {
+    transmissionPressure: pressure + (prevalence - pressure) / Math.max(1, params.transmissionDelayWeeks ?? 52),
+    transmissionReference,
+  };
+};
+
 // Run a single week of the simulation
+// congestionOverride lets the coupled multi-disease engine impose the congestion of the shared pool
+// Where this week's formal care entries go, as shares of F.
+// With smart routing some patients bypass congested lower levels (60% to L1, 40% to L2), and
+// triage AI over-referral wrongly sends some of the rest past the CHW straight to primary care.
+const formalRoutingShares = (
+  params: ModelParameters,
+  congestion: number
+): { L0: number; L1: number; L2: number; overReferred: number } => {
+  const directRoutingImprovement = params.directRoutingImprovement || 0;
+  // Only when the system is congested (>50%)
+  const bypassed = directRoutingImprovement > 0 && congestion > 0.5
+    ? directRoutingImprovement * congestion
+    : 0;
+  const overReferred = (1 - bypassed) * (params.triageOverReferral || 0);
+  return {
+    L0: 1 - bypassed - overReferred,
+    L1: bypassed * 0.6 + overReferred,
+    L2: bypassed * 0.4,
+    overReferred,
+  };
+};
+
 const runWeek = (
   state: StockAndFlowState,
-  params: ModelParameters,
-  population: number
+  baseParams: ModelParameters,
+  population: number,
+  week: number,
+  congestionOverride?: number,
+  recorders?: WeekRecorders
 ): StockAndFlowState => {
-  // Calculate weekly incidence
-  let weeklyIncidence = (params.lambda * population) / 52;
+  const issues = recorders?.issues;
+  
+  // AI adoption reached this week, then seasonal and time-varying forcing
+  const params = applyParameterForcing(applyAIRollout(baseParams, week), week);
+  
+  // Calculate weekly incidence; with transmission it follows the pressure carried in the state
+  const transmission = modelsTransmission(params);
+  const incidenceMultiplier = transmission ? transmissionIncidenceMultiplier(params, state) : 1;
+  let weeklyIncidence = (params.lambda * incidenceMultiplier * population) / 52;
   
   // Apply visit reduction if self-care AI is active
   const visitReduction = params.visitReduction || 0;
   const effectiveIncidence = weeklyIncidence * (1 - visitReduction);
-  const avoidedVisits = weeklyIncidence * visitReduction; // These resolve at home
+  const keptAtHome = weeklyIncidence * visitReduction;
+  // Self-care AI false reassurance: some of those kept at home need care and stay ill in informal care
+  const reassuredAtHome = keptAtHome * (params.selfCareFalseReassurance || 0);
+  const avoidedVisits = keptAtHome - reassuredAtHome; // These resolve at home
   
   // Get congestion level early for feedback effects
-  const congestion = params.systemCongestion || 0;
+  // With explicit capacity, congestion is last week's occupancy rather than an assumed input
+  const levelCapacity = params.levelCapacity;
+  const congestion = congestionOverride !== undefined
+    ? congestionOverride
+    : levelCapacity
+      ? calculateOccupancyCongestion(state, levelCapacity)
+      : (params.systemCongestion || 0);
   
   // Congestion feedback - reduce new arrivals when system is overwhelmed
   let arrivalMultiplier = 1.0;
@@ -216,42 +789,38 @@ const runWeek = (
   }
   
   // Calculate flow from new cases (using effective incidence after visit reduction)
-  const directToFormal = params.phi0 * effectiveIncidence * arrivalMultiplier;
-  const stayUntreated = (1 - params.phi0) * effectiveIncidence * arrivalMultiplier;
+  // Patients deterred from formal care by congestion stay home rather than leaving the model
+  const seekingFormal = params.phi0 * effectiveIncidence * arrivalMultiplier;
+  const stayUntreated = effectiveIncidence - seekingFormal;
+  // Triage AI under-referral: some of those seeking formal care are wrongly told to stay home
+  const underReferred = seekingFormal * (params.triageUnderReferral || 0);
+  const directToFormal = seekingFormal - underReferred;
   
   // Use the configurable parameter to determine how many untreated patients move to informal care
-  const toInformalCare = (1 - params.informalCareRatio) * stayUntreated;
-  const trulyUntreated = params.informalCareRatio * stayUntreated;
+  const toInformalCare = (1 - params.informalCareRatio) * stayUntreated + reassuredAtHome;
+  const trulyUntreated = params.informalCareRatio * stayUntreated + underReferred;
   
   // Calculate transitions from U (untreated)
-  const untreatedDeaths = params.deltaU * state.U;
-  const untreatedResolved = params.muU * state.U; // New: spontaneous resolution for untreated patients
+  const uScale = outflowScale([params.deltaU, params.muU], 'U', week, issues);
+  const untreatedDeaths = params.deltaU * state.U * uScale;
+  const untreatedResolved = params.muU * state.U * uScale; // New: spontaneous resolution for untreated patients
   const remainingUntreated = state.U - untreatedDeaths - untreatedResolved; // Updated to include resolved
   
   // Calculate transitions from I (informal care)
-  const informalToFormal = params.sigmaI * state.I;
-  const informalResolved = params.muI * state.I;
-  const informalDeaths = params.deltaI * state.I;
+  const iScale = outflowScale([params.sigmaI, params.muI, params.deltaI], 'I', week, issues);
+  // False reassurance also keeps some informal care patients from moving on to formal care
+  const informallyReassured = params.sigmaI * state.I * iScale * (params.selfCareFalseReassurance || 0);
+  const informalToFormal = params.sigmaI * state.I * iScale - informallyReassured;
+  const informalResolved = params.muI * state.I * iScale;
+  const informalDeaths = params.deltaI * state.I * iScale;
   const remainingInformal = state.I - informalToFormal - informalResolved - informalDeaths;
   
-  // Calculate distribution from F (formal care) with smart routing
-  const directRoutingImprovement = params.directRoutingImprovement || 0;
-  
-  // With smart routing, some patients can bypass congested lower levels
-  let formalToL0 = state.F;
-  let formalToL1Direct = 0;
-  let formalToL2Direct = 0;
-  
-  if (directRoutingImprovement > 0 && congestion > 0.5) {
-    // When system is congested (>50%), route some patients directly to higher levels
-    const bypassProbability = directRoutingImprovement * congestion;
-    
-    // 60% of bypassed patients go to L1, 40% to L2
-    const bypassedPatients = state.F * bypassProbability;
-    formalToL1Direct = bypassedPatients * 0.6;
-    formalToL2Direct = bypassedPatients * 0.4;
-    formalToL0 = state.F - bypassedPatients;
-  }
+  // Calculate distribution from F (formal care) with smart routing and triage over-referral
+  const routing = formalRoutingShares(params, congestion);
+  const formalToL0 = state.F * routing.L0;
+  const formalToL1Direct = state.F * routing.L1;
+  const formalToL2Direct = state.F * routing.L2;
+  const overReferred = state.F * routing.overReferred;
   
   const remainingFormal = 0;  // No patients remain in formal care
   
@@ -266,26 +835,36 @@ const runWeek = (
   }
   
   // Calculate transitions from L0 (community health workers)
-  const l0Referral = params.rho0 * state.L0 * rhoReduction;
-  const l0Resolved = params.mu0 * state.L0 * muBoost;
-  const l0Deaths = params.delta0 * state.L0;
+  const l0Scale = outflowScale([params.rho0 * rhoReduction, params.mu0 * muBoost, params.delta0], 'L0', week, issues);
+  const l0Referral = params.rho0 * state.L0 * rhoReduction * l0Scale;
+  const l0Resolved = params.mu0 * state.L0 * muBoost * l0Scale;
+  const l0Deaths = params.delta0 * state.L0 * l0Scale;
   const remainingL0 = state.L0 - l0Referral - l0Resolved - l0Deaths;
   
   // Calculate transitions from L1 (primary care)
-  const l1Referral = params.rho1 * state.L1 * rhoReduction;
-  const l1Resolved = params.mu1 * state.L1 * muBoost;
-  const l1Deaths = params.delta1 * state.L1;
-  const remainingL1 = state.L1 - l1Referral - l1Resolved - l1Deaths;
+  const l1Scale = outflowScale([params.rho1 * rhoReduction, params.mu1 * muBoost, params.delta1], 'L1', week, issues);
+  const l1NeededReferral = params.rho1 * state.L1 * rhoReduction * l1Scale;
+  const l1WouldResolve = params.mu1 * state.L1 * muBoost * l1Scale;
+  // Diagnostic AI errors: missed referrals are sent home untreated (false negatives), and some
+  // patients who would have resolved here are referred on instead (false positives)
+  const missedReferrals = l1NeededReferral * (params.diagnosticMissedReferral || 0);
+  const falseReferrals = l1WouldResolve * (params.diagnosticFalseReferral || 0);
+  const l1Referral = l1NeededReferral - missedReferrals + falseReferrals;
+  const l1Resolved = l1WouldResolve - falseReferrals;
+  const l1Deaths = params.delta1 * state.L1 * l1Scale;
+  const remainingL1 = state.L1 - l1Referral - missedReferrals - l1Resolved - l1Deaths;
   
   // Calculate transitions from L2 (district hospital)
-  const l2Referral = params.rho2 * state.L2 * rhoReduction;
-  const l2Resolved = params.mu2 * state.L2 * muBoost;
-  const l2Deaths = params.delta2 * state.L2;
+  const l2Scale = outflowScale([params.rho2 * rhoReduction, params.mu2 * muBoost, params.delta2], 'L2', week, issues);
+  const l2Referral = params.rho2 * state.L2 * rhoReduction * l2Scale;
+  const l2Resolved = params.mu2 * state.L2 * muBoost * l2Scale;
+  const l2Deaths = params.delta2 * state.L2 * l2Scale;
   const remainingL2 = state.L2 - l2Referral - l2Resolved - l2Deaths;
   
   // Calculate transitions from L3 (tertiary hospital)
-  const l3Resolved = params.mu3 * state.L3 * muBoost;
-  const l3Deaths = params.delta3 * state.L3;
+  const l3Scale = outflowScale([params.mu3 * muBoost, params.delta3], 'L3', week, issues);
+  const l3Resolved = params.mu3 * state.L3 * muBoost * l3Scale;
+  const l3Deaths = params.delta3 * state.L3 * l3Scale;
   const remainingL3 = state.L3 - l3Resolved - l3Deaths;
   
   // Calculate new patient totals for the next week
@@ -320,29 +899,6 @@ const runWeek = (
   const desiredL2Flow = l1Referral;
   const desiredL3Flow = l2Referral;
   
-  // Apply capacity constraints to flows
-  const actualL0Flow = desiredL0Flow * capacityMultiplier;
-  const actualL1Flow = desiredL1Flow * capacityMultiplier;
-  const actualL2Flow = desiredL2Flow * capacityMultiplier;
-  const actualL3Flow = desiredL3Flow * capacityMultiplier;
-  
-  // Calculate queued patients (those who couldn't enter due to capacity)
-  // Apply triage AI queue prevention - reduces inappropriate visits that would otherwise queue
-  const queuePreventionEffect = params.queuePreventionRate || 0;
-  
-  let queuedL0 = desiredL0Flow - actualL0Flow;
-  let queuedL1 = desiredL1Flow - actualL1Flow;
-  let queuedL2 = desiredL2Flow - actualL2Flow;
-  let queuedL3 = desiredL3Flow - actualL3Flow;
-  
-  // Triage AI prevents some inappropriate visits from entering queues
-  if (queuePreventionEffect > 0) {
-    queuedL0 *= (1 - queuePreventionEffect);
-    queuedL1 *= (1 - queuePreventionEffect);
-    queuedL2 *= (1 - queuePreventionEffect);
-    queuedL3 *= (1 - queuePreventionEffect);
-  }
-  
   // Initialize queues if not present
   const currentQueues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
   
@@ -353,34 +909,45 @@ const runWeek = (
   // Process existing queues - some get served as capacity becomes available
   const queueClearanceRate = params.queueClearanceRate || 0.3; // Default: 30% of queue can be cleared per week if capacity available
   
+  const queueSelfResolveRate = params.queueSelfResolveRate || 0.10;
+  
+  // All queues share the same exit rates, so one scale keeps every queue non-negative
+  const queueScale = outflowScale(
+    [params.deltaU, queueAbandonmentRate, queueBypassRate, queueSelfResolveRate], 'queues', week, issues
+  );
+  
   // Queue mortality - same as untreated mortality since they're waiting for care
-  const queueMortalityL0 = currentQueues.L0 * params.deltaU;
-  const queueMortalityL1 = currentQueues.L1 * params.deltaU;
-  const queueMortalityL2 = currentQueues.L2 * params.deltaU;
-  const queueMortalityL3 = currentQueues.L3 * params.deltaU;
+  const queueMortalityL0 = currentQueues.L0 * params.deltaU * queueScale;
+  const queueMortalityL1 = currentQueues.L1 * params.deltaU * queueScale;
+  const queueMortalityL2 = currentQueues.L2 * params.deltaU * queueScale;
+  const queueMortalityL3 = currentQueues.L3 * params.deltaU * queueScale;
   const queueMortality = queueMortalityL0 + queueMortalityL1 + queueMortalityL2 + queueMortalityL3;
   
   // Queue abandonment - patients give up and return to untreated
-  const queueAbandonL0 = currentQueues.L0 * queueAbandonmentRate;
-  const queueAbandonL1 = currentQueues.L1 * queueAbandonmentRate;
-  const queueAbandonL2 = currentQueues.L2 * queueAbandonmentRate;
-  const queueAbandonL3 = currentQueues.L3 * queueAbandonmentRate;
+  const queueAbandonL0 = currentQueues.L0 * queueAbandonmentRate * queueScale;
+  const queueAbandonL1 = currentQueues.L1 * queueAbandonmentRate * queueScale;
+  const queueAbandonL2 = currentQueues.L2 * queueAbandonmentRate * queueScale;
+  const queueAbandonL3 = currentQueues.L3 * queueAbandonmentRate * queueScale;
   
   // Queue bypass - patients seek informal care instead
-  const queueBypassL0 = currentQueues.L0 * queueBypassRate;
-  const queueBypassL1 = currentQueues.L1 * queueBypassRate;
-  const queueBypassL2 = currentQueues.L2 * queueBypassRate;
-  const queueBypassL3 = currentQueues.L3 * queueBypassRate;
+  const queueBypassL0 = currentQueues.L0 * queueBypassRate * queueScale;
+  const queueBypassL1 = currentQueues.L1 * queueBypassRate * queueScale;
+  const queueBypassL2 = currentQueues.L2 * queueBypassRate * queueScale;
+  const queueBypassL3 = currentQueues.L3 * queueBypassRate * queueScale;
   
   // Queue self-resolution - patients get better while waiting
-  const queueSelfResolveRate = params.queueSelfResolveRate || 0.10;
-  const queueSelfResolveL0 = currentQueues.L0 * queueSelfResolveRate;
-  const queueSelfResolveL1 = currentQueues.L1 * queueSelfResolveRate;
-  const queueSelfResolveL2 = currentQueues.L2 * queueSelfResolveRate;
-  const queueSelfResolveL3 = currentQueues.L3 * queueSelfResolveRate;
-  
-  // Clear some queue based on freed capacity (priority-based)
-  // AI interventions improve queue clearance rates
+  const queueSelfResolveL0 = currentQueues.L0 * queueSelfResolveRate * queueScale;
+  const queueSelfResolveL1 = currentQueues.L1 * queueSelfResolveRate * queueScale;
+  const queueSelfResolveL2 = currentQueues.L2 * queueSelfResolveRate * queueScale;
+  const queueSelfResolveL3 = currentQueues.L3 * queueSelfResolveRate * queueScale;
+  
+  // Patients still waiting after deaths, abandonment, bypass and self-resolution
+  const queueWaitingL0 = currentQueues.L0 - queueMortalityL0 - queueAbandonL0 - queueBypassL0 - queueSelfResolveL0;
+  const queueWaitingL1 = currentQueues.L1 - queueMortalityL1 - queueAbandonL1 - queueBypassL1 - queueSelfResolveL1;
+  const queueWaitingL2 = currentQueues.L2 - queueMortalityL2 - queueAbandonL2 - queueBypassL2 - queueSelfResolveL2;
+  const queueWaitingL3 = currentQueues.L3 - queueMortalityL3 - queueAbandonL3 - queueBypassL3 - queueSelfResolveL3;
+  
+  // AI interventions improve throughput (queue clearance, or effective capacity when explicit)
   const resolutionBoostEffect = params.resolutionBoost || 0;        // CHW AI
   const pointOfCareEffect = params.pointOfCareResolution || 0;      // Diagnostic AI
   const lengthOfStayEffect = params.lengthOfStayReduction || 0;     // Bed Management AI
@@ -388,33 +955,97 @@ const runWeek = (
   const treatmentEffEffect = params.treatmentEfficiency || 0;       // Hospital Decision AI
   const resourceUtilEffect = params.resourceUtilization || 0;      // Hospital Decision AI
   
-  let availableCapacityL0 = Math.max(0, capacityMultiplier * queueClearanceRate);
-  let availableCapacityL1 = Math.max(0, capacityMultiplier * queueClearanceRate);
-  let availableCapacityL2 = Math.max(0, capacityMultiplier * queueClearanceRate);
-  let availableCapacityL3 = Math.max(0, capacityMultiplier * queueClearanceRate);
+  const throughputL0 = 1 + resolutionBoostEffect;              // CHW AI improves L0 throughput
+  const throughputL1 = 1 + pointOfCareEffect;                  // Diagnostic AI improves L1 throughput
+  const throughputL2 = 1 + lengthOfStayEffect + dischargeOptEffect + treatmentEffEffect; // Multiple hospital AIs
+  const throughputL3 = 1 + lengthOfStayEffect + dischargeOptEffect + treatmentEffEffect + resourceUtilEffect; // All hospital AIs
+  
+  let actualL0Flow: number;
+  let actualL1Flow: number;
+  let actualL2Flow: number;
+  let actualL3Flow: number;
+  let queueClearedL0: number;
+  let queueClearedL1: number;
+  let queueClearedL2: number;
+  let queueClearedL3: number;
+  // Directly routed patients always get in unless capacity is explicit
+  let admittedL1Direct = formalToL1Direct;
+  let admittedL2Direct = formalToL2Direct;
+  
+  if (levelCapacity) {
+    // Explicit capacity: free slots are what is left after patients staying on at each level.
+    // Waiting patients are admitted first, then new arrivals; anyone left over joins the queue.
+    // Direct routing arrives alongside referrals and shares the same slots.
+    const freeL0 = Math.max(0, levelCapacity.L0 * throughputL0 - Math.max(0, remainingL0));
+    const freeL1 = Math.max(0, levelCapacity.L1 * throughputL1 - Math.max(0, remainingL1));
+    const freeL2 = Math.max(0, levelCapacity.L2 * throughputL2 - Math.max(0, remainingL2));
+    const freeL3 = Math.max(0, levelCapacity.L3 * throughputL3 - Math.max(0, remainingL3));
+    
+    queueClearedL0 = Math.min(Math.max(0, queueWaitingL0), freeL0);
+    queueClearedL1 = Math.min(Math.max(0, queueWaitingL1), freeL1);
+    queueClearedL2 = Math.min(Math.max(0, queueWaitingL2), freeL2);
+    queueClearedL3 = Math.min(Math.max(0, queueWaitingL3), freeL3);
+    
+    actualL0Flow = Math.min(desiredL0Flow, freeL0 - queueClearedL0);
+    const admittedShare = (arrivals: number, free: number) => arrivals > 0 ? Math.min(1, free / arrivals) : 1;
+    const admittedShareL1 = admittedShare(desiredL1Flow + formalToL1Direct, freeL1 - queueClearedL1);
+    const admittedShareL2 = admittedShare(desiredL2Flow + formalToL2Direct, freeL2 - queueClearedL2);
+    actualL1Flow = desiredL1Flow * admittedShareL1;
+    actualL2Flow = desiredL2Flow * admittedShareL2;
+    admittedL1Direct = formalToL1Direct * admittedShareL1;
+    admittedL2Direct = formalToL2Direct * admittedShareL2;
+    actualL3Flow = Math.min(desiredL3Flow, freeL3 - queueClearedL3);
+  } else {
+    // Apply capacity constraints to flows
+    actualL0Flow = desiredL0Flow * capacityMultiplier;
+    actualL1Flow = desiredL1Flow * capacityMultiplier;
+    actualL2Flow = desiredL2Flow * capacityMultiplier;
+    actualL3Flow = desiredL3Flow * capacityMultiplier;
+    
+    // Clear some queue based on freed capacity (priority-based)
+    const availableCapacityL0 = Math.max(0, capacityMultiplier * queueClearanceRate) * throughputL0;
+    const availableCapacityL1 = Math.max(0, capacityMultiplier * queueClearanceRate) * throughputL1;
+    const availableCapacityL2 = Math.max(0, capacityMultiplier * queueClearanceRate) * throughputL2;
+    const availableCapacityL3 = Math.max(0, capacityMultiplier * queueClearanceRate) * throughputL3;
+    
+    queueClearedL0 = Math.min(currentQueues.L0 * availableCapacityL0, queueWaitingL0);
+    queueClearedL1 = Math.min(currentQueues.L1 * availableCapacityL1, queueWaitingL1);
+    queueClearedL2 = Math.min(currentQueues.L2 * availableCapacityL2, queueWaitingL2);
+    queueClearedL3 = Math.min(currentQueues.L3 * availableCapacityL3, queueWaitingL3);
+  }
+  
+  // Calculate queued patients (those who couldn't enter due to capacity)
+  // Apply triage AI queue prevention - reduces inappropriate visits that would otherwise queue
+  const queuePreventionEffect = params.queuePreventionRate || 0;
   
-  // Apply AI improvements to queue clearance
-  availableCapacityL0 *= (1 + resolutionBoostEffect);              // CHW AI improves L0 throughput
-  availableCapacityL1 *= (1 + pointOfCareEffect);                  // Diagnostic AI improves L1 throughput
-  availableCapacityL2 *= (1 + lengthOfStayEffect + dischargeOptEffect + treatmentEffEffect); // Multiple hospital AIs
-  availableCapacityL3 *= (1 + lengthOfStayEffect + dischargeOptEffect + treatmentEffEffect + resourceUtilEffect); // All hospital AIs
+  let queuedL0 = desiredL0Flow - actualL0Flow;
+  let queuedL1 = desiredL1Flow + formalToL1Direct - actualL1Flow - admittedL1Direct;
+  let queuedL2 = desiredL2Flow + formalToL2Direct - actualL2Flow - admittedL2Direct;
+  let queuedL3 = desiredL3Flow - actualL3Flow;
   
-  const queueClearedL0 = Math.min(currentQueues.L0 * availableCapacityL0, currentQueues.L0 - queueMortalityL0 - queueAbandonL0 - queueBypassL0 - queueSelfResolveL0);
-  const queueClearedL1 = Math.min(currentQueues.L1 * availableCapacityL1, currentQueues.L1 - queueMortalityL1 - queueAbandonL1 - queueBypassL1 - queueSelfResolveL1);
-  const queueClearedL2 = Math.min(currentQueues.L2 * availableCapacityL2, currentQueues.L2 - queueMortalityL2 - queueAbandonL2 - queueBypassL2 - queueSelfResolveL2);
-  const queueClearedL3 = Math.min(currentQueues.L3 * availableCapacityL3, currentQueues.L3 - queueMortalityL3 - queueAbandonL3 - queueBypassL3 - queueSelfResolveL3);
+  // Triage AI prevents some inappropriate visits from entering queues; they resolve without facility care
+  let preventedQueueing = 0;
+  if (queuePreventionEffect > 0) {
+    preventedQueueing = (queuedL0 + queuedL1 + queuedL2 + queuedL3) * queuePreventionEffect;
+    queuedL0 *= (1 - queuePreventionEffect);
+    queuedL1 *= (1 - queuePreventionEffect);
+    queuedL2 *= (1 - queuePreventionEffect);
+    queuedL3 *= (1 - queuePreventionEffect);
+  }
   
   // Update levels with capacity-constrained flows plus cleared queues and direct routing
   const newL0 = actualL0Flow + remainingL0 + queueClearedL0;
-  const newL1 = actualL1Flow + remainingL1 + queueClearedL1 + formalToL1Direct;
-  const newL2 = actualL2Flow + remainingL2 + queueClearedL2 + formalToL2Direct;
+  const newL1 = actualL1Flow + remainingL1 + queueClearedL1 + admittedL1Direct;
+  const newL2 = actualL2Flow + remainingL2 + queueClearedL2 + admittedL2Direct;
   const newL3 = actualL3Flow + remainingL3 + queueClearedL3;
   
   // Add abandoned patients back to untreated and bypassed to informal
   const totalAbandoned = queueAbandonL0 + queueAbandonL1 + queueAbandonL2 + queueAbandonL3;
   const totalBypassed = queueBypassL0 + queueBypassL1 + queueBypassL2 + queueBypassL3;
+  const totalQueueSelfResolved = queueSelfResolveL0 + queueSelfResolveL1 + queueSelfResolveL2 + queueSelfResolveL3;
   
-  const newR = state.R + untreatedResolved + informalResolved + l0Resolved + l1Resolved + l2Resolved + l3Resolved + avoidedVisits; // Include untreated resolved and avoided visits
+  const newR = state.R + untreatedResolved + informalResolved + l0Resolved + l1Resolved + l2Resolved + l3Resolved + avoidedVisits + // Include untreated resolved and avoided visits
+               totalQueueSelfResolved + preventedQueueing;
   const newD = state.D + untreatedDeaths + informalDeaths + l0Deaths + l1Deaths + l2Deaths + l3Deaths + queueMortality;
   
   // Calculate new patient days - apply length of stay reduction from AI
@@ -428,15 +1059,169 @@ const runWeek = (
   };
   
   // Calculate episodes touched by AI
+  // During a rollout only the adopted share of episodes is touched (aiVariableCost is at full adoption)
   const selfCareActive = params.selfCareAIActive;
+  const aiCoverage = baseParams.aiRollout && baseParams.aiVariableCost > 0
+    ? params.aiVariableCost / baseParams.aiVariableCost
+    : 1;
   const episodesTouched = state.episodesTouched + 
-                          directToFormal + 
-                          informalToFormal + 
-                          (selfCareActive ? state.I : 0);  // Count all informal care patients if selfCareAI is active
+                          (directToFormal + underReferred +
+                           informalToFormal + 
+                           (selfCareActive ? state.I : 0)) * aiCoverage;  // Count all informal care patients if selfCareAI is active
+  
+  // Chronic conditions: part of those resolved in formal care stay in ongoing care as controlled
+  // patients; everyone else resolved this week is in remission. Relapses and decompensations are
+  // new episodes that start untreated or in informal care.
+  const chronicCare = modelsChronicCare(params);
+  const remission = state.remission || 0;
+  const controlled = state.controlled || 0;
+  const relapseRate = params.relapseRate || 0;
+  const decompensationRate = params.decompensationRate || 0;
+  const relapses = relapseRate * remission * outflowScale([relapseRate], 'remission', week, recorders?.issues);
+  const decompensations = decompensationRate * controlled *
+    outflowScale([decompensationRate], 'controlled', week, recorders?.issues);
+  const relapsesToInformal = (relapses + decompensations) * (params.relapseToInformalShare ?? 0.5);
+  const newlyControlled = chronicCare
+    ? (l0Resolved + l1Resolved + l2Resolved + l3Resolved) * Math.min(1, params.controlledShare || 0)
+    : 0;
+  
+  // Final U and I states include patients who abandoned or bypassed queues and returning episodes
+  const newU = newUBeforeQueues + totalAbandoned + relapses + decompensations - relapsesToInformal + missedReferrals;
+  const newI = newIBeforeQueues + totalBypassed + relapsesToInformal;
+  
+  if (recorders?.flows) {
+    recorders.flows.push({
+      week,
+      newCases: weeklyIncidence,
+      avoidedVisits,
+      toFormal: directToFormal,
+      toInformal: toInformalCare,
+      toUntreated: trulyUntreated,
+      informalToFormal,
+      directRouting: formalToL1Direct + formalToL2Direct,
+      referrals: { L0: l0Referral, L1: l1Referral, L2: l2Referral },
+      admissions: {
+        L0: actualL0Flow + queueClearedL0,
+        L1: actualL1Flow + queueClearedL1 + admittedL1Direct,
+        L2: actualL2Flow + queueClearedL2 + admittedL2Direct,
+        L3: actualL3Flow + queueClearedL3,
+      },
+      queued: { L0: queuedL0, L1: queuedL1, L2: queuedL2, L3: queuedL3 },
+      preventedQueueing,
+      queueAbandoned: totalAbandoned,
+      queueBypassed: totalBypassed,
+      relapses,
+      decompensations,
+      relapsesToInformal,
+      aiErrors: {
+        underReferred,
+        overReferred,
+        missedReferrals,
+        falseReferrals,
+        falselyReassured: reassuredAtHome + informallyReassured,
+      },
+      deaths: {
+        U: untreatedDeaths,
+        I: informalDeaths,
+        L0: l0Deaths,
+        L1: l1Deaths,
+        L2: l2Deaths,
+        L3: l3Deaths,
+        queues: queueMortality,
+      },
+      resolutions: {
+        U: untreatedResolved,
+        I: informalResolved + avoidedVisits + preventedQueueing,
+        L0: l0Resolved,
+        L1: l1Resolved,
+        L2: l2Resolved,
+        L3: l3Resolved,
+        queues: totalQueueSelfResolved,
+      },
+    });
+  }
   
-  // Final U and I states include patients who abandoned or bypassed queues
-  const newU = newUBeforeQueues + totalAbandoned;
-  const newI = newIBeforeQueues + totalBypassed;
+  if (recorders?.transitions) {
+    const per = (flow: number, stock: number) => stock > 0 ? flow / stock : 0;
+    // Patients heading for a level are admitted, queue, or are kept out of the queue by triage AI
+    const admission = (
+      from: CohortCompartment,
+      share: number,
+      level: 'L0' | 'L1' | 'L2' | 'L3',
+      desired: number,
+      actual: number,
+      queued: number
+    ): CohortTransition[] => {
+      const admitted = desired > 0 ? actual / desired : 1;
+      const waiting = desired > 0 ? queued / desired : 0;
+      return [
+        { from, to: level, fraction: share * admitted },
+        { from, to: `queue${level}` as CohortCompartment, fraction: share * waiting },
+        { from, exit: 'informal', fraction: share * Math.max(0, 1 - admitted - waiting) },
+      ];
+    };
+    const arrivalsL1 = desiredL1Flow + formalToL1Direct;
+    const arrivalsL2 = desiredL2Flow + formalToL2Direct;
+    const admittedL1 = actualL1Flow + admittedL1Direct;
+    const admittedL2 = actualL2Flow + admittedL2Direct;
+    const queueMoves = (
+      level: 'L0' | 'L1' | 'L2' | 'L3',
+      queue: number,
+      mortality: number,
+      abandon: number,
+      bypass: number,
+      selfResolve: number,
+      cleared: number
+    ): CohortTransition[] => {
+      const from = `queue${level}` as CohortCompartment;
+      return [
+        { from, exit: level, died: true, fraction: per(mortality, queue) },
+        { from, to: 'U', fraction: per(abandon, queue) },
+        { from, to: 'I', fraction: per(bypass, queue) },
+        { from, exit: level, fraction: per(selfResolve, queue) },
+        { from, to: level, fraction: per(cleared, queue) },
+      ];
+    };
+    
+    const moves: CohortTransition[] = [
+      { from: 'U', exit: 'untreated', died: true, fraction: per(untreatedDeaths, state.U) },
+      { from: 'U', exit: 'untreated', fraction: per(untreatedResolved, state.U) },
+      { from: 'I', to: 'F', fraction: per(informalToFormal, state.I) },
+      { from: 'I', exit: 'informal', fraction: per(informalResolved, state.I) },
+      { from: 'I', exit: 'informal', died: true, fraction: per(informalDeaths, state.I) },
+      ...admission('F', per(formalToL0, state.F), 'L0', desiredL0Flow, actualL0Flow, queuedL0),
+      // Direct routing and referrals to the same level are admitted and queue alike
+      ...admission('F', per(formalToL1Direct, state.F), 'L1', arrivalsL1, admittedL1, queuedL1),
+      ...admission('F', per(formalToL2Direct, state.F), 'L2', arrivalsL2, admittedL2, queuedL2),
+      ...admission('L0', per(l0Referral, state.L0), 'L1', arrivalsL1, admittedL1, queuedL1),
+      { from: 'L0', exit: 'L0', fraction: per(l0Resolved, state.L0) },
+      { from: 'L0', exit: 'L0', died: true, fraction: per(l0Deaths, state.L0) },
+      ...admission('L1', per(l1Referral, state.L1), 'L2', arrivalsL2, admittedL2, queuedL2),
+      { from: 'L1', to: 'U', fraction: per(missedReferrals, state.L1) },
+      { from: 'L1', exit: 'L1', fraction: per(l1Resolved, state.L1) },
+      { from: 'L1', exit: 'L1', died: true, fraction: per(l1Deaths, state.L1) },
+      ...admission('L2', per(l2Referral, state.L2), 'L3', desiredL3Flow, actualL3Flow, queuedL3),
+      { from: 'L2', exit: 'L2', fraction: per(l2Resolved, state.L2) },
+      { from: 'L2', exit: 'L2', died: true, fraction: per(l2Deaths, state.L2) },
+      { from: 'L3', exit: 'L3', fraction: per(l3Resolved, state.L3) },
+      { from: 'L3', exit: 'L3', died: true, fraction: per(l3Deaths, state.L3) },
+      ...queueMoves('L0', currentQueues.L0, queueMortalityL0, queueAbandonL0, queueBypassL0, queueSelfResolveL0, queueClearedL0),
+      ...queueMoves('L1', currentQueues.L1, queueMortalityL1, queueAbandonL1, queueBypassL1, queueSelfResolveL1, queueClearedL1),
+      ...queueMoves('L2', currentQueues.L2, queueMortalityL2, queueAbandonL2, queueBypassL2, queueSelfResolveL2, queueClearedL2),
+      ...queueMoves('L3', currentQueues.L3, queueMortalityL3, queueAbandonL3, queueBypassL3, queueSelfResolveL3, queueClearedL3),
+    ];
+    
+    recorders.transitions.push({
+      incidence: weeklyIncidence,
+      arrivals: [
+        { to: 'F', fraction: per(directToFormal, weeklyIncidence) },
+        { to: 'I', fraction: per(toInformalCare, weeklyIncidence) },
+        { to: 'U', fraction: per(trulyUntreated, weeklyIncidence) },
+        { exit: 'informal', fraction: per(avoidedVisits, weeklyIncidence) },
+      ],
+      moves: moves.filter(move => move.fraction > 0),
+    });
+  }
   
   return {
     U: newU,
@@ -452,20 +1237,156 @@ const runWeek = (
     newCases: weeklyIncidence,
     episodesTouched,
     queues: {
-      L0: Math.max(0, currentQueues.L0 + queuedL0 - queueMortalityL0 - queueAbandonL0 - queueBypassL0 - queueClearedL0),
-      L1: Math.max(0, currentQueues.L1 + queuedL1 - queueMortalityL1 - queueAbandonL1 - queueBypassL1 - queueClearedL1),
-      L2: Math.max(0, currentQueues.L2 + queuedL2 - queueMortalityL2 - queueAbandonL2 - queueBypassL2 - queueClearedL2),
-      L3: Math.max(0, currentQueues.L3 + queuedL3 - queueMortalityL3 - queueAbandonL3 - queueBypassL3 - queueClearedL3),
+      L0: queueWaitingL0 - queueClearedL0 + queuedL0,
+      L1: queueWaitingL1 - queueClearedL1 + queuedL1,
+      L2: queueWaitingL2 - queueClearedL2 + queuedL2,
+      L3: queueWaitingL3 - queueClearedL3 + queuedL3,
     },
     queueRelatedDeaths: (state.queueRelatedDeaths || 0) + queueMortality,
+    relapses: relapses + decompensations,
+    aiReinvestmentCost: (state.aiReinvestmentCost || 0) + (params.aiReinvestmentCost || 0),
+    ...(chronicCare ? {
+      controlled: controlled - decompensations + newlyControlled,
+      remission: remission - relapses + (newR - state.R) - newlyControlled,
+      controlledWeeks: (state.controlledWeeks || 0) + controlled,
+    } : {}),
+    ...(transmission ? nextTransmission(state, params, population, week) : {}),
   };
 };
 
-// Calculate economic outcomes
-const calculateEconomics = (
+const MAX_REPORTED_ISSUES = 50;
+
+// Running tally of the invariant checks over one simulation
+interface DiagnosticsCollector {
+  issues: DiagnosticIssue[];
+  weeksChecked: number;
+  maxBalanceError: number;
+  netBalanceError: number;
+}
+
+const createDiagnosticsCollector = (): DiagnosticsCollector => ({
+  issues: [],
+  weeksChecked: 0,
+  maxBalanceError: 0,
+  netBalanceError: 0,
+});
+
+// Everyone the model is tracking: current stocks, queues and the cumulative R and D
+const totalPeople = (state: StockAndFlowState): number => {
+  const queues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  return state.U + state.I + state.F + state.L0 + state.L1 + state.L2 + state.L3 +
+         queues.L0 + queues.L1 + queues.L2 + queues.L3 + state.R + state.D;
+};
+
+// Check one week: people in the model may only change by that week's new cases and returning
+// episodes (relapses re-enter from R, which is cumulative), and no stock may be negative
+const checkWeekInvariants = (
+  previous: StockAndFlowState,
+  next: StockAndFlowState,
+  week: number,
+  collector: DiagnosticsCollector
+): void => {
+  const residual = totalPeople(next) - totalPeople(previous) - next.newCases - (next.relapses || 0);
+  const tolerance = 1e-6 * Math.max(1, totalPeople(next));
+  
+  collector.weeksChecked++;
+  collector.netBalanceError += residual;
+  collector.maxBalanceError = Math.max(collector.maxBalanceError, Math.abs(residual));
+  
+  if (!isFinite(residual) || Math.abs(residual) > tolerance) {
+    collector.issues.push({
+      week,
+      type: 'mass_balance',
+      severity: 'error',
+      location: 'all stocks',
+      value: residual,
+      message: `${Math.abs(residual).toFixed(2)} people ${residual > 0 ? 'created' : 'lost'} in week ${week}`,
+    });
+  }
+  
+  const queues = next.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const stocks: [string, number][] = [
+    ['U', next.U], ['I', next.I], ['F', next.F],
+    ['L0', next.L0], ['L1', next.L1], ['L2', next.L2], ['L3', next.L3],
+    ['queue L0', queues.L0], ['queue L1', queues.L1], ['queue L2', queues.L2], ['queue L3', queues.L3],
+    ['R', next.R], ['D', next.D],
+    ['controlled', next.controlled || 0], ['remission', next.remission || 0],
+  ];
+  stocks.forEach(([location, value]) => {
+    if (value < -tolerance || isNaN(value)) {
+      collector.issues.push({
+        week,
+        type: 'negative_stock',
+        severity: 'error',
+        location,
+        value,
+        message: `${location} is ${value.toFixed(2)} in week ${week}`,
+      });
+    }
+  });
+};
+
+const countIssues = (issues: DiagnosticIssue[]): Record<DiagnosticIssueType, number> => {
+  const counts: Record<DiagnosticIssueType, number> = { mass_balance: 0, negative_stock: 0, rate_overflow: 0 };
+  issues.forEach(issue => counts[issue.type]++);
+  return counts;
+};
+
+const finalizeDiagnostics = (collector: DiagnosticsCollector): SimulationDiagnostics => {
+  const diagnostics: SimulationDiagnostics = {
+    passed: !collector.issues.some(issue => issue.severity === 'error'),
+    weeksChecked: collector.weeksChecked,
+    maxBalanceError: collector.maxBalanceError,
+    netBalanceError: collector.netBalanceError,
+    issueCounts: countIssues(collector.issues),
+    // Repeats of the same problem week after week are only counted; the first occurrence is reported
+    issues: collector.issues
+      .filter((issue, index, all) => all.findIndex(other =>
+        other.type === issue.type && other.location === issue.location
+      ) === index)
+      .slice(0, MAX_REPORTED_ISSUES),
+  };
+  
+  if (!diagnostics.passed) {
+    console.warn('Simulation failed invariant checks:', diagnostics.issueCounts, diagnostics.issues.slice(0, 5));
+  }
+  return diagnostics;
+};
+
+// Merge per-disease diagnostics for multi-disease results (locations are prefixed with the disease)
+export const combineDiagnostics = (
+  byDisease: Record<string, SimulationDiagnostics | undefined>
+): SimulationDiagnostics => {
+  const entries = Object.entries(byDisease).filter(
+    (entry): entry is [string, SimulationDiagnostics] => entry[1] !== undefined
+  );
+  const issueCounts: Record<DiagnosticIssueType, number> = { mass_balance: 0, negative_stock: 0, rate_overflow: 0 };
+  entries.forEach(([, diagnostics]) => {
+    (Object.keys(issueCounts) as DiagnosticIssueType[]).forEach(type => {
+      issueCounts[type] += diagnostics.issueCounts[type];
+    });
+  });
+  
+  return {
+    passed: entries.every(([, diagnostics]) => diagnostics.passed),
+    weeksChecked: Math.max(0, ...entries.map(([, diagnostics]) => diagnostics.weeksChecked)),
+    maxBalanceError: Math.max(0, ...entries.map(([, diagnostics]) => diagnostics.maxBalanceError)),
+    netBalanceError: entries.reduce((sum, [, diagnostics]) => sum + diagnostics.netBalanceError, 0),
+    issueCounts,
+    issues: entries
+      .flatMap(([disease, diagnostics]) => diagnostics.issues.map(issue => ({
+        ...issue,
+        location: `${disease}: ${issue.location}`,
+      })))
+      .slice(0, MAX_REPORTED_ISSUES),
+  };
+};
+
+// Costs and DALYs accumulated up to a given state, before discounting (AI fixed cost excluded)
+const accumulatedCostAndDalys = (
   state: StockAndFlowState,
   params: ModelParameters
-): { totalCost: number; dalys: number } => {
+): { cost: number; dalys: number } => {
   // Calculate total cost
   const patientDaysCost = 
     state.patientDays.I * params.perDiemCosts.I +
@@ -475,94 +1396,791 @@ const calculateEconomics = (
     state.patientDays.L2 * params.perDiemCosts.L2 +
     state.patientDays.L3 * params.perDiemCosts.L3;
   
-  const aiCost = params.aiFixedCost + (params.aiVariableCost * state.episodesTouched);
-  const totalCost = patientDaysCost + aiCost;
+  const aiVariableCost = params.aiVariableCost * state.episodesTouched;
+  const controlledCareCost = (params.controlledCareCost || 0) * (state.controlledWeeks || 0);
+  const aiReinvestmentCost = state.aiReinvestmentCost || 0;
   
-  // Calculate DALYs with age-adjusted YLL and apply discounting
+  // Calculate DALYs with age-adjusted YLL
   // Adjust YLL based on mean age of infection and regional life expectancy
   const adjustedYLL = Math.max(0, params.regionalLifeExpectancy - params.meanAgeOfInfection);
   
-  // Apply discounting factor (1 = no discount, 0.97 = 3% annual discount)
-  const discountFactor = params.discountRate > 0 ? 
-    (1 - params.discountRate) : 1;
-  
-  const deathDalys = state.D * adjustedYLL * discountFactor;
+  const deathDalys = state.D * adjustedYLL;
   
   // Calculate disability days - now including untreated days
   const disabilityDalys = 
     (state.U + // Include untreated days in disability calculation
      state.patientDays.I + state.patientDays.F + state.patientDays.L0 + state.patientDays.L1 + 
-     state.patientDays.L2 + state.patientDays.L3) * (params.disabilityWeight / 365.25) * discountFactor;
+     state.patientDays.L2 + state.patientDays.L3) * (params.disabilityWeight / 365.25);
+  
+  return { cost: patientDaysCost + aiVariableCost + controlledCareCost + aiReinvestmentCost, dalys: deathDalys + disabilityDalys };
+};
+
+// Discount factor for flows in a given week at an annual rate.
+// Flows between two weekly states happen during the week that ends at the later state; with
+// half-cycle correction they are discounted from the middle of that week instead of its end.
+const weeklyDiscountFactor = (annualRate: number, week: number, halfCycleCorrection: boolean): number => {
+  if (annualRate <= 0 || week <= 0) return 1;
+  const years = Math.max(0, week - (halfCycleCorrection ? 0.5 : 0)) / 52;
+  return Math.pow(1 + annualRate, -years);
+};
+
+// Present value of one unit a year for a number of years, discounted at an annual rate
+const annuityFactor = (annualRate: number, years: number): number => {
+  if (years <= 0) return 0;
+  return annualRate > 0 ? (1 - Math.pow(1 + annualRate, -years)) / annualRate : years;
+};
+
+// Age from which lost life years count as lost working years
+const WORKING_AGE_START = 15;
+
+// Present value of the working years a death at a given age takes away, in years of income
+const workingYearsLostValue = (params: ModelParameters, annualRate: number): number => {
+  const age = params.meanAgeOfInfection;
+  const yearsUntilWork = Math.max(0, WORKING_AGE_START - age);
+  const workingYears = Math.max(0, (params.retirementAge ?? 65) - Math.max(age, WORKING_AGE_START));
+  return annuityFactor(annualRate, workingYears) * Math.pow(1 + annualRate, -yearsUntilWork);
+};
+
+// Societal costs of one week: from the state at its start to the state at its end, with that week's flows.
+// Days follow the patient-day convention of accumulatedCostAndDalys (one per person in a stock per week).
+const weeklySocietalCosts = (
+  previous: StockAndFlowState,
+  current: StockAndFlowState,
+  flows: WeeklyFlows | undefined,
+  params: ModelParameters,
+  costRate: number
+): SocietalCosts => {
+  const dailyIncome = (params.costPerCapitaGDP ?? 1000) / 365;
+  const participation = params.labourForceParticipation ?? 0.65;
+  const careDays = (level: keyof StockAndFlowState['patientDays']) =>
+    current.patientDays[level] - previous.patientDays[level];
+  const queued = previous.queues
+    ? previous.queues.L0 + previous.queues.L1 + previous.queues.L2 + previous.queues.L3
+    : 0;
+  const sickDays = previous.U + queued +
+    careDays('I') + careDays('F') + careDays('L0') + careDays('L1') + careDays('L2') + careDays('L3');
+  const facilityAdmissions = flows ? flows.admissions.L1 + flows.admissions.L2 + flows.admissions.L3 : 0;
+  
+  const costs = {
+    patientTime: flows ? (flows.admissions.L0 + facilityAdmissions) * (params.patientTimePerVisit ?? 0.5) * dailyIncome : 0,
+    caregiverTime: (careDays('L1') + careDays('L2') + careDays('L3')) * (params.caregiverTimeShare ?? 0.5) * dailyIncome,
+    illnessProductivity: sickDays * participation * dailyIncome,
+    prematureDeath: (current.D - previous.D) * participation * dailyIncome * 365 * workingYearsLostValue(params, costRate),
+    transport: facilityAdmissions * (params.costTransport ?? 0),
+  };
+  return {
+    ...costs,
+    total: costs.patientTime + costs.caregiverTime + costs.illnessProductivity + costs.prematureDeath + costs.transport,
+  };
+};
+
+interface EconomicOutcomes {
+  undiscountedCost: number;
+  undiscountedDalys: number;
+  discountedCost: number;
+  discountedDalys: number;
+  societalCosts: SocietalCosts;
+}
+
+// Calculate economic outcomes
+// Costs and DALYs accrue week by week and are discounted at their own annual rates
+// (costDiscountRate / healthDiscountRate, both falling back to discountRate). Cumulative counters
+// start at zero after burn-in, and the AI fixed cost is paid upfront.
+// YLL are counted in the week of death rather than spread over the remaining life span.
+// Societal costs are always tallied; they are added to the cost totals under the societal perspective.
+const calculateEconomics = (
+  weeklyStates: StockAndFlowState[],
+  params: ModelParameters,
+  flows: WeeklyFlows[] = []
+): EconomicOutcomes => {
+  const costRate = params.costDiscountRate ?? params.discountRate;
+  const healthRate = params.healthDiscountRate ?? params.discountRate;
+  const halfCycleCorrection = !!params.halfCycleCorrection;
+  const societal = params.costingPerspective === 'societal';
+  
+  let discountedCost = params.aiFixedCost;
+  let discountedDalys = 0;
+  let previous = { cost: 0, dalys: 0 };
+  const societalCosts: SocietalCosts = {
+    patientTime: 0, caregiverTime: 0, illnessProductivity: 0, prematureDeath: 0, transport: 0, total: 0,
+  };
+  
+  weeklyStates.forEach((state, week) => {
+    const current = accumulatedCostAndDalys(state, params);
+    let costIncrement = current.cost - previous.cost;
+    if (week > 0) {
+      const weekCosts = weeklySocietalCosts(weeklyStates[week - 1], state, flows[week - 1], params, costRate);
+      (Object.keys(societalCosts) as (keyof SocietalCosts)[]).forEach(key => {
+        societalCosts[key] += weekCosts[key];
+      });
+      if (societal) costIncrement += weekCosts.total;
+    }
+    discountedCost += costIncrement * weeklyDiscountFactor(costRate, week, halfCycleCorrection);
+    discountedDalys += (current.dalys - previous.dalys) * weeklyDiscountFactor(healthRate, week, halfCycleCorrection);
+    previous = current;
+  });
   
-  const dalys = deathDalys + disabilityDalys;
+  return {
+    undiscountedCost: params.aiFixedCost + previous.cost + (societal ? societalCosts.total : 0),
+    undiscountedDalys: previous.dalys,
+    discountedCost,
+    discountedDalys,
+    societalCosts,
+  };
+};
+
+// Cumulative deaths or resolutions by location over a run's weekly flows
+const sumByLocation = (
+  flows: WeeklyFlows[],
+  outcome: 'deaths' | 'resolutions'
+): Record<OutcomeLocation, number> => {
+  const totals = {} as Record<OutcomeLocation, number>;
+  outcomeLocations.forEach(location => {
+    totals[location] = flows.reduce((sum, week) => sum + week[outcome][location], 0);
+  });
+  return totals;
+};
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, absolute error below 1.5e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Share of households for which spending this much on one episode is catastrophic.
+// Annual household income is lognormal with mean costPerCapitaGDP × householdSize; spending is
+// catastrophic when it exceeds catastrophicThreshold of non-food income.
+const catastrophicProbability = (spend: number, params: ModelParameters): number => {
+  if (spend <= 0) return 0;
+  const meanIncome = (params.costPerCapitaGDP ?? 1000) * (params.householdSize ?? 5);
+  const threshold = (params.catastrophicThreshold ?? 0.4) * (1 - (params.foodShare ?? 0.45));
+  if (meanIncome <= 0 || threshold <= 0) return 1;
+  
+  // Households earning less than this are pushed over the threshold
+  const incomeLimit = spend / threshold;
+  const sigma = params.incomeLogSD ?? 0.8;
+  if (sigma <= 0) return meanIncome < incomeLimit ? 1 : 0;
+  const mu = Math.log(meanIncome) - sigma * sigma / 2;
+  return normalCdf((Math.log(incomeLimit) - mu) / sigma);
+};
+
+const careLevels = ['L0', 'L1', 'L2', 'L3'] as const;
+
+// Out-of-pocket spending and catastrophic expenditure over the reported weeks.
+// Spending uses the same patient days as total cost: informal care is paid in full, formal care
+// at oopShare of per-diem costs, plus user fees and (for facilities) transport per admission.
+// Episodes are grouped by the deepest level reached (admissions not referred onwards) and pay
+// the formal entry cost and every level up to it; informal spending before formal care is not
+// added to the formal path. Episodes that only used informal care pay the average informal spend.
+const calculateFinancialProtection = (
+  finalState: StockAndFlowState,
+  flows: WeeklyFlows[],
+  params: ModelParameters
+): FinancialProtectionOutcomes => {
+  const oopShare = params.oopShare ?? 0;
+  const userFees = params.userFees ?? { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const costTransport = params.costTransport ?? 0;
+  const patientDays = finalState.patientDays;
+  const total = (value: (f: WeeklyFlows) => number) => flows.reduce((sum, f) => sum + value(f), 0);
+  
+  const outOfPocketByLevel: FinancialProtectionOutcomes['outOfPocketByLevel'] = {
+    I: patientDays.I * params.perDiemCosts.I,
+    F: oopShare * patientDays.F * params.perDiemCosts.F,
+    L0: 0,
+    L1: 0,
+    L2: 0,
+    L3: 0,
+  };
+  
+  const formalEntries = total(f => f.toFormal + f.informalToFormal);
+  const informalEntries = total(f => f.toInformal + f.queueBypassed + f.relapsesToInformal);
+  const informalOnly = Math.max(0, informalEntries - total(f => f.informalToFormal));
+  const informalSpend = informalEntries > 0 ? outOfPocketByLevel.I / informalEntries : 0;
+  
+  let episodes = informalOnly;
+  let catastrophicCases = informalOnly * catastrophicProbability(informalSpend, params);
+  let pathSpend = formalEntries > 0 ? outOfPocketByLevel.F / formalEntries : 0;
+  
+  careLevels.forEach(level => {
+    const admissions = total(f => f.admissions[level]);
+    const transport = level === 'L0' ? 0 : costTransport; // CHWs see patients in the community
+    outOfPocketByLevel[level] = (userFees[level] + transport) * admissions +
+      oopShare * patientDays[level] * params.perDiemCosts[level];
+    
+    const referredOnwards = level === 'L3' ? 0 : total(f => f.referrals[level]);
+    const endedHere = Math.max(0, admissions - referredOnwards);
+    pathSpend += admissions > 0 ? outOfPocketByLevel[level] / admissions : 0;
+    episodes += endedHere;
+    catastrophicCases += endedHere * catastrophicProbability(pathSpend, params);
+  });
+  
+  const totalOutOfPocket = Object.values(outOfPocketByLevel).reduce((sum, spend) => sum + spend, 0);
+  return {
+    totalOutOfPocket,
+    outOfPocketByLevel,
+    episodes,
+    outOfPocketPerEpisode: episodes > 0 ? totalOutOfPocket / episodes : 0,
+    catastrophicCases,
+    catastrophicRate: episodes > 0 ? catastrophicCases / episodes : 0,
+  };
+};
+
+// Add up per-disease financial protection outcomes (e.g. the diseases of a multi-disease run)
+export const combineFinancialProtection = (
+  byDisease: (FinancialProtectionOutcomes | undefined)[]
+): FinancialProtectionOutcomes | undefined => {
+  const outcomes = byDisease.filter((entry): entry is FinancialProtectionOutcomes => entry !== undefined);
+  if (outcomes.length === 0) return undefined;
+  
+  const total = (value: (o: FinancialProtectionOutcomes) => number) => outcomes.reduce((sum, o) => sum + value(o), 0);
+  const totalOutOfPocket = total(o => o.totalOutOfPocket);
+  const episodes = total(o => o.episodes);
+  const catastrophicCases = total(o => o.catastrophicCases);
+  return {
+    totalOutOfPocket,
+    outOfPocketByLevel: {
+      I: total(o => o.outOfPocketByLevel.I),
+      F: total(o => o.outOfPocketByLevel.F),
+      L0: total(o => o.outOfPocketByLevel.L0),
+      L1: total(o => o.outOfPocketByLevel.L1),
+      L2: total(o => o.outOfPocketByLevel.L2),
+      L3: total(o => o.outOfPocketByLevel.L3),
+    },
+    episodes,
+    outOfPocketPerEpisode: episodes > 0 ? totalOutOfPocket / episodes : 0,
+    catastrophicCases,
+    catastrophicRate: episodes > 0 ? catastrophicCases / episodes : 0,
+  };
+};
+
+// Relapses, decompensations and the controlled and remission pools over the reported weeks
+const calculateChronicCare = (
+  weeklyStates: StockAndFlowState[],
+  flows: WeeklyFlows[],
+  params: ModelParameters
+): ChronicCareOutcomes | undefined => {
+  if (!modelsChronicCare(params) || weeklyStates.length === 0) return undefined;
+  
+  const finalState = weeklyStates[weeklyStates.length - 1];
+  const controlled = finalState.controlled || 0;
+  const activeEpisodes = totalPeople(finalState) - finalState.R - finalState.D;
+  const average = (value: (state: StockAndFlowState) => number) =>
+    weeklyStates.reduce((sum, state) => sum + value(state), 0) / weeklyStates.length;
+  return {
+    relapses: flows.reduce((sum, f) => sum + f.relapses, 0),
+    decompensations: flows.reduce((sum, f) => sum + f.decompensations, 0),
+    averageControlled: average(state => state.controlled || 0),
+    averageRemission: average(state => state.remission || 0),
+    controlled,
+    activeEpisodes,
+    controlRate: controlled + activeEpisodes > 0 ? controlled / (controlled + activeEpisodes) : 0,
+    controlledCareCost: (params.controlledCareCost || 0) * (finalState.controlledWeeks || 0),
+  };
+};
+
+// New cases against those at lambda, and the infectious people driving them, over the reported weeks
+const calculateTransmission = (
+  weeklyStates: StockAndFlowState[],
+  params: ModelParameters,
+  population: number
+): TransmissionOutcomes | undefined => {
+  if (!modelsTransmission(params) || weeklyStates.length === 0) return undefined;
+  
+  const multiplier = (state: StockAndFlowState) => transmissionIncidenceMultiplier(params, state);
+  // Each state's pressure sets the incidence recorded in the next state
+  const reportedWeeks = weeklyStates.slice(0, -1);
+  const newCases = reportedWeeks.reduce((sum, _, week) => sum + weeklyStates[week + 1].newCases, 0);
+  const referenceCases = reportedWeeks.reduce((sum, state, week) => {
+    const m = multiplier(state);
+    return sum + (m > 0 ? weeklyStates[week + 1].newCases / m : 0);
+  }, 0);
+  // Who is infectious depends on each week's care rates, with AI adoption and forcing applied
+  const infectious = weeklyStates.map((state, week) =>
+    countInfectious(state, applyParameterForcing(applyAIRollout(params, week), week)));
+  // The reference is fixed from week 0 on
+  const reference = weeklyStates[weeklyStates.length - 1].transmissionReference ?? 0;
+  return {
+    models: [params.transmissionModel as TransmissionModel],
+    newCases,
+    referenceCases,
+    averageInfectious: infectious.reduce((sum, count) => sum + count, 0) / weeklyStates.length,
+    referenceInfectious: reference * population,
+    finalIncidenceMultiplier: multiplier(weeklyStates[weeklyStates.length - 1]),
+  };
+};
+
+const aiErrorRates = [
+  'triageUnderReferral',
+  'triageOverReferral',
+  'diagnosticMissedReferral',
+  'diagnosticFalseReferral',
+  'selfCareFalseReassurance',
+] as const;
+
+const hasAIErrors = (params: ModelParameters): boolean =>
+  aiErrorRates.some(rate => (params[rate] || 0) > 0);
+
+// The same parameters with every AI error rate at zero, including in the rollout schedule
+const withoutAIErrors = (params: ModelParameters): ModelParameters => {
+  const errorFree: ModelParameters = { ...params };
+  aiErrorRates.forEach(rate => { errorFree[rate] = 0; });
+  if (params.aiRollout) {
+    const toolEffects: AIRolloutSchedule['toolEffects'] = {};
+    (Object.keys(params.aiRollout.toolEffects) as (keyof AIInterventions)[]).forEach(tool => {
+      const effects = { ...params.aiRollout?.toolEffects[tool] };
+      aiErrorRates.forEach(rate => { delete effects[rate]; });
+      toolEffects[tool] = effects;
+    });
+    const combinedEffects = { ...params.aiRollout.combinedEffects };
+    aiErrorRates.forEach(rate => { delete combinedEffects[rate]; });
+    errorFree.aiRollout = { ...params.aiRollout, toolEffects, combinedEffects };
+  }
+  return errorFree;
+};
+
+// Patients misrouted by AI errors over the reported weeks
+const calculateAIHarms = (
+  flows: WeeklyFlows[],
+  params: ModelParameters
+): AIHarmOutcomes | undefined => {
+  // With a rollout the parameters hold the full-adoption rates
+  if (!hasAIErrors(params)) return undefined;
+  
+  const total = (value: (errors: AIMisroutedPatients) => number) => flows.reduce((sum, f) => sum + value(f.aiErrors), 0);
+  const misrouted: AIMisroutedPatients = {
+    underReferred: total(e => e.underReferred),
+    overReferred: total(e => e.overReferred),
+    missedReferrals: total(e => e.missedReferrals),
+    falseReferrals: total(e => e.falseReferrals),
+    falselyReassured: total(e => e.falselyReassured),
+  };
+  return {
+    ...misrouted,
+    misrouted: Object.values(misrouted).reduce((sum, value) => sum + value, 0),
+  };
+};
+
+// Deaths and DALYs caused by AI errors: the difference from the same run with error-free AI
+const attributeAIHarms = (results: SimulationResults, errorFree: SimulationResults) => {
+  if (!results.aiHarms) return;
+  results.aiHarms.excessDeaths = results.cumulativeDeaths - errorFree.cumulativeDeaths;
+  results.aiHarms.excessDalys = results.dalys - errorFree.dalys;
+};
+
+// Add up the AI harms of several diseases; excess deaths and DALYs only when every disease has them
+export const combineAIHarms = (
+  byDisease: (AIHarmOutcomes | undefined)[]
+): AIHarmOutcomes | undefined => {
+  const outcomes = byDisease.filter((entry): entry is AIHarmOutcomes => entry !== undefined);
+  if (outcomes.length === 0) return undefined;
+  
+  const total = (value: (o: AIHarmOutcomes) => number) => outcomes.reduce((sum, o) => sum + value(o), 0);
+  const attributed = outcomes.every(o => o.excessDeaths !== undefined && o.excessDalys !== undefined);
+  return {
+    underReferred: total(o => o.underReferred),
+    overReferred: total(o => o.overReferred),
+    missedReferrals: total(o => o.missedReferrals),
+    falseReferrals: total(o => o.falseReferrals),
+    falselyReassured: total(o => o.falselyReassured),
+    misrouted: total(o => o.misrouted),
+    excessDeaths: attributed ? total(o => o.excessDeaths || 0) : undefined,
+    excessDalys: attributed ? total(o => o.excessDalys || 0) : undefined,
+  };
+};
+
+// Add up the transmission outcomes of several diseases; the final multiplier is weighted by reference cases
+export const combineTransmission = (
+  byDisease: (TransmissionOutcomes | undefined)[]
+): TransmissionOutcomes | undefined => {
+  const outcomes = byDisease.filter((entry): entry is TransmissionOutcomes => entry !== undefined);
+  if (outcomes.length === 0) return undefined;
+  
+  const total = (value: (o: TransmissionOutcomes) => number) => outcomes.reduce((sum, o) => sum + value(o), 0);
+  const referenceCases = total(o => o.referenceCases);
+  return {
+    models: Array.from(new Set(outcomes.flatMap(o => o.models))),
+    newCases: total(o => o.newCases),
+    referenceCases,
+    averageInfectious: total(o => o.averageInfectious),
+    referenceInfectious: total(o => o.referenceInfectious),
+    finalIncidenceMultiplier: referenceCases > 0
+      ? total(o => o.finalIncidenceMultiplier * o.referenceCases) / referenceCases
+      : 1,
+  };
+};
+
+// Add up the chronic care outcomes of several diseases; undefined when none models chronic care
+export const combineChronicCare = (
+  byDisease: (ChronicCareOutcomes | undefined)[]
+): ChronicCareOutcomes | undefined => {
+  const outcomes = byDisease.filter((entry): entry is ChronicCareOutcomes => entry !== undefined);
+  if (outcomes.length === 0) return undefined;
+  
+  const total = (value: (o: ChronicCareOutcomes) => number) => outcomes.reduce((sum, o) => sum + value(o), 0);
+  const controlled = total(o => o.controlled);
+  const activeEpisodes = total(o => o.activeEpisodes);
+  return {
+    relapses: total(o => o.relapses),
+    decompensations: total(o => o.decompensations),
+    averageControlled: total(o => o.averageControlled),
+    averageRemission: total(o => o.averageRemission),
+    controlled,
+    activeEpisodes,
+    controlRate: controlled + activeEpisodes > 0 ? controlled / (controlled + activeEpisodes) : 0,
+    controlledCareCost: total(o => o.controlledCareCost),
+  };
+};
+
+// Add up the prevalence mode outcomes of several diseases; proportions are weighted by prevalence
+export const combinePrevalenceOutcomes = (
+  byDisease: (PrevalenceOutcomes | undefined)[]
+): PrevalenceOutcomes | undefined => {
+  const outcomes = byDisease.filter((entry): entry is PrevalenceOutcomes => entry !== undefined);
+  if (outcomes.length === 0) return undefined;
+  
+  const total = (value: (o: PrevalenceOutcomes) => number) => outcomes.reduce((sum, o) => sum + value(o), 0);
+  const averagePrevalent = total(o => o.averagePrevalent);
+  const averageControlled = total(o => o.averageControlled);
+  return {
+    averagePrevalent,
+    averageInCare: total(o => o.averageInCare),
+    averageLostToFollowUp: total(o => o.averageLostToFollowUp),
+    averageControlled,
+    proportionControlled: averagePrevalent > 0 ? averageControlled / averagePrevalent : 0,
+    finalProportionControlled: averagePrevalent > 0
+      ? total(o => o.finalProportionControlled * o.averagePrevalent) / averagePrevalent
+      : 0,
+    complications: total(o => o.complications),
+    complicationDeaths: total(o => o.complicationDeaths),
+    otherCauseDeaths: total(o => o.otherCauseDeaths),
+    scheduledVisits: {
+      L0: total(o => o.scheduledVisits.L0),
+      L1: total(o => o.scheduledVisits.L1),
+    },
+    treatmentCost: total(o => o.treatmentCost),
+  };
+};
+
+// Add up several runs' weekly flows week by week (e.g. the diseases of a multi-disease run)
+export const combineWeeklyFlows = (runs: WeeklyFlows[][]): WeeklyFlows[] => {
+  const weeks = Math.min(...runs.map(run => run.length));
+  if (runs.length === 0 || !isFinite(weeks)) return [];
+  
+  return Array.from({ length: weeks }, (_, week) => {
+    const flows = runs.map(run => run[week]);
+    const total = (value: (f: WeeklyFlows) => number) => flows.reduce((sum, f) => sum + value(f), 0);
+    const add = (key: keyof WeeklyFlows) => total(f => f[key] as number);
+    const addLevels = (levels: (f: WeeklyFlows) => LevelCapacity): LevelCapacity => ({
+      L0: total(f => levels(f).L0),
+      L1: total(f => levels(f).L1),
+      L2: total(f => levels(f).L2),
+      L3: total(f => levels(f).L3),
+    });
+    const addLocations = (outcome: 'deaths' | 'resolutions') => {
+      const byLocation = {} as Record<OutcomeLocation, number>;
+      outcomeLocations.forEach(location => {
+        byLocation[location] = total(f => f[outcome][location]);
+      });
+      return byLocation;
+    };
+    
+    return {
+      week: flows[0].week,
+      newCases: add('newCases'),
+      avoidedVisits: add('avoidedVisits'),
+      toFormal: add('toFormal'),
+      toInformal: add('toInformal'),
+      toUntreated: add('toUntreated'),
+      informalToFormal: add('informalToFormal'),
+      directRouting: add('directRouting'),
+      referrals: {
+        L0: total(f => f.referrals.L0),
+        L1: total(f => f.referrals.L1),
+        L2: total(f => f.referrals.L2),
+      },
+      admissions: addLevels(f => f.admissions),
+      queued: addLevels(f => f.queued),
+      preventedQueueing: add('preventedQueueing'),
+      queueAbandoned: add('queueAbandoned'),
+      queueBypassed: add('queueBypassed'),
+      relapses: add('relapses'),
+      decompensations: add('decompensations'),
+      relapsesToInformal: add('relapsesToInformal'),
+      aiErrors: {
+        underReferred: total(f => f.aiErrors.underReferred),
+        overReferred: total(f => f.aiErrors.overReferred),
+        missedReferrals: total(f => f.aiErrors.missedReferrals),
+        falseReferrals: total(f => f.aiErrors.falseReferrals),
+        falselyReassured: total(f => f.aiErrors.falselyReassured),
+      },
+      deaths: addLocations('deaths'),
+      resolutions: addLocations('resolutions'),
+    };
+  });
+};
+
+// Longest episode followed; anything still ongoing by then is reported as unresolved
+const MAX_EPISODE_WEEKS = 520;
+
+// Summary statistics of a time-to-resolution histogram (mass of ended episodes by week since onset)
+const summarizeResolutionTimes = (
+  ended: number[],
+  deaths: number,
+  totalEnded: number
+): TimeToResolutionSummary => {
+  const mass = ended.reduce((sum, m) => sum + m, 0);
+  if (mass <= 0) {
+    return { share: 0, deathShare: 0, mean: 0, median: 0, p25: 0, p75: 0, p90: 0 };
+  }
+  
+  const percentile = (q: number) => {
+    let cumulative = 0;
+    for (let week = 0; week < ended.length; week++) {
+      cumulative += ended[week];
+      if (cumulative >= q * mass) return week;
+    }
+    return ended.length - 1;
+  };
   
-  return { totalCost, dalys };
+  return {
+    share: totalEnded > 0 ? mass / totalEnded : 0,
+    deathShare: deaths / mass,
+    mean: ended.reduce((sum, m, week) => sum + m * week, 0) / mass,
+    median: percentile(0.5),
+    p25: percentile(0.25),
+    p75: percentile(0.75),
+    p90: percentile(0.9),
+  };
 };
 
-// Calculate average time to resolution
+// Calculate time to resolution by following each week's onset cohort through the flows the
+// simulation actually produced. Cohorts move with the per-capita rates of the weeks they live
+// through (the last reported week's rates carry on past the horizon), so congestion, queues,
+// forcing and AI rollout all show up in the distribution. Times are whole weeks from onset:
+// an episode that ends in the week after onset (or is resolved at home straight away) counts as 1.
 const calculateTimeToResolution = (
-  weeklyStates: StockAndFlowState[],
-  params: ModelParameters  
-): number => {
-  // If we have no data, return 0
-  if (weeklyStates.length === 0) return 0;
+  transitions: WeeklyTransitions[]
+): TimeToResolutionDistribution | undefined => {
+  if (transitions.length === 0) return undefined;
+  
+  const compartmentIndex = new Map(cohortCompartments.map((c, i) => [c, i]));
+  const pathwayIndex = new Map(resolutionPathways.map((p, i) => [p, i]));
+  // Moves as flat arrays: this loop runs for every cohort and every week of its episode
+  const compiled = transitions.map(week => ({
+    from: Int32Array.from(week.moves, move => compartmentIndex.get(move.from) as number),
+    to: Int32Array.from(week.moves, move => move.to !== undefined ? compartmentIndex.get(move.to) as number : -1),
+    exit: Int32Array.from(week.moves, move => move.exit !== undefined ? pathwayIndex.get(move.exit) as number : -1),
+    died: week.moves.map(move => !!move.died),
+    fraction: Float64Array.from(week.moves, move => move.fraction),
+  }));
+  
+  const ended = resolutionPathways.map(() => new Array<number>(MAX_EPISODE_WEEKS + 1).fill(0));
+  const deaths = resolutionPathways.map(() => 0);
+  let totalOnsets = 0;
+  let unresolved = 0;
+  
+  const record = (pathway: number, week: number, amount: number, died: boolean) => {
+    ended[pathway][week] += amount;
+    if (died) deaths[pathway] += amount;
+  };
+  
+  transitions.forEach((onsetWeek, start) => {
+    const onsets = onsetWeek.incidence;
+    if (onsets <= 0) return;
+    totalOnsets += onsets;
+    
+    let cohort = new Float64Array(cohortCompartments.length);
+    let next = new Float64Array(cohortCompartments.length);
+    onsetWeek.arrivals.forEach(flow => {
+      if (flow.to !== undefined) {
+        cohort[compartmentIndex.get(flow.to) as number] += onsets * flow.fraction;
+      } else if (flow.exit !== undefined) {
+        record(pathwayIndex.get(flow.exit) as number, 1, onsets * flow.fraction, !!flow.died);
+      }
+    });
+    
+    let remaining = cohort.reduce((sum, n) => sum + n, 0);
+    for (let week = 1; week <= MAX_EPISODE_WEEKS && remaining > onsets * 1e-6; week++) {
+      const moves = compiled[Math.min(start + week, compiled.length - 1)];
+      next.set(cohort);
+      for (let m = 0; m < moves.fraction.length; m++) {
+        const amount = cohort[moves.from[m]] * moves.fraction[m];
+        if (amount <= 0) continue;
+        next[moves.from[m]] -= amount;
+        if (moves.to[m] >= 0) {
+          next[moves.to[m]] += amount;
+        } else if (moves.exit[m] >= 0) {
+          record(moves.exit[m], week, amount, moves.died[m]);
+          remaining -= amount;
+        }
+      }
+      [cohort, next] = [next, cohort];
+    }
+    unresolved += Math.max(0, remaining);
+  });
   
-  // Calculate probability of reaching each level based on referral rates
-  const pInformal = 1 - params.phi0; // Probability of going to informal care
-  const pFormal = params.phi0;       // Probability of going to formal care
+  const overallEnded = ended[0].map((_, week) => ended.reduce((sum, byWeek) => sum + byWeek[week], 0));
+  const totalEnded = overallEnded.reduce((sum, m) => sum + m, 0);
+  const byPathway = {} as Record<ResolutionPathway, TimeToResolutionSummary>;
+  resolutionPathways.forEach((pathway, i) => {
+    byPathway[pathway] = summarizeResolutionTimes(ended[i], deaths[i], totalEnded);
+  });
   
-  // For untreated, it's a portion of those who don't go to formal care
-  const pUntreated = pInformal * params.informalCareRatio;
-  // Adjust informal care probability to account for the portion who are untreated
-  const pInformalAdjusted = pInformal * (1 - params.informalCareRatio);
+  return {
+    overall: summarizeResolutionTimes(overallEnded, deaths.reduce((sum, d) => sum + d, 0), totalEnded),
+    byPathway,
+    unresolvedShare: totalOnsets > 0 ? unresolved / totalOnsets : 0,
+  };
+};
+
+// Stocks compared between weeks to decide whether the burn-in has reached steady state
+const convergenceStocks = (state: StockAndFlowState): number[] => {
+  const queues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  return [
+    state.U, state.I, state.F, state.L0, state.L1, state.L2, state.L3, queues.L0, queues.L1, queues.L2, queues.L3,
+    state.controlled || 0, state.remission || 0,
+  ];
+};
+
+// Advance the model through its burn-in and report how long it took.
+// Burn-in weeks are numbered before week 0 so seasonal forcing lines up with the reported weeks.
+// With seasonal forcing there is no fixed point, so auto mode compares each week with the same
+// week a year earlier and only stops at the end of a year.
+const runBurnIn = (
+  settings: BurnInSettings | undefined,
+  seasonal: boolean,
+  step: (week: number) => void,
+  stocks: () => number[]
+): { weeks: number; converged?: boolean } => {
+  const mode = settings?.mode ?? 'fixed';
+  
+  if (mode === 'none') {
+    return { weeks: 0 };
+  }
   
-  // Probability of being at different formal care levels
-  const pL0 = pFormal;
-  const pL1 = pL0 * params.rho0;
-  const pL2 = pL1 * params.rho1;
-  const pL3 = pL2 * params.rho2;
+  if (mode === 'fixed') {
+    const burnInWeeks = Math.max(0, Math.round(settings?.weeks ?? 52));
+    for (let week = 0; week < burnInWeeks; week++) {
+      step(week - burnInWeeks);
+    }
+    return { weeks: burnInWeeks };
+  }
   
-  // Calculate weighted average resolution rate based on pathway probabilities
-  const weightedResolutionRate = 
-    pUntreated * params.muU +         // Include untreated spontaneous resolution
-    pInformalAdjusted * params.muI + 
-    pL0 * params.mu0 + 
-    pL1 * params.mu1 + 
-    pL2 * params.mu2 + 
-    pL3 * params.mu3;
+  const tolerance = settings?.tolerance ?? 1e-4;
+  const maxWeeks = Math.max(1, Math.round(settings?.maxWeeks ?? 520));
+  const lag = seasonal ? 52 : 1;
+  const history: number[][] = [stocks()];
   
-  // Expected weeks to resolution is inverse of weighted resolution rate
-  // Add a minimum rate to prevent division by zero or unrealistic results
-  const minResolutionRate = 0.01; // 1% weekly resolution rate minimum (100 weeks maximum)
-  const effectiveRate = Math.max(weightedResolutionRate, minResolutionRate);
+  for (let week = 0; week < maxWeeks; week++) {
+    // Numbering keeps the phase of the year, whatever the final burn-in length turns out to be
+    step((week % 52) - 52);
+    const current = stocks();
+    history.push(current);
+    
+    if (history.length > lag + 1) history.shift();
+    if (history.length < lag + 1) continue;
+    if (seasonal && (week + 1) % 52 !== 0) continue;
+    
+    const reference = history[0];
+    const maxChange = Math.max(...current.map((value, i) => Math.abs(value - reference[i]) / Math.max(1, Math.abs(reference[i]))));
+    if (maxChange < tolerance) {
+      return { weeks: week + 1, converged: true };
+    }
+  }
   
-  return 1 / effectiveRate;
+  return { weeks: maxWeeks, converged: false };
 };
 
+// Start reporting from a clean slate: cumulative outcomes and patient days only count reported weeks
+const resetCumulativeCounters = (state: StockAndFlowState): StockAndFlowState => ({
+  ...state,
+  R: 0,
+  D: 0,
+  patientDays: { I: 0, F: 0, L0: 0, L1: 0, L2: 0, L3: 0 },
+  episodesTouched: 0,
+  queueRelatedDeaths: 0,
+  controlledWeeks: 0,
+  aiReinvestmentCost: 0,
+});
+
+// Transmission takes its reference from the end of the burn-in, which must be the endemic level at lambda,
+// so fixed burn-ins run to steady state instead (slow diseases such as TB take years). A cold start is
+// kept as chosen; validation warns that incidence then starts away from lambda.
+const burnInForTransmission = (settings: BurnInSettings | undefined, transmission: boolean): BurnInSettings | undefined =>
+  transmission && (settings?.mode ?? 'fixed') === 'fixed'
+    ? { mode: 'auto', maxWeeks: Math.max(520, settings?.weeks ?? 52) }
+    : settings;
+
+const hasSeasonalForcing = (params: ModelParameters): boolean =>
+  !!params.forcing && Object.values(params.forcing).some(forcing => forcing !== undefined);
+
 // Main simulation function
 export const runSimulation = (
   params: ModelParameters,
   config: SimulationConfig
 ): SimulationResults => {
+  if (params.modelVariant === 'prevalence') {
+    return runPrevalenceSimulation(params, config);
+  }
+  
   const weeklyStates: StockAndFlowState[] = [];
   let currentState = initializeState(config.population, params.lambda, config.initialState);
-  
-  // Add burn-in period (52 weeks = 1 year) to reach steady state
-  const burnInWeeks = 52;
+  const diagnostics = createDiagnosticsCollector();
+  const transitions: WeeklyTransitions[] = [];
+  const flows: WeeklyFlows[] = [];
+  
+  // Advance one week and check it conserves people (reported weeks also record their flows for cohorts)
+  const step = (week: number) => {
+    const nextState = runWeek(currentState, params, config.population, week, undefined, {
+      issues: diagnostics.issues,
+      transitions: week >= 0 && config.trackCohorts !== false ? transitions : undefined,
+      flows: week >= 0 ? flows : undefined,
+    });
+    checkWeekInvariants(currentState, nextState, week, diagnostics);
+    currentState = nextState;
+  };
   
   // Run burn-in period without collecting states
-  for (let week = 0; week < burnInWeeks; week++) {
-    currentState = runWeek(currentState, params, config.population);
+  const burnIn = runBurnIn(
+    burnInForTransmission(config.burnIn, modelsTransmission(params)),
+    hasSeasonalForcing(params),
+    step,
+    () => convergenceStocks(currentState)
+  );
+  if (burnIn.weeks > 0) {
+    currentState = resetCumulativeCounters(currentState);
   }
   
   // Run simulation for specified number of weeks, collecting results
   for (let week = 0; week < config.numWeeks; week++) {
     weeklyStates.push(currentState);
-    currentState = runWeek(currentState, params, config.population);
+    step(week);
   }
   
+  const results = summarizeSimulation(weeklyStates, params, config, {
+    diagnostics: finalizeDiagnostics(diagnostics),
+    timeToResolution: calculateTimeToResolution(transitions),
+    weeklyFlows: flows,
+    burnInWeeks: burnIn.weeks,
+    burnInConverged: burnIn.converged,
+  });
+  if (config.attributeAIHarms && results.aiHarms) {
+    attributeAIHarms(results, runSimulation(withoutAIErrors(params), { ...config, attributeAIHarms: false, trackCohorts: false }));
+  }
+  return results;
+};
+
+// Build SimulationResults (economics, queue and capacity metrics) from collected weekly states
+const summarizeSimulation = (
+  weeklyStates: StockAndFlowState[],
+  params: ModelParameters,
+  config: SimulationConfig,
+  runInfo: Pick<SimulationResults, 'diagnostics' | 'timeToResolution' | 'weeklyFlows' | 'burnInWeeks' | 'burnInConverged'> = {}
+): SimulationResults => {
   const finalState = weeklyStates[weeklyStates.length - 1];
-  const { totalCost, dalys } = calculateEconomics(finalState, params);
+  const economics = calculateEconomics(weeklyStates, params, runInfo.weeklyFlows);
   
   // Calculate capacity utilization metrics
   let totalQueueLengths = { L0: 0, L1: 0, L2: 0, L3: 0 };
@@ -597,22 +2215,675 @@ export const runSimulation = (
   const totalQueuedPatients = totalQueueLengths.L0 + totalQueueLengths.L1 + 
                              totalQueueLengths.L2 + totalQueueLengths.L3;
   
+  // With explicit capacity, report how full each level actually was and the resulting congestion
+  let capacityUtilization: SimulationResults['capacityUtilization'];
+  let simulatedCongestion: number | undefined;
+  const levelCapacity = params.levelCapacity;
+  if (levelCapacity && weeklyStates.length > 0) {
+    const averageOccupancy = (level: keyof LevelCapacity) =>
+      weeklyStates.reduce((sum, state) => sum + state[level], 0) / weeklyStates.length;
+    const utilization = (level: keyof LevelCapacity) =>
+      levelCapacity[level] > 0 ? averageOccupancy(level) / levelCapacity[level] : 0;
+    
+    capacityUtilization = {
+      L0: utilization('L0'),
+      L1: utilization('L1'),
+      L2: utilization('L2'),
+      L3: utilization('L3'),
+    };
+    simulatedCongestion = weeklyStates.reduce(
+      (sum, state) => sum + calculateOccupancyCongestion(state, levelCapacity), 0
+    ) / weeklyStates.length;
+  }
+  
   return {
     weeklyStates,
     cumulativeDeaths: finalState.D,
     cumulativeResolved: finalState.R,
-    // Pass the params to the calculateTimeToResolution function
-    averageTimeToResolution: calculateTimeToResolution(weeklyStates, params),
-    totalCost,
-    dalys,
+    averageTimeToResolution: runInfo.timeToResolution?.overall.mean ?? 0,
+    totalCost: economics.discountedCost,
+    dalys: economics.discountedDalys,
+    undiscountedCost: economics.undiscountedCost,
+    undiscountedDalys: economics.undiscountedDalys,
+    costingPerspective: params.costingPerspective ?? 'health_system',
+    societalCosts: economics.societalCosts,
     // Capacity metrics
     averageQueueLength,
     peakQueueLength: (peakQueues.L0 + peakQueues.L1 + peakQueues.L2 + peakQueues.L3) > 0 ? peakQueues : undefined,
     totalQueuedPatients: totalQueuedPatients > 0 ? totalQueuedPatients : undefined,
     queueRelatedDeaths: finalState.queueRelatedDeaths || undefined,
+    capacityUtilization,
+    simulatedCongestion,
+    // Totals use the weeks whose results reach a reported state, so they add up to cumulativeDeaths/Resolved
+    deathsByLocation: runInfo.weeklyFlows ? sumByLocation(runInfo.weeklyFlows.slice(0, weeklyStates.length - 1), 'deaths') : undefined,
+    resolutionsByLocation: runInfo.weeklyFlows ? sumByLocation(runInfo.weeklyFlows.slice(0, weeklyStates.length - 1), 'resolutions') : undefined,
+    financialProtection: runInfo.weeklyFlows
+      ? calculateFinancialProtection(finalState, runInfo.weeklyFlows.slice(0, weeklyStates.length - 1), params)
+      : undefined,
+    chronicCare: calculateChronicCare(weeklyStates, (runInfo.weeklyFlows || []).slice(0, weeklyStates.length - 1), params),
+    transmission: calculateTransmission(weeklyStates, params, config.population),
+    aiHarms: runInfo.weeklyFlows
+      ? calculateAIHarms(runInfo.weeklyFlows.slice(0, weeklyStates.length - 1), params)
+      : undefined,
+    ...runInfo,
+  };
+};
+
+// Prevalence mode: the people living with a chronic condition, by where they are in their care
+interface PrevalenceState {
+  undiagnosed: number;
+  adherent: number;           // in care and taking treatment as prescribed
+  nonAdherent: number;        // in care, not taking treatment as prescribed
+  lostToFollowUp: number;     // diagnosed, no longer attending
+  complication: number;       // in hospital with a complication
+  controlled: number;         // adherent patients whose condition is controlled
+  newCases: number;           // this week
+  // Cumulative counters, reset after burn-in
+  complications: number;
+  complicationsSurvived: number;
+  complicationDeaths: number;
+  otherCauseDeaths: number;
+  visits: { L0: number; L1: number };
+  complicationWeeks: { L2: number; L3: number };
+  adherentWeeks: number;
+  aiEncounters: number;       // scheduled visits supported by AI, at the adoption reached each week
+  cost: number;               // undiscounted, AI fixed cost excluded
+  dalys: number;              // undiscounted
+}
+
+const livingPrevalent = (state: PrevalenceState): number =>
+  state.undiagnosed + state.adherent + state.nonAdherent + state.lostToFollowUp + state.complication;
+
+const emptyPrevalenceCounters = () => ({
+  complications: 0,
+  complicationsSurvived: 0,
+  complicationDeaths: 0,
+  otherCauseDeaths: 0,
+  visits: { L0: 0, L1: 0 },
+  complicationWeeks: { L2: 0, L3: 0 },
+  adherentWeeks: 0,
+  aiEncounters: 0,
+  cost: 0,
+  dalys: 0,
+});
+
+// Everyone in care starts adherent; the burn-in settles the split
+const initializePrevalenceState = (population: number, params: ModelParameters): PrevalenceState => {
+  const prevalent = (params.initialPrevalence ?? 0.1) * population;
+  const inCare = prevalent * (params.diagnosedShare ?? 0.5);
+  return {
+    undiagnosed: prevalent - inCare,
+    adherent: inCare,
+    nonAdherent: 0,
+    lostToFollowUp: 0,
+    complication: 0,
+    controlled: inCare * Math.min(1, params.controlProbability ?? 0.7),
+    newCases: 0,
+    ...emptyPrevalenceCounters(),
+  };
+};
+
+// Run one week of prevalence mode. New cases are undiagnosed; diagnosis starts care; in care,
+// patients drift between adherent and non-adherent and can be lost to follow-up; anyone can have a
+// complication (less often when controlled), treated in hospital and followed by care again.
+const runPrevalenceWeek = (
+  state: PrevalenceState,
+  baseParams: ModelParameters,
+  population: number,
+  week: number,
+  issues?: DiagnosticIssue[]
+): PrevalenceState => {
+  const params = applyParameterForcing(applyAIRollout(baseParams, week), week);
+  const otherDeath = (params.otherCauseMortality ?? 0.01) / 52;
+  const visitRate = (params.visitsPerYear ?? 4) / 52;
+  const controlProbability = Math.min(1, params.controlProbability ?? 0.7);
+  const complicationRate = params.complicationRate ?? 0.001;
+  const adherentComplicationRate = complicationRate *
+    (1 - controlProbability + controlProbability * (params.controlledComplicationRR ?? 0.5));
+  const dischargeRate = 1 / Math.max(1, params.complicationWeeks ?? 2);
+  const lossToFollowUp = params.lossToFollowUpRate ?? 0.005;
+  
+  // Outflows of one stock, scaled down together when the rates add up to more than 1
+  const outflows = (stock: number, location: string, rates: number[]): number[] => {
+    const scale = outflowScale(rates, location, week, issues);
+    return rates.map(rate => rate * scale * stock);
+  };
+  
+  const [diagnosed, undiagnosedComplications, undiagnosedDeaths] = outflows(
+    state.undiagnosed, 'undiagnosed', [params.diagnosisRate ?? 0.01, complicationRate, otherDeath]
+  );
+  const [adherenceLost, adherentLost, adherentComplications, adherentDeaths] = outflows(
+    state.adherent, 'adherent', [params.adherenceLossRate ?? 0.01, lossToFollowUp, adherentComplicationRate, otherDeath]
+  );
+  const [backOnTreatment, nonAdherentLost, nonAdherentComplications, nonAdherentDeaths] = outflows(
+    state.nonAdherent, 'non-adherent', [visitRate * (params.adherenceRecovery ?? 0.3), lossToFollowUp, complicationRate, otherDeath]
+  );
+  const [returned, lostComplications, lostDeaths] = outflows(
+    state.lostToFollowUp, 'lost to follow-up', [params.returnToCareRate ?? 0.005, complicationRate, otherDeath]
+  );
+  const [discharged, complicationOtherDeaths] = outflows(state.complication, 'complication', [dischargeRate, otherDeath]);
+  
+  const complicationMortality = Math.min(1, params.complicationMortality ?? 0.1);
+  const complicationDeaths = discharged * complicationMortality;
+  const complicationsSurvived = discharged - complicationDeaths;
+  const newComplications = undiagnosedComplications + adherentComplications + nonAdherentComplications + lostComplications;
+  const newCases = (params.chronicIncidence ?? 0) * Math.max(0, population - livingPrevalent(state)) / 52;
+  
+  // Scheduled visits and hospital weeks of the patients under care at the start of the week
+  const l0Share = params.l0VisitShare ?? 0.3;
+  const visits = (state.adherent + state.nonAdherent) * visitRate;
+  const l3Share = params.complicationL3Share ?? 0.2;
+  const visitsL0 = visits * l0Share;
+  const visitsL1 = visits * (1 - l0Share);
+  const weeksL2 = state.complication * (1 - l3Share);
+  const weeksL3 = state.complication * l3Share;
+  
+  // Every scheduled visit is an AI-supported encounter; during a rollout only the adopted share
+  const aiCoverage = baseParams.aiRollout && baseParams.aiVariableCost > 0
+    ? params.aiVariableCost / baseParams.aiVariableCost
+    : 1;
+  const aiEncounters = baseParams.aiVariableCost > 0 ? visits * aiCoverage : 0;
+  
+  // Costs: one day of care per visit, per-diem costs for each week in hospital, treatment for
+  // adherent patients, AI per supported visit and any AI re-investment due this week
+  const weekCost = visitsL0 * params.perDiemCosts.L0 + visitsL1 * params.perDiemCosts.L1 +
+    weeksL2 * params.perDiemCosts.L2 + weeksL3 * params.perDiemCosts.L3 +
+    state.adherent * (params.controlledCareCost || 0) + aiEncounters * baseParams.aiVariableCost +
+    (params.aiReinvestmentCost || 0);
+  
+  // DALYs: person-weeks lived at each disability weight, and life years lost to fatal complications
+  const uncontrolled = livingPrevalent(state) - state.complication - state.controlled;
+  const yldWeeks = uncontrolled * (params.uncontrolledDisabilityWeight ?? params.disabilityWeight) +
+    state.controlled * (params.controlledDisabilityWeight ?? params.disabilityWeight * 0.25) +
+    state.complication * (params.complicationDisabilityWeight ?? Math.min(1, params.disabilityWeight * 3));
+  const adjustedYLL = Math.max(0, params.regionalLifeExpectancy - params.meanAgeOfInfection);
+  
+  const adherent = state.adherent + diagnosed + backOnTreatment + returned + complicationsSurvived -
+    adherenceLost - adherentLost - adherentComplications - adherentDeaths;
+  
+  return {
+    undiagnosed: state.undiagnosed + newCases - diagnosed - undiagnosedComplications - undiagnosedDeaths,
+    adherent,
+    nonAdherent: state.nonAdherent + adherenceLost - backOnTreatment - nonAdherentLost - nonAdherentComplications - nonAdherentDeaths,
+    lostToFollowUp: state.lostToFollowUp + adherentLost + nonAdherentLost - returned - lostComplications - lostDeaths,
+    complication: state.complication + newComplications - discharged - complicationOtherDeaths,
+    controlled: adherent * controlProbability,
+    newCases,
+    complications: state.complications + newComplications,
+    complicationsSurvived: state.complicationsSurvived + complicationsSurvived,
+    complicationDeaths: state.complicationDeaths + complicationDeaths,
+    otherCauseDeaths: state.otherCauseDeaths +
+      undiagnosedDeaths + adherentDeaths + nonAdherentDeaths + lostDeaths + complicationOtherDeaths,
+    visits: { L0: state.visits.L0 + visitsL0, L1: state.visits.L1 + visitsL1 },
+    complicationWeeks: { L2: state.complicationWeeks.L2 + weeksL2, L3: state.complicationWeeks.L3 + weeksL3 },
+    adherentWeeks: state.adherentWeeks + state.adherent,
+    aiEncounters: state.aiEncounters + aiEncounters,
+    cost: state.cost + weekCost,
+    dalys: state.dalys + yldWeeks / 52 + complicationDeaths * adjustedYLL,
+  };
+};
+
+// Check one week of prevalence mode: people with the condition only change by new cases and
+// deaths, and no stock may be negative
+const checkPrevalenceWeek = (
+  previous: PrevalenceState,
+  next: PrevalenceState,
+  week: number,
+  collector: DiagnosticsCollector
+): void => {
+  const accounted = (state: PrevalenceState) => livingPrevalent(state) + state.complicationDeaths + state.otherCauseDeaths;
+  const residual = accounted(next) - accounted(previous) - next.newCases;
+  const tolerance = 1e-6 * Math.max(1, accounted(next));
+  
+  collector.weeksChecked++;
+  collector.netBalanceError += residual;
+  collector.maxBalanceError = Math.max(collector.maxBalanceError, Math.abs(residual));
+  
+  if (!isFinite(residual) || Math.abs(residual) > tolerance) {
+    collector.issues.push({
+      week,
+      type: 'mass_balance',
+      severity: 'error',
+      location: 'all stocks',
+      value: residual,
+      message: `${Math.abs(residual).toFixed(2)} people ${residual > 0 ? 'created' : 'lost'} in week ${week}`,
+    });
+  }
+  
+  const stocks: [string, number][] = [
+    ['undiagnosed', next.undiagnosed], ['adherent', next.adherent], ['non-adherent', next.nonAdherent],
+    ['lost to follow-up', next.lostToFollowUp], ['complication', next.complication],
+  ];
+  stocks.forEach(([location, value]) => {
+    if (value < -tolerance || isNaN(value)) {
+      collector.issues.push({
+        week,
+        type: 'negative_stock',
+        severity: 'error',
+        location,
+        value,
+        message: `${location} is ${value.toFixed(2)} in week ${week}`,
+      });
+    }
+  });
+};
+
+// Show a prevalence state in the stocks of the episode model, so charts and budget tools work on
+// both: not in care as U, scheduled care at L0/L1, complications at L2/L3, survived complications
+// as R and fatal ones as D. Patient days at L0/L1 are visit days.
+const toStockAndFlowState = (state: PrevalenceState, params: ModelParameters): StockAndFlowState => {
+  const inCare = state.adherent + state.nonAdherent;
+  const l0Share = params.l0VisitShare ?? 0.3;
+  const l3Share = params.complicationL3Share ?? 0.2;
+  return {
+    U: state.undiagnosed + state.lostToFollowUp,
+    I: 0,
+    F: 0,
+    L0: inCare * l0Share,
+    L1: inCare * (1 - l0Share),
+    L2: state.complication * (1 - l3Share),
+    L3: state.complication * l3Share,
+    R: state.complicationsSurvived,
+    D: state.complicationDeaths,
+    patientDays: {
+      I: 0,
+      F: 0,
+      L0: state.visits.L0,
+      L1: state.visits.L1,
+      L2: state.complicationWeeks.L2,
+      L3: state.complicationWeeks.L3,
+    },
+    newCases: state.newCases,
+    episodesTouched: state.aiEncounters,
+    controlled: state.controlled,
+  };
+};
+
+// Societal costs of one prevalence-mode week, on the conventions of weeklySocietalCosts: every scheduled
+// visit and complication admission costs patient time, facility visits and admissions cost transport,
+// and each complication week counts as a care day. Only complications keep people from work, and only
+// fatal complications count as premature deaths.
+const weeklyPrevalenceSocietalCosts = (
+  previous: PrevalenceState,
+  current: PrevalenceState,
+  params: ModelParameters,
+  costRate: number
+): SocietalCosts => {
+  const dailyIncome = (params.costPerCapitaGDP ?? 1000) / 365;
+  const participation = params.labourForceParticipation ?? 0.65;
+  const admissions = current.complications - previous.complications;
+  const visitsL0 = current.visits.L0 - previous.visits.L0;
+  const visitsL1 = current.visits.L1 - previous.visits.L1;
+  const complicationDays = current.complicationWeeks.L2 + current.complicationWeeks.L3 -
+    previous.complicationWeeks.L2 - previous.complicationWeeks.L3;
+  
+  const costs = {
+    patientTime: (visitsL0 + visitsL1 + admissions) * (params.patientTimePerVisit ?? 0.5) * dailyIncome,
+    caregiverTime: complicationDays * (params.caregiverTimeShare ?? 0.5) * dailyIncome,
+    illnessProductivity: complicationDays * participation * dailyIncome,
+    prematureDeath: (current.complicationDeaths - previous.complicationDeaths) *
+      participation * dailyIncome * 365 * workingYearsLostValue(params, costRate),
+    transport: (visitsL1 + admissions) * (params.costTransport ?? 0),
+  };
+  return {
+    ...costs,
+    total: costs.patientTime + costs.caregiverTime + costs.illnessProductivity + costs.prematureDeath + costs.transport,
+  };
+};
+
+// Simulate a disease in prevalence mode; runSimulation hands over when modelVariant is 'prevalence'.
+// Financial protection and cohort times are not available in this mode.
+const runPrevalenceSimulation = (
+  params: ModelParameters,
+  config: SimulationConfig
+): SimulationResults => {
+  const states: PrevalenceState[] = [];
+  let currentState = initializePrevalenceState(config.population, params);
+  const diagnostics = createDiagnosticsCollector();
+  
+  const step = (week: number) => {
+    const nextState = runPrevalenceWeek(currentState, params, config.population, week, diagnostics.issues);
+    checkPrevalenceWeek(currentState, nextState, week, diagnostics);
+    currentState = nextState;
+  };
+  
+  const burnIn = runBurnIn(
+    config.burnIn,
+    hasSeasonalForcing(params),
+    step,
+    () => [currentState.undiagnosed, currentState.adherent, currentState.nonAdherent, currentState.lostToFollowUp, currentState.complication]
+  );
+  if (burnIn.weeks > 0) {
+    currentState = { ...currentState, ...emptyPrevalenceCounters() };
+  }
+  
+  for (let week = 0; week < config.numWeeks; week++) {
+    states.push(currentState);
+    step(week);
+  }
+  
+  const costRate = params.costDiscountRate ?? params.discountRate;
+  const healthRate = params.healthDiscountRate ?? params.discountRate;
+  const halfCycleCorrection = !!params.halfCycleCorrection;
+  const societal = params.costingPerspective === 'societal';
+  let discountedCost = params.aiFixedCost;
+  let discountedDalys = 0;
+  const societalCosts: SocietalCosts = {
+    patientTime: 0, caregiverTime: 0, illnessProductivity: 0, prematureDeath: 0, transport: 0, total: 0,
+  };
+  states.forEach((state, week) => {
+    if (week === 0) return;
+    const weekCosts = weeklyPrevalenceSocietalCosts(states[week - 1], state, params, costRate);
+    (Object.keys(societalCosts) as (keyof SocietalCosts)[]).forEach(key => {
+      societalCosts[key] += weekCosts[key];
+    });
+    const costIncrement = state.cost - states[week - 1].cost + (societal ? weekCosts.total : 0);
+    discountedCost += costIncrement * weeklyDiscountFactor(costRate, week, halfCycleCorrection);
+    discountedDalys += (state.dalys - states[week - 1].dalys) * weeklyDiscountFactor(healthRate, week, halfCycleCorrection);
+  });
+  
+  const finalState = states[states.length - 1];
+  const average = (value: (state: PrevalenceState) => number) =>
+    states.reduce((sum, state) => sum + value(state), 0) / states.length;
+  const averagePrevalent = average(livingPrevalent);
+  const averageControlled = average(state => state.controlled);
+  const finalPrevalent = livingPrevalent(finalState);
+  
+  return {
+    weeklyStates: states.map(state => toStockAndFlowState(state, params)),
+    cumulativeDeaths: finalState.complicationDeaths,
+    cumulativeResolved: finalState.complicationsSurvived,
+    averageTimeToResolution: 0,
+    totalCost: discountedCost,
+    dalys: discountedDalys,
+    undiscountedCost: params.aiFixedCost + finalState.cost + (societal ? societalCosts.total : 0),
+    undiscountedDalys: finalState.dalys,
+    costingPerspective: params.costingPerspective ?? 'health_system',
+    societalCosts,
+    diagnostics: finalizeDiagnostics(diagnostics),
+    burnInWeeks: burnIn.weeks,
+    burnInConverged: burnIn.converged,
+    prevalenceOutcomes: {
+      averagePrevalent,
+      averageInCare: average(state => state.adherent + state.nonAdherent),
+      averageLostToFollowUp: average(state => state.lostToFollowUp),
+      averageControlled,
+      proportionControlled: averagePrevalent > 0 ? averageControlled / averagePrevalent : 0,
+      finalProportionControlled: finalPrevalent > 0 ? finalState.controlled / finalPrevalent : 0,
+      complications: finalState.complications,
+      complicationDeaths: finalState.complicationDeaths,
+      otherCauseDeaths: finalState.otherCauseDeaths,
+      scheduledVisits: { ...finalState.visits },
+      treatmentCost: finalState.adherentWeeks * (params.controlledCareCost || 0),
+    },
+  };
+};
+
+// Coupled multi-disease simulation: all diseases step forward together and compete for one capacity pool
+export interface CoupledSimulationConfig extends SimulationConfig {
+  sharedCapacity: LevelCapacity;      // L0-L3 capacity shared by all simulated diseases
+  reservedCapacityFraction?: number;  // part of the pool ring-fenced by capacityShare (default 0.5)
+}
+
+export interface CoupledSimulationResults {
+  diseaseResults: Record<string, SimulationResults>;
+  combinedWeeklyStates: StockAndFlowState[]; // sum of all disease states, week by week
+  capacityUtilization: {               // average occupancy / shared capacity per level
+    L0: number;
+    L1: number;
+    L2: number;
+    L3: number;
+  };
+  simulatedCongestion: number;         // average congestion of the shared pool (0-1)
+  capacityAccess: Record<string, LevelCapacity>; // share of each disease's demand that got capacity (0-1)
+}
+
+const LEVELS: (keyof LevelCapacity)[] = ['L0', 'L1', 'L2', 'L3'];
+
+// Patients who want a place at each level this week: current occupants, queue and expected arrivals,
+// including formal care entries routed straight past L0
+const estimateLevelDemand = (
+  state: StockAndFlowState,
+  params: ModelParameters,
+  congestion: number
+): LevelCapacity => {
+  const queues = state.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const routing = formalRoutingShares(params, congestion);
+  return {
+    L0: state.L0 + queues.L0 + routing.L0 * state.F,
+    L1: state.L1 + queues.L1 + params.rho0 * state.L0 + routing.L1 * state.F,
+    L2: state.L2 + queues.L2 + params.rho1 * state.L1 + routing.L2 * state.F,
+    L3: state.L3 + queues.L3 + params.rho2 * state.L2,
+  };
+};
+
+// Split one level's capacity between diseases.
+// Each disease is first guaranteed its ring-fenced floor (up to its demand); the rest is contested,
+// handed out in proportion to unmet demand weighted by clinical priority. Anything left once all
+// demand is met is spread by entitlement so no disease is constrained by an imperfect demand estimate.
+const allocateLevelCapacity = (
+  capacity: number,
+  demands: number[],
+  floors: number[],
+  weights: number[],
+  entitlements: number[]
+): number[] => {
+  const grants = demands.map((demand, i) => Math.min(demand, floors[i]));
+  let pool = capacity - grants.reduce((sum, g) => sum + g, 0);
+  
+  for (let round = 0; round < demands.length && pool > 1e-9; round++) {
+    const weightedUnmet = demands.map((demand, i) => Math.max(0, demand - grants[i]) * weights[i]);
+    const totalWeightedUnmet = weightedUnmet.reduce((sum, w) => sum + w, 0);
+    if (totalWeightedUnmet <= 1e-9) break;
+    
+    let distributed = 0;
+    weightedUnmet.forEach((w, i) => {
+      const given = Math.min(pool * w / totalWeightedUnmet, Math.max(0, demands[i] - grants[i]));
+      grants[i] += given;
+      distributed += given;
+    });
+    pool -= distributed;
+  }
+  
+  if (pool > 1e-9) {
+    const totalEntitlement = entitlements.reduce((sum, e) => sum + e, 0);
+    entitlements.forEach((e, i) => {
+      grants[i] += totalEntitlement > 0 ? pool * e / totalEntitlement : pool / entitlements.length;
+    });
+  }
+  
+  return grants;
+};
+
+const addStates = (a: StockAndFlowState, b: StockAndFlowState): StockAndFlowState => {
+  const queuesA = a.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  const queuesB = b.queues || { L0: 0, L1: 0, L2: 0, L3: 0 };
+  return {
+    U: a.U + b.U,
+    I: a.I + b.I,
+    F: a.F + b.F,
+    L0: a.L0 + b.L0,
+    L1: a.L1 + b.L1,
+    L2: a.L2 + b.L2,
+    L3: a.L3 + b.L3,
+    R: a.R + b.R,
+    D: a.D + b.D,
+    patientDays: {
+      I: a.patientDays.I + b.patientDays.I,
+      F: a.patientDays.F + b.patientDays.F,
+      L0: a.patientDays.L0 + b.patientDays.L0,
+      L1: a.patientDays.L1 + b.patientDays.L1,
+      L2: a.patientDays.L2 + b.patientDays.L2,
+      L3: a.patientDays.L3 + b.patientDays.L3,
+    },
+    newCases: a.newCases + b.newCases,
+    episodesTouched: a.episodesTouched + b.episodesTouched,
+    queues: {
+      L0: queuesA.L0 + queuesB.L0,
+      L1: queuesA.L1 + queuesB.L1,
+      L2: queuesA.L2 + queuesB.L2,
+      L3: queuesA.L3 + queuesB.L3,
+    },
+    queueRelatedDeaths: (a.queueRelatedDeaths || 0) + (b.queueRelatedDeaths || 0),
+    controlled: (a.controlled || 0) + (b.controlled || 0),
+    remission: (a.remission || 0) + (b.remission || 0),
+    relapses: (a.relapses || 0) + (b.relapses || 0),
+    controlledWeeks: (a.controlledWeeks || 0) + (b.controlledWeeks || 0),
+    aiReinvestmentCost: (a.aiReinvestmentCost || 0) + (b.aiReinvestmentCost || 0),
+  };
+};
+
+// Run several diseases as one health system. Each week the shared capacity is divided between
+// diseases (capacityShare ring-fences part of it, clinicalPriority decides the contested rest),
+// then every disease takes its step with the congestion of the whole pool.
+export const runCoupledSimulation = (
+  diseaseParams: Record<string, ModelParameters>,
+  config: CoupledSimulationConfig
+): CoupledSimulationResults => {
+  const diseases = Object.keys(diseaseParams);
+  const sharedCapacity = config.sharedCapacity;
+  const reservedFraction = config.reservedCapacityFraction ?? 0.5;
+  
+  const entitlements = diseases.map(d => diseaseParams[d].capacityShare || 0.1);
+  const totalEntitlement = entitlements.reduce((sum, e) => sum + e, 0);
+  const weights = diseases.map(d => diseaseParams[d].clinicalPriority || 0.5);
+  
+  let states = diseases.map(d => initializeState(config.population, diseaseParams[d].lambda, config.initialState));
+  const weeklyStatesByDisease: StockAndFlowState[][] = diseases.map(() => []);
+  const combinedWeeklyStates: StockAndFlowState[] = [];
+  const diagnostics = diseases.map(() => createDiagnosticsCollector());
+  const transitions: WeeklyTransitions[][] = diseases.map(() => []);
+  const flows: WeeklyFlows[][] = diseases.map(() => []);
+  const servedDemand = diseases.map(() => ({ L0: 0, L1: 0, L2: 0, L3: 0 }));
+  const totalDemand = diseases.map(() => ({ L0: 0, L1: 0, L2: 0, L3: 0 }));
+  
+  const stepAll = (week: number, collect: boolean) => {
+    const combined = states.reduce(addStates);
+    const congestion = calculateOccupancyCongestion(combined, sharedCapacity);
+    const demands = diseases.map((d, i) => estimateLevelDemand(states[i], applyParameterForcing(applyAIRollout(diseaseParams[d], week), week), congestion));
+    
+    const allocations: LevelCapacity[] = diseases.map(() => ({ L0: 0, L1: 0, L2: 0, L3: 0 }));
+    LEVELS.forEach(level => {
+      const floors = entitlements.map(e => sharedCapacity[level] * reservedFraction * e / totalEntitlement);
+      const grants = allocateLevelCapacity(
+        sharedCapacity[level],
+        demands.map(demand => demand[level]),
+        floors,
+        weights,
+        entitlements
+      );
+      grants.forEach((grant, i) => {
+        allocations[i][level] = grant;
+        if (collect) {
+          servedDemand[i][level] += Math.min(grant, demands[i][level]);
+          totalDemand[i][level] += demands[i][level];
+        }
+      });
+    });
+    
+    if (collect) {
+      states.forEach((state, i) => weeklyStatesByDisease[i].push(state));
+      combinedWeeklyStates.push(combined);
+    }
+    
+    states = states.map((state, i) => {
+      const nextState = runWeek(
+        state,
+        { ...diseaseParams[diseases[i]], levelCapacity: allocations[i] },
+        config.population,
+        week,
+        congestion,
+        {
+          issues: diagnostics[i].issues,
+          transitions: collect && config.trackCohorts !== false ? transitions[i] : undefined,
+          flows: collect ? flows[i] : undefined,
+        }
+      );
+      checkWeekInvariants(state, nextState, week, diagnostics[i]);
+      return nextState;
+    });
+  };
+  
+  // Same burn-in as runSimulation, converging on the stocks of all diseases together
+  const burnIn = runBurnIn(
+    burnInForTransmission(config.burnIn, diseases.some(d => modelsTransmission(diseaseParams[d]))),
+    diseases.some(d => hasSeasonalForcing(diseaseParams[d])),
+    week => stepAll(week, false),
+    () => states.flatMap(convergenceStocks)
+  );
+  if (burnIn.weeks > 0) {
+    states = states.map(resetCumulativeCounters);
+  }
+  for (let week = 0; week < config.numWeeks; week++) {
+    stepAll(week, true);
+  }
+  
+  const diseaseResults: Record<string, SimulationResults> = {};
+  const capacityAccess: Record<string, LevelCapacity> = {};
+  diseases.forEach((d, i) => {
+    // Per-disease results are reported without capacity metrics; those belong to the shared pool
+    diseaseResults[d] = summarizeSimulation(
+      weeklyStatesByDisease[i],
+      { ...diseaseParams[d], levelCapacity: undefined },
+      config,
+      {
+        diagnostics: finalizeDiagnostics(diagnostics[i]),
+        timeToResolution: calculateTimeToResolution(transitions[i]),
+        weeklyFlows: flows[i],
+        burnInWeeks: burnIn.weeks,
+        burnInConverged: burnIn.converged,
+      }
+    );
+    capacityAccess[d] = {
+      L0: totalDemand[i].L0 > 0 ? servedDemand[i].L0 / totalDemand[i].L0 : 1,
+      L1: totalDemand[i].L1 > 0 ? servedDemand[i].L1 / totalDemand[i].L1 : 1,
+      L2: totalDemand[i].L2 > 0 ? servedDemand[i].L2 / totalDemand[i].L2 : 1,
+      L3: totalDemand[i].L3 > 0 ? servedDemand[i].L3 / totalDemand[i].L3 : 1,
+    };
+  });
+  
+  if (config.attributeAIHarms && diseases.some(d => diseaseResults[d].aiHarms)) {
+    const errorFreeParams: Record<string, ModelParameters> = {};
+    diseases.forEach(d => { errorFreeParams[d] = withoutAIErrors(diseaseParams[d]); });
+    const errorFree = runCoupledSimulation(errorFreeParams, { ...config, attributeAIHarms: false, trackCohorts: false });
+    diseases.forEach(d => attributeAIHarms(diseaseResults[d], errorFree.diseaseResults[d]));
+  }
+  
+  const weeks = Math.max(1, combinedWeeklyStates.length);
+  const utilization = (level: keyof LevelCapacity) => sharedCapacity[level] > 0
+    ? combinedWeeklyStates.reduce((sum, state) => sum + state[level], 0) / weeks / sharedCapacity[level]
+    : 0;
+  
+  return {
+    diseaseResults,
+    combinedWeeklyStates,
+    capacityUtilization: {
+      L0: utilization('L0'),
+      L1: utilization('L1'),
+      L2: utilization('L2'),
+      L3: utilization('L3'),
+    },
+    simulatedCongestion: combinedWeeklyStates.reduce(
+      (sum, state) => sum + calculateOccupancyCongestion(state, sharedCapacity), 0
+    ) / weeks,
+    capacityAccess,
   };
 };
 
+// Quadrants of the cost-effectiveness plane (x = DALYs averted, y = incremental cost)
+export type CEPlaneQuadrant =
+  | 'dominant'            // cheaper and more effective (SE)
+  | 'costlier_effective'  // more costly and more effective (NE) - ICER is meaningful
+  | 'cheaper_less_effective' // cheaper but less effective (SW)
+  | 'dominated';          // more costly and less effective (NW)
+
+export const classifyCEPlaneQuadrant = (incrementalCost: number, dalysAverted: number): CEPlaneQuadrant => {
+  if (dalysAverted >= 0) {
+    return incrementalCost <= 0 ? 'dominant' : 'costlier_effective';
+  }
+  return incrementalCost <= 0 ? 'cheaper_less_effective' : 'dominated';
+};
+
 // Calculate ICER between intervention and baseline
 export const calculateICER = (
   intervention: SimulationResults,
@@ -629,6 +2900,22 @@ export const calculateICER = (
   // Store raw calculated value on the intervention results
   intervention.rawIcerValue = dalyDiff !== 0 ? costDiff / dalyDiff : Infinity;
   
+  // Keep the incremental values so the plane position is not lost behind the symbolic dominant value
+  intervention.incrementalCost = costDiff;
+  intervention.incrementalDalysAverted = dalyDiff;
+  intervention.cePlaneQuadrant = classifyCEPlaneQuadrant(costDiff, dalyDiff);
+  if (intervention.financialProtection && baseline.financialProtection) {
+    intervention.catastrophicCasesAverted =
+      baseline.financialProtection.catastrophicCases - intervention.financialProtection.catastrophicCases;
+  }
+  if (intervention.prevalenceOutcomes && baseline.prevalenceOutcomes) {
+    intervention.complicationsAverted =
+      baseline.prevalenceOutcomes.complications - intervention.prevalenceOutcomes.complications;
+  }
+  if (intervention.transmission && baseline.transmission) {
+    intervention.casesAverted = baseline.transmission.newCases - intervention.transmission.newCases;
+  }
+  
   // If both costs are reduced and DALYs are reduced, this is a dominant intervention
   // Return a small positive value rather than a negative value
   if (costDiff < 0 && dalyDiff > 0) {
@@ -930,6 +3217,11 @@ export const diseaseProfiles = {
     queueAbandonmentRate: 0.04, // 4% - Patients understand importance of treatment
     queueBypassRate: 0.05,    // 5% - Less traditional treatment, more education
     queueClearanceRate: 0.25, // 25% - Complex protocols, counseling needed
+    // Transmission sub-model (set transmissionModel to 'tb' to switch on)
+    transmissionModel: 'none' as TransmissionModel,
+    transmissionShare: 0.6,   // recent transmission; the rest is reactivation of old latent infection (60%)
+    careInfectiousness: 0.5,  // patients at L0-L1 awaiting diagnosis and treatment still pass TB on at home (50%)
+    transmissionDelayWeeks: 52, // most disease from recent infection develops within 1-2 years
   },
   childhood_pneumonia: { // Primarily non-severe childhood pneumonia
     lambda: 0.05,             // 50,000 cases per million population (affects mainly under-5s)
@@ -986,6 +3278,12 @@ export const diseaseProfiles = {
     queueAbandonmentRate: 0.06, // 6% - Patients know it's serious but may seek traditional care
     queueBypassRate: 0.15,    // 15% - Traditional antimalarials sometimes used
     queueClearanceRate: 0.40, // 40% - RDT + ACT protocol is fast
+    // Transmission sub-model (set transmissionModel to 'malaria' to switch on)
+    transmissionModel: 'none' as TransmissionModel,
+    transmissionShare: 0.5,   // asymptomatic carriers keep up about half of transmission whatever care does
+    careInfectiousness: 0.25, // patients at L0-L1 not yet on ACT are mostly indoors and under nets (25%)
+    mosquitoInfectionRate: 2, // a few percent of mosquitoes infectious at endemic prevalence (sporozoite rate)
+    mosquitoDeathRate: 0.5,   // ~10% daily mosquito mortality
   },
   fever: { // Fever of Unknown Origin (non-specific)
     lambda: 0.60,             // moderate-high incidence (episodes per person-year)
@@ -1070,6 +3368,30 @@ export const diseaseProfiles = {
     queueAbandonmentRate: 0.02, // 2% - Patients committed to chronic care
     queueBypassRate: 0.02,    // 2% - Patients understand need for formal care
     queueClearanceRate: 0.30, // 30% - Standard chronic care visits
+    // Chronic care (relapse and controlled care are opt-in, see chronicCarePresets)
+    controlledCareCost: 1.5,  // ARVs, viral load testing and refill visits (~$75 a year)
+    // Prevalence mode: people living with HIV through ART care (set modelVariant to 'prevalence')
+    modelVariant: 'incidence' as ModelVariant,
+    initialPrevalence: 0.07,  // adult HIV prevalence scaled to the whole population (7%)
+    chronicIncidence: 0.004,  // new infections per person per year (0.4%)
+    diagnosedShare: 0.75,     // on ART at the start (75%)
+    diagnosisRate: 0.006,     // testing and linkage (0.6% weekly, ~27% a year)
+    visitsPerYear: 6,         // refill and monitoring visits
+    l0VisitShare: 0.4,        // community adherence clubs and CHW refills (40%)
+    adherenceLossRate: 0.005, // stop taking ART as prescribed (0.5% weekly)
+    adherenceRecovery: 0.25,  // enhanced adherence counselling at a visit works (25%)
+    lossToFollowUpRate: 0.003, // stop attending (0.3% weekly, ~15% a year)
+    returnToCareRate: 0.006,  // re-engage after tracing or illness (0.6% weekly)
+    controlProbability: 0.90, // virally suppressed when adherent (90%)
+    complicationRate: 0.002,  // opportunistic infections when unsuppressed (0.2% weekly, ~10% a year)
+    controlledComplicationRR: 0.1, // suppression prevents most opportunistic infections
+    complicationWeeks: 3,     // admission for TB, cryptococcal meningitis, PCP
+    complicationL3Share: 0.25, // advanced disease managed at tertiary (25%)
+    complicationMortality: 0.20, // in-hospital case fatality of advanced HIV (20%)
+    otherCauseMortality: 0.01, // annual deaths from other causes (1%)
+    uncontrolledDisabilityWeight: 0.274, // GBD symptomatic HIV
+    controlledDisabilityWeight: 0.078,   // GBD HIV on ART
+    complicationDisabilityWeight: 0.582, // GBD AIDS
   },
   urti: { // Upper Respiratory Tract Infection
     lambda: 0.80,              // high incidence (800,000 episodes per million population)
@@ -1154,9 +3476,55 @@ export const diseaseProfiles = {
     queueAbandonmentRate: 0.10, // 10% - May feel fine, skip appointments
     queueBypassRate: 0.15,    // 15% - Traditional remedies common
     queueClearanceRate: 0.35, // 35% - Standard chronic care visits
+    // Chronic care (relapse and controlled care are opt-in, see chronicCarePresets)
+    controlledCareCost: 0.3,  // generic antihypertensives and follow-up BP checks (~$15 a year)
+    // Prevalence mode: people living with hypertension through scheduled care (set modelVariant to 'prevalence')
+    modelVariant: 'incidence' as ModelVariant,
+    initialPrevalence: 0.12,  // adult prevalence scaled to the whole population (12%)
+    chronicIncidence: 0.008,  // new cases per person per year (0.8%)
+    diagnosedShare: 0.40,     // diagnosed and in care at the start (40%)
+    diagnosisRate: 0.003,     // screening and opportunistic diagnosis (0.3% weekly, ~15% a year)
+    visitsPerYear: 4,         // quarterly BP checks and refills
+    l0VisitShare: 0.3,        // CHW follow-up of stable patients (30%)
+    adherenceLossRate: 0.01,  // stop taking medication as prescribed (1% weekly)
+    adherenceRecovery: 0.30,  // counselling at a visit gets patients back on treatment (30%)
+    lossToFollowUpRate: 0.004, // stop attending (0.4% weekly, ~20% a year)
+    returnToCareRate: 0.005,  // come back to care (0.5% weekly)
+    controlProbability: 0.60, // BP controlled when adherent (60%)
+    complicationRate: 0.0004, // stroke, heart attack or heart failure when uncontrolled (~2% a year)
+    controlledComplicationRR: 0.6, // BP control prevents ~40% of cardiovascular events
+    complicationWeeks: 2,     // admission for an acute event
+    complicationL3Share: 0.20, // specialist stroke and cardiac care (20%)
+    complicationMortality: 0.15, // in-hospital case fatality (15%)
+    otherCauseMortality: 0.015, // annual deaths from other causes (1.5%)
+    controlledDisabilityWeight: 0,      // controlled hypertension is asymptomatic
+    complicationDisabilityWeight: 0.316, // GBD acute stroke (moderate)
   }
 };
 
+// Opt-in relapse and controlled care for chronic conditions. Disease profiles leave these flows off so
+// episodes stay one-off by default; applying a preset stores it with the disease overrides.
+export const chronicCarePresets: Record<string, { label: string; params: Partial<ModelParameters> }> = {
+  hiv_management_chronic: {
+    label: 'ART retention',
+    params: {
+      controlledShare: 0.85,    // stabilised patients retained on ART with suppressed viral load (85%)
+      decompensationRate: 0.003, // lost to follow-up or treatment failure (0.3% weekly, ~15% a year)
+      relapseRate: 0.01,        // stabilised without ongoing ART, back with advancing disease (1% weekly)
+      relapseToInformalShare: 0.3, // most returning patients present to formal care again (30% informal)
+    },
+  },
+  hypertension: {
+    label: 'BP control',
+    params: {
+      controlledShare: 0.60,    // patients controlled in formal care who stay on treatment (60%)
+      decompensationRate: 0.008, // stop medication or lose control (0.8% weekly, ~35% a year)
+      relapseRate: 0.02,        // BP rises again after control without ongoing care (2% weekly)
+      relapseToInformalShare: 0.5, // half of returning patients try lifestyle or traditional remedies first
+    },
+  },
+};
+
 // AI intervention modifiers
 export interface AIInterventions {
   triageAI: boolean;          // Direct-to-consumer AI triage
@@ -1200,6 +3568,13 @@ export interface AICostParameters {
   selfCareAI: { fixed: number, variable: number };
 }
 
+// AI error parameters: how often each tool gets it wrong among the patients who use it
+export interface AIErrorParameters {
+  triageAI: { underReferral: number, overReferral: number };
+  diagnosticAI: { sensitivity: number, specificity: number };
+  selfCareAI: { falseReassurance: number };
+}
+
 // AI base effects interface
 export interface AIBaseEffects {
   triageAI: {
@@ -1281,6 +3656,28 @@ export const defaultAICostParameters: AICostParameters = {
   }
 };
 
+// Default AI error parameters - perfect AI, so callers only model misrouting when they ask for it
+export const defaultAIErrorParameters: AIErrorParameters = {
+  triageAI: { underReferral: 0, overReferral: 0 },
+  diagnosticAI: { sensitivity: 1, specificity: 1 },
+  selfCareAI: { falseReassurance: 0 }
+};
+
+// Suggested AI error rates - typical of triage and diagnostic AI evaluations in LMIC primary care
+export const suggestedAIErrorParameters: AIErrorParameters = {
+  triageAI: {
+    underReferral: 0.05,   // 5% of care seekers wrongly told to manage at home (false negatives)
+    overReferral: 0.10     // 10% of CHW-level cases sent on to primary care (false positives)
+  },
+  diagnosticAI: {
+    sensitivity: 0.95,     // 5% of patients needing referral are missed and sent home
+    specificity: 0.90      // 10% of patients treatable at primary care are referred anyway
+  },
+  selfCareAI: {
+    falseReassurance: 0.05 // 5% of those advised to stay home needed care
+  }
+};
+
 // Default AI uptake parameters - differentiated by user type
 export const defaultAIUptakeParameters: AIUptakeParameters = {
   globalUptake: 1.0,          // Global multiplier (default 100% - use individual rates)
@@ -1748,6 +4145,30 @@ export const diseaseSpecificAIEffects: DiseaseSpecificAIEffects = {
   default: defaultAIBaseEffects
 };
 
+// How each AI tool acts on care in prevalence mode. Rates are multiplied (1 = no effect) and
+// controlProbability is increased; both are scaled by effect magnitude and uptake like episode effects.
+export type PrevalenceAIEffect = Partial<Record<
+  'diagnosisRate' | 'adherenceLossRate' | 'lossToFollowUpRate' | 'returnToCareRate' |
+  'controlProbability' | 'complicationWeeks' | 'complicationMortality',
+  number
+>>;
+
+export const prevalenceAIEffects: Record<keyof AIInterventions, PrevalenceAIEffect> = {
+  triageAI: { diagnosisRate: 1.15 },           // symptom checks prompt testing of people not yet diagnosed
+  chwAI: {
+    lossToFollowUpRate: 0.75,                  // defaulter tracing and home follow-up
+    returnToCareRate: 1.5,
+    adherenceLossRate: 0.85,
+  },
+  diagnosticAI: { controlProbability: 0.08 },  // risk stratification and treatment titration at visits
+  bedManagementAI: { complicationWeeks: 0.85 },
+  hospitalDecisionAI: { complicationMortality: 0.85 },
+  selfCareAI: {
+    adherenceLossRate: 0.70,                   // reminders and home monitoring
+    diagnosisRate: 1.10,
+  },
+};
+
 // Apply AI intervention effects to parameters
 export const applyAIInterventions = (
   baseParams: ModelParameters,
@@ -1757,7 +4178,9 @@ export const applyAIInterventions = (
   baseEffects: AIBaseEffects = defaultAIBaseEffects,
   disease?: string,
   uptakeParams: AIUptakeParameters = defaultAIUptakeParameters,
-  isUrban: boolean = true
+  isUrban: boolean = true,
+  errorParams: AIErrorParameters = defaultAIErrorParameters,
+  onBeforeCapping?: (params: ModelParameters) => void // sees the AI effects before they are capped to [0, 1]
 ): ModelParameters => {
   console.log('🔧 DEBUG applyAIInterventions called with interventions:', interventions);
   console.log('🔧 DEBUG selfCareAI state:', interventions.selfCareAI);
@@ -2011,6 +4434,25 @@ export const applyAIInterventions = (
     modifiedParams.selfCareAIActive = true; // Set the flag indicating self-care AI is active
   }
   
+  // In prevalence mode the tools act on scheduled care, adherence and complications instead
+  if (modifiedParams.modelVariant === 'prevalence') {
+    (Object.keys(prevalenceAIEffects) as (keyof AIInterventions)[])
+      .filter(tool => interventions[tool])
+      .forEach(tool => {
+        const effects = prevalenceAIEffects[tool];
+        (Object.keys(effects) as (keyof PrevalenceAIEffect)[]).forEach(key => {
+          const current = modifiedParams[key];
+          const effect = effects[key];
+          if (current === undefined || effect === undefined) return;
+          modifiedParams[key] = key === 'controlProbability'
+            ? Math.min(1, current + applyMagnitude(`${tool}_${key}`, effect, false, tool))
+            : current * applyMagnitude(`${tool}_${key}`, effect, true, tool);
+        });
+      });
+  }
+  
+  onBeforeCapping?.({ ...modifiedParams });
+  
   // Ensure all probability parameters stay within valid bounds (0 to 1) after AI effects are applied
   const probabilityParams = [
     'muI', 'mu0', 'mu1', 'mu2', 'mu3', 
@@ -2061,9 +4503,245 @@ export const applyAIInterventions = (
     }
   }
   
+  // AI errors only reach the patients who use the tool, so the rates scale with uptake but not with effect magnitude
+  const errorRate = (tool: keyof AIInterventions, rate: number) =>
+    interventions[tool] ? Math.max(0, Math.min(1, rate)) * getEffectiveUptake(tool) : 0;
+  modifiedParams.triageUnderReferral = errorRate('triageAI', errorParams.triageAI.underReferral);
+  modifiedParams.triageOverReferral = errorRate('triageAI', errorParams.triageAI.overReferral);
+  modifiedParams.diagnosticMissedReferral = errorRate('diagnosticAI', 1 - errorParams.diagnosticAI.sensitivity);
+  modifiedParams.diagnosticFalseReferral = errorRate('diagnosticAI', 1 - errorParams.diagnosticAI.specificity);
+  modifiedParams.selfCareFalseReassurance = errorRate('selfCareAI', errorParams.selfCareAI.falseReassurance);
+  
   return modifiedParams;
 };
 
+// AI adoption over the simulated timeline
+export type AIAdoptionCurve = 'logistic' | 'bass';
+
+export interface AIRolloutSettings {
+  curve: AIAdoptionCurve;
+  weeksToScale: Partial<Record<keyof AIInterventions, number>>; // weeks for a tool to reach ~90% of its target uptake
+  effectTrajectories?: Partial<Record<keyof AIInterventions, AIEffectTrajectory>>; // how effects change after launch
+}
+
+// How a tool's effect changes after launch: 'constant' keeps it; 'decay' halves it every halfLifeWeeks;
+// 'plateau' decays towards a floor it keeps for good; 'reinvestment' decays towards the floor but is
+// restored in full every reinvestmentIntervalWeeks, at reinvestmentCost each time
+export type AIEffectTrajectoryType = 'constant' | 'decay' | 'plateau' | 'reinvestment';
+
+export interface AIEffectTrajectory {
+  type: AIEffectTrajectoryType;
+  halfLifeWeeks: number;             // weeks for the effect above the floor to halve
+  plateau: number;                   // share of the effect kept for good (plateau and reinvestment)
+  reinvestmentIntervalWeeks: number; // reinvestment: weeks between refresher training or re-engagement campaigns
+  reinvestmentCost: number;          // reinvestment: cost of each round (USD)
+}
+
+// Patient-facing tools lose users as engagement fades, so their variable costs and errors fall with
+// the effect; provider tools stay in use while their effect wanes with skills and workflow drift
+export const patientFacingAITools: (keyof AIInterventions)[] = ['triageAI', 'selfCareAI'];
+
+// Default effect trajectories: engagement with patient-facing apps fades within months, provider
+// tools need yearly refresher training to keep their effect
+export const defaultAIEffectTrajectories: Record<keyof AIInterventions, AIEffectTrajectory> = {
+  triageAI: { type: 'plateau', halfLifeWeeks: 39, plateau: 0.6, reinvestmentIntervalWeeks: 52, reinvestmentCost: 40000 },
+  chwAI: { type: 'reinvestment', halfLifeWeeks: 52, plateau: 0.5, reinvestmentIntervalWeeks: 52, reinvestmentCost: 30000 },
+  diagnosticAI: { type: 'reinvestment', halfLifeWeeks: 78, plateau: 0.7, reinvestmentIntervalWeeks: 52, reinvestmentCost: 45000 },
+  bedManagementAI: { type: 'plateau', halfLifeWeeks: 104, plateau: 0.8, reinvestmentIntervalWeeks: 104, reinvestmentCost: 40000 },
+  hospitalDecisionAI: { type: 'reinvestment', halfLifeWeeks: 104, plateau: 0.7, reinvestmentIntervalWeeks: 104, reinvestmentCost: 60000 },
+  selfCareAI: { type: 'plateau', halfLifeWeeks: 26, plateau: 0.4, reinvestmentIntervalWeeks: 26, reinvestmentCost: 20000 },
+};
+
+// Share of a tool's full effect left in a given week after launch (1 before launch)
+export const calculateAIEffectRetention = (trajectory: AIEffectTrajectory | undefined, week: number): number => {
+  if (!trajectory || trajectory.type === 'constant' || week < 0 || trajectory.halfLifeWeeks <= 0) return 1;
+  
+  const floor = trajectory.type === 'decay' ? 0 : Math.max(0, Math.min(1, trajectory.plateau));
+  const weeksSinceRestored = trajectory.type === 'reinvestment' && trajectory.reinvestmentIntervalWeeks > 0
+    ? week % trajectory.reinvestmentIntervalWeeks
+    : week;
+  return floor + (1 - floor) * Math.pow(0.5, weeksSinceRestored / trajectory.halfLifeWeeks);
+};
+
+// Re-investment spending on a tool in a given week: one round at the end of every interval
+export const calculateAIReinvestmentCost = (trajectory: AIEffectTrajectory | undefined, week: number): number => {
+  if (!trajectory || trajectory.type !== 'reinvestment' || trajectory.reinvestmentIntervalWeeks <= 0) return 0;
+  return week > 0 && week % trajectory.reinvestmentIntervalWeeks === 0 ? trajectory.reinvestmentCost : 0;
+};
+
+type NumericParameterKey = {
+  [K in keyof ModelParameters]-?: NonNullable<ModelParameters[K]> extends number ? K : never
+}[keyof ModelParameters];
+
+const setNumericParameter = (params: ModelParameters, key: NumericParameterKey, value: number): void => {
+  (params as Record<NumericParameterKey, number>)[key] = value;
+};
+
+export interface AIRolloutSchedule extends AIRolloutSettings {
+  // Change each active tool makes to the numeric parameters once fully adopted, on its own
+  toolEffects: Partial<Record<keyof AIInterventions, Partial<Record<NumericParameterKey, number>>>>;
+  // Change all active tools make together; effects add, multiply or override, so this is not the sum
+  combinedEffects: Partial<Record<NumericParameterKey, number>>;
+  toolVariableCosts: Partial<Record<keyof AIInterventions, number>>;
+}
+
+// Classic Bass diffusion coefficients (innovation p, imitation q); time is rescaled to the tool's time-to-scale
+const BASS_INNOVATION = 0.03;
+const BASS_IMITATION = 0.38;
+
+// Share of target uptake reached by a tool in a given week (0 before launch at week 0)
+export const calculateAIAdoption = (
+  curve: AIAdoptionCurve,
+  weeksToScale: number | undefined,
+  week: number
+): number => {
+  if (week < 0) return 0;
+  if (!weeksToScale || weeksToScale <= 0) return 1;
+  
+  if (curve === 'bass') {
+    const p = BASS_INNOVATION;
+    const q = BASS_IMITATION;
+    // Bass time at which cumulative adoption reaches 90%
+    const t90 = -Math.log(0.1 / (1 + 0.9 * q / p)) / (p + q);
+    const decay = Math.exp(-(p + q) * (week / weeksToScale) * t90);
+    return (1 - decay) / (1 + (q / p) * decay);
+  }
+  
+  // Logistic S-curve centred on half the time-to-scale, shifted so adoption starts at 0 at launch
+  const midpoint = weeksToScale / 2;
+  const steepness = Math.log(9) / midpoint;
+  const logistic = (t: number) => 1 / (1 + Math.exp(-steepness * (t - midpoint)));
+  const start = logistic(0);
+  return Math.min(1, Math.max(0, (logistic(week) - start) / (1 - start)));
+};
+
+// Rollout settings a run needs. Transmission measures incidence against the endemic level reached
+// before AI, so without a configured rollout AI still launches at week 0, at full uptake.
+export const resolveAIRolloutSettings = (
+  params: ModelParameters,
+  settings: AIRolloutSettings | undefined
+): AIRolloutSettings | undefined =>
+  settings ?? (modelsTransmission(params) ? { curve: 'logistic', weeksToScale: {} } : undefined);
+
+// Split the AI effects into per-tool parameter changes so each tool can ramp up on its own curve.
+// At full adoption the rolled-out parameters are exactly those of applyAIInterventions, and before
+// launch exactly those without AI.
+export const createAIRolloutSchedule = (
+  preAIParams: ModelParameters,
+  interventions: AIInterventions,
+  settings: AIRolloutSettings,
+  effectMagnitudes: {[key: string]: number} = {},
+  costParams: AICostParameters = defaultAICostParameters,
+  baseEffects: AIBaseEffects = defaultAIBaseEffects,
+  disease?: string,
+  uptakeParams: AIUptakeParameters = defaultAIUptakeParameters,
+  isUrban: boolean = true,
+  errorParams: AIErrorParameters = defaultAIErrorParameters
+): AIRolloutSchedule => {
+  const noInterventions: AIInterventions = {
+    triageAI: false,
+    chwAI: false,
+    diagnosticAI: false,
+    bedManagementAI: false,
+    hospitalDecisionAI: false,
+    selfCareAI: false
+  };
+  const withoutAI = applyAIInterventions(preAIParams, noInterventions, effectMagnitudes, costParams, baseEffects, disease, uptakeParams, isUrban, errorParams);
+  
+  // Numeric parameters the AI tools change, other than their costs
+  const changesFromNoAI = (withAI: ModelParameters): Partial<Record<NumericParameterKey, number>> => {
+    const changes: Partial<Record<NumericParameterKey, number>> = {};
+    (Object.keys(withAI) as (keyof ModelParameters)[]).forEach(key => {
+      if (key === 'aiFixedCost' || key === 'aiVariableCost') return;
+      const value = withAI[key];
+      if (typeof value !== 'number') return;
+      const before = (withoutAI[key] as number | undefined) || 0;
+      if (value !== before) {
+        changes[key as NumericParameterKey] = value - before;
+      }
+    });
+    return changes;
+  };
+  
+  const toolEffects: AIRolloutSchedule['toolEffects'] = {};
+  const toolVariableCosts: AIRolloutSchedule['toolVariableCosts'] = {};
+  
+  (Object.keys(interventions) as (keyof AIInterventions)[])
+    .filter(tool => interventions[tool])
+    .forEach(tool => {
+      const withTool = applyAIInterventions(
+        preAIParams, { ...noInterventions, [tool]: true }, effectMagnitudes, costParams, baseEffects, disease, uptakeParams, isUrban, errorParams
+      );
+      toolEffects[tool] = changesFromNoAI(withTool);
+      toolVariableCosts[tool] = withTool.aiVariableCost;
+    });
+  
+  const combinedEffects = changesFromNoAI(
+    applyAIInterventions(preAIParams, interventions, effectMagnitudes, costParams, baseEffects, disease, uptakeParams, isUrban, errorParams)
+  );
+  
+  return { ...settings, toolEffects, combinedEffects, toolVariableCosts };
+};
+
+// Parameters in effect for one week of an AI rollout: each tool's effect and variable cost are
+// scaled back by the share of its target uptake not yet reached, and its effect by what is left
+// of it on its effect trajectory. Error rates follow use, like variable costs.
+// Where several tools change a parameter, the combined change is scaled by their shares weighted
+// by the size of each tool's own change, so it is gone before launch however the effects combine.
+export const applyAIRollout = (params: ModelParameters, week: number): ModelParameters => {
+  const rollout = params.aiRollout;
+  if (!rollout) return params;
+  
+  const rolledOut: ModelParameters = { ...params };
+  const reached: Partial<Record<NumericParameterKey, { weightedShare: number; weight: number }>> = {};
+  const effectShares: number[] = [];
+  let variableCost = 0;
+  let reinvestmentCost = 0;
+  
+  (Object.keys(rollout.toolEffects) as (keyof AIInterventions)[]).forEach(tool => {
+    const adoption = calculateAIAdoption(rollout.curve, rollout.weeksToScale[tool], week);
+    const trajectory = rollout.effectTrajectories?.[tool];
+    const retention = calculateAIEffectRetention(trajectory, week);
+    const use = adoption * (patientFacingAITools.includes(tool) ? retention : 1);
+    const effects = rollout.toolEffects[tool] || {};
+    effectShares.push(adoption * retention);
+    (Object.keys(effects) as NumericParameterKey[]).forEach(key => {
+      const share = (aiErrorRates as readonly string[]).includes(key) ? use : adoption * retention;
+      const weight = Math.abs(effects[key] || 0);
+      const entry = reached[key] || { weightedShare: 0, weight: 0 };
+      reached[key] = { weightedShare: entry.weightedShare + share * weight, weight: entry.weight + weight };
+    });
+    variableCost += use * (rollout.toolVariableCosts[tool] || 0);
+    reinvestmentCost += calculateAIReinvestmentCost(trajectory, week);
+  });
+  
+  // Changes that no tool makes on its own come from tools interacting (or from clamping), so they
+  // follow the mean share of all active tools
+  const meanShare = effectShares.length > 0
+    ? effectShares.reduce((sum, share) => sum + share, 0) / effectShares.length
+    : 0;
+  (Object.keys(rollout.combinedEffects) as NumericParameterKey[]).forEach(key => {
+    const entry = reached[key];
+    const share = entry && entry.weight > 0 ? entry.weightedShare / entry.weight : meanShare;
+    setNumericParameter(rolledOut, key, (rolledOut[key] || 0) - (1 - share) * (rollout.combinedEffects[key] || 0));
+  });
+  
+  // Keep probabilities valid where two tools act on the same parameter
+  const probabilityParams = [
+    'muI', 'mu0', 'mu1', 'mu2', 'mu3',
+    'deltaU', 'deltaI', 'delta0', 'delta1', 'delta2', 'delta3',
+    'rho0', 'rho1', 'rho2',
+    'phi0', 'sigmaI'
+  ] as const;
+  for (const param of probabilityParams) {
+    rolledOut[param] = Math.max(0, Math.min(1, rolledOut[param]));
+  }
+  
+  rolledOut.aiVariableCost = variableCost;
+  rolledOut.aiReinvestmentCost = reinvestmentCost;
+  return rolledOut;
+};
+
 // Default baseline parameters
 export const getDefaultParameters = (): ModelParameters => ({
   // Disease characteristics
@@ -2117,6 +4795,23 @@ export const getDefaultParameters = (): ModelParameters => ({
   yearsOfLifeLost: 30,
   regionalLifeExpectancy: 70,
   
+  // Costing perspective - societal values follow common LMIC costing guidance
+  costingPerspective: 'health_system',
+  patientTimePerVisit: 0.5,
+  caregiverTimeShare: 0.5,
+  labourForceParticipation: 0.65,
+  retirementAge: 65,
+  
+  // Household financial protection - typical LMIC fee schedules and survey-based income spread
+  userFees: { L0: 0, L1: 2, L2: 10, L3: 25 },
+  costTransport: 15,
+  oopShare: 0.4,               // out-of-pocket share of current health expenditure in many LMICs
+  catastrophicThreshold: 0.4,  // WHO: 40% of non-food spending
+  costPerCapitaGDP: 1000,
+  householdSize: 5,
+  foodShare: 0.45,
+  incomeLogSD: 0.8,
+  
   // System capacity parameters
   systemCongestion: 0,  // Default: no congestion
   
@@ -0,0 +1,195 @@
+import { AIInterventions } from './stockAndFlowModel';
+import { PSADraw, calculateNetMonetaryBenefit } from './probabilisticAnalysis';
+
+// Expected value of information (VOI) from the PSA draws
+// The decision is AI package versus no AI, judged by net monetary benefit (NMB) at a willingness to pay.
+// EVPI is what resolving all uncertainty would be worth: the mean NMB of choosing the best option in
+// every draw, minus the NMB of the option that is best on average. EVPPI is the same for one group of
+// parameters, such as the AI effect sizes an effectiveness trial would measure. It is estimated by
+// regressing each draw's NMB on the group's sampled values (Strong et al. 2014), so no extra
+// simulations are needed.
+
+export interface VOIParameterGroup {
+  id: string;
+  label: string;
+  study: string;                   // evaluation study that would reduce this uncertainty
+  parameters: string[];            // PSA distribution names; names ending in '.' match every name with that prefix
+}
+
+export const defaultVOIGroups: VOIParameterGroup[] = [
+  { id: 'aiEffects', label: 'AI effect sizes', study: 'Effectiveness trial of the AI tools', parameters: ['aiEffect.'] },
+  { id: 'aiUptake', label: 'AI uptake', study: 'Implementation pilot measuring uptake', parameters: ['aiUptake.'] },
+  {
+    id: 'mortality',
+    label: 'Mortality by level of care',
+    study: 'Mortality survey or verbal autopsy study',
+    parameters: ['deltaU', 'deltaI', 'delta0', 'delta1', 'delta2', 'delta3'],
+  },
+  {
+    id: 'careSeeking',
+    label: 'Care seeking',
+    study: 'Household care-seeking survey',
+    parameters: ['phi0', 'sigmaI', 'informalCareRatio'],
+  },
+  {
+    id: 'resolutionReferral',
+    label: 'Resolution and referral',
+    study: 'Facility record review or HMIS audit',
+    parameters: ['muU', 'muI', 'mu0', 'mu1', 'mu2', 'mu3', 'rho0', 'rho1', 'rho2'],
+  },
+  { id: 'costs', label: 'Service costs', study: 'Facility costing study', parameters: ['perDiemCosts.'] },
+];
+
+const toolLabels: Record<keyof AIInterventions, string> = {
+  triageAI: 'Triage AI',
+  chwAI: 'CHW AI',
+  diagnosticAI: 'Diagnostic AI',
+  bedManagementAI: 'Bed management AI',
+  hospitalDecisionAI: 'Hospital decision AI',
+  selfCareAI: 'Self-care AI',
+};
+
+// Default groups plus one effect-size group per active tool, so trials of single tools can be compared
+export const buildVOIGroups = (interventions: AIInterventions): VOIParameterGroup[] => {
+  const activeTools = (Object.keys(interventions) as (keyof AIInterventions)[]).filter(tool => interventions[tool]);
+  return [
+    ...defaultVOIGroups,
+    ...(activeTools.length > 1 ? activeTools.map(tool => ({
+      id: `aiEffect.${tool}`,
+      label: `${toolLabels[tool]} effect size`,
+      study: `Effectiveness trial of ${toolLabels[tool].toLowerCase()}`,
+      parameters: [`aiEffect.${tool}`],
+    })) : []),
+  ];
+};
+
+export interface VOIGroupResult {
+  group: VOIParameterGroup;
+  parameters: string[];            // sampled distribution names in the group
+  evppi: number;                   // for the modelled population and period
+}
+
+export interface VOIResults {
+  wtp: number;
+  evpi: number;                    // for the modelled population and period
+  probabilityAIOptimal: number;    // share of draws in which the AI package has the higher NMB
+  groups: VOIGroupResult[];        // in the order of the groups passed in
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Value of knowing which option is best, given per-draw NMB estimates for AI against no AI (NMB 0)
+const valueOfKnowing = (incrementalNMB: number[]): number =>
+  mean(incrementalNMB.map(value => Math.max(0, value))) - Math.max(0, mean(incrementalNMB));
+
+export const calculateEVPI = (draws: PSADraw[], wtp: number): number =>
+  valueOfKnowing(draws.map(draw => calculateNetMonetaryBenefit(draw, wtp)));
+
+const matchesGroup = (name: string, group: VOIParameterGroup): boolean =>
+  group.parameters.some(parameter => (parameter.endsWith('.') ? name.startsWith(parameter) : name === parameter));
+
+// Solve (XᵀX + ridge·I) b = Xᵀy by Gaussian elimination with partial pivoting
+const leastSquares = (rows: number[][], y: number[]): number[] => {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size + 1 }, (_, j) =>
+      j < size
+        ? rows.reduce((sum, row) => sum + row[i] * row[j], 0)
+        : rows.reduce((sum, row, k) => sum + row[i] * y[k], 0)
+    )
+  );
+  // A small ridge keeps the system solvable when a term does not vary across draws
+  const ridge = 1e-8 * Math.max(1, ...matrix.map((row, i) => row[i]));
+  matrix.forEach((row, i) => { row[i] += ridge; });
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    if (Math.abs(matrix[col][col]) < 1e-300) continue;
+    for (let row = col + 1; row < size; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k <= size; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+
+  const coefficients = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    const rest = matrix[row].slice(row + 1, size).reduce((sum, value, k) => sum + value * coefficients[row + 1 + k], 0);
+    coefficients[row] = Math.abs(matrix[row][row]) < 1e-300 ? 0 : (matrix[row][size] - rest) / matrix[row][row];
+  }
+  return coefficients;
+};
+
+// Regression terms: intercept, each parameter and its square, and pairwise products while the
+// draws support them (about ten draws per term)
+const regressionTerms = (values: number[][], drawCount: number): number[][] => {
+  const k = values[0]?.length || 0;
+  const withInteractions = 1 + 2 * k + (k * (k - 1)) / 2 <= drawCount / 10;
+  const withSquares = 1 + 2 * k <= drawCount / 10;
+  return values.map(row => {
+    const terms = [1, ...row];
+    if (withSquares) row.forEach(value => terms.push(value * value));
+    if (withInteractions) {
+      for (let i = 0; i < k; i++) {
+        for (let j = i + 1; j < k; j++) terms.push(row[i] * row[j]);
+      }
+    }
+    return terms;
+  });
+};
+
+export const calculateEVPPI = (draws: PSADraw[], parameters: string[], wtp: number): number => {
+  if (draws.length < 10 || parameters.length === 0) return 0;
+
+  // Standardise each parameter so the polynomial terms are on comparable scales
+  const columns = parameters.map(name => {
+    const values = draws.map(draw => draw.sampledValues[name] ?? 0);
+    const columnMean = mean(values);
+    const sd = Math.sqrt(mean(values.map(value => (value - columnMean) ** 2)));
+    return values.map(value => (sd > 0 ? (value - columnMean) / sd : 0));
+  });
+  const values = draws.map((_, i) => columns.map(column => column[i]));
+  const incrementalNMB = draws.map(draw => calculateNetMonetaryBenefit(draw, wtp));
+
+  const rows = regressionTerms(values, draws.length);
+  const coefficients = leastSquares(rows, incrementalNMB);
+  const fitted = rows.map(row => row.reduce((sum, term, i) => sum + term * coefficients[i], 0));
+
+  // Regression noise can push the estimate slightly outside [0, EVPI]
+  return Math.max(0, Math.min(valueOfKnowing(fitted), valueOfKnowing(incrementalNMB)));
+};
+
+export const runValueOfInformationAnalysis = (
+  draws: PSADraw[],
+  wtp: number,
+  groups: VOIParameterGroup[] = defaultVOIGroups
+): VOIResults => {
+  const sampledNames = draws.length > 0 ? Object.keys(draws[0].sampledValues) : [];
+  return {
+    wtp,
+    evpi: calculateEVPI(draws, wtp),
+    probabilityAIOptimal: draws.length > 0
+      ? draws.filter(draw => calculateNetMonetaryBenefit(draw, wtp) > 0).length / draws.length
+      : 0,
+    groups: groups.map(group => {
+      const parameters = sampledNames.filter(name => matchesGroup(name, group));
+      return { group, parameters, evppi: calculateEVPPI(draws, parameters, wtp) };
+    }),
+  };
+};
+
+// Scale values for the modelled population and period to everyone the decision affects, over the
+// years it stands (undiscounted)
+export const calculateVOIScale = (
+  modelledPopulation: number,
+  modelledWeeks: number,
+  affectedPopulation: number,
+  decisionYears: number
+): number =>
+  modelledPopulation > 0 && modelledWeeks > 0
+    ? (affectedPopulation / modelledPopulation) * ((decisionYears * 52) / modelledWeeks)
+    : 0;
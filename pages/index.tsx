@@ -3,6 +3,9 @@ import Head from 'next/head';
 import Layout from '../components/Layout';
 import Dashboard from '../components/Dashboard';
 import SensitivityAnalysis from '../components/SensitivityAnalysis';
+import BudgetImpactAnalysis from '../components/BudgetImpactAnalysis';
+import PortfolioOptimizer from '../components/PortfolioOptimizer';
+import CalibrationPanel from '../components/CalibrationPanel';
 import ParametersPanel from '../components/ParametersPanel';
 import EquationExplainer from '../components/EquationExplainer';
 import ScenarioManager from '../components/ScenarioManager';
@@ -13,14 +16,14 @@ import ClinicalParameterGuide from '../components/ClinicalParameterGuide';
 import { useAtom } from 'jotai';
 import { simulationResultsAtom, aiInterventionsAtom, scenariosAtom } from '../lib/store';
 
-type TabType = 'dashboard' | 'scenarios' | 'interventions' | 'sensitivity' | 'parameters' | 'equations' | 'clinical-guide' | 'ipm-bubble' | 'impact-bubble';
+type TabType = 'dashboard' | 'scenarios' | 'interventions' | 'sensitivity' | 'budget' | 'portfolio' | 'calibration' | 'parameters' | 'equations' | 'clinical-guide' | 'ipm-bubble' | 'impact-bubble';
 
 export default function Home() {
   const [results] = useAtom(simulationResultsAtom);
   const [aiInterventions] = useAtom(aiInterventionsAtom);
   const [scenarios] = useAtom(scenariosAtom);
   const [activeTab, setActiveTab] = useState<TabType>('dashboard');
-  const [preSimulationTab, setPreSimulationTab] = useState<'dashboard' | 'scenarios' | 'parameters' | 'equations' | 'clinical-guide' | 'interventions'>('dashboard');
+  const [preSimulationTab, setPreSimulationTab] = useState<'dashboard' | 'scenarios' | 'parameters' | 'calibration' | 'equations' | 'clinical-guide' | 'interventions'>('dashboard');
   
   // Count active AI interventions
   const activeInterventionsCount = Object.values(aiInterventions).filter(Boolean).length;
@@ -120,6 +123,12 @@ export default function Home() {
         return <AIInterventionManager />;
       case 'sensitivity':
         return <SensitivityAnalysis />;
+      case 'budget':
+        return <BudgetImpactAnalysis />;
+      case 'portfolio':
+        return <PortfolioOptimizer />;
+      case 'calibration':
+        return <CalibrationPanel />;
       case 'parameters':
         return <ParametersPanel />;
       case 'equations':
@@ -141,6 +150,8 @@ export default function Home() {
         return <ScenarioManager />;
       case 'parameters':
         return <ParametersPanel />;
+      case 'calibration':
+        return <CalibrationPanel />;
       case 'equations':
         return <EquationExplainer />;
       case 'clinical-guide':
@@ -184,6 +195,9 @@ export default function Home() {
                       badge: activeInterventionsCount > 0 ? activeInterventionsCount : undefined
                     },
                     { id: 'sensitivity', name: 'Sensitivity' },
+                    { id: 'budget', name: 'Budget Impact' },
+                    { id: 'portfolio', name: 'AI Portfolio' },
+                    { id: 'calibration', name: 'Calibration' },
                     { id: 'parameters', name: 'Parameters' },
                     { id: 'equations', name: 'Equations' },
                     { id: 'clinical-guide', name: 'Clinical Guide' },
@@ -236,13 +250,14 @@ export default function Home() {
                     { id: 'dashboard', name: 'Dashboard' },
                     { id: 'scenarios', name: 'Scenarios' },
                     { id: 'parameters', name: 'Configure Parameters' },
+                    { id: 'calibration', name: 'Calibration' },
                     { id: 'interventions', name: 'Configure AI Interventions' },
                     { id: 'equations', name: 'Model Equations' },
                     { id: 'clinical-guide', name: 'Clinical Guide' },
                   ].map((tab) => (
                     <button
                       key={tab.id}
-                      onClick={() => setPreSimulationTab(tab.id as 'dashboard' | 'scenarios' | 'parameters' | 'equations' | 'clinical-guide' | 'interventions')}
+                      onClick={() => setPreSimulationTab(tab.id as 'dashboard' | 'scenarios' | 'parameters' | 'calibration' | 'equations' | 'clinical-guide' | 'interventions')}
                       className={`
                         border-b-2 py-4 px-1 text-sm font-medium
                         ${preSimulationTab === tab.id 